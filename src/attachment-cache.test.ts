@@ -0,0 +1,32 @@
+import { describe, it, expect } from "bun:test";
+import { AttachmentCache, InMemoryAttachmentCacheStorage } from "./attachment-cache.js";
+import { Logger } from "./logger.js";
+
+describe("AttachmentCache", () => {
+  it("should key attachments by owner and content hash or URL", async () => {
+    const cache = new AttachmentCache({ logger: new Logger({ enableConsole: false }) });
+    const contentHash = await AttachmentCache.hashContent(new Blob(["brochure"]));
+    const reference = { platform: "messenger" as const, ownerId: "page_1", type: "file" };
+
+    await cache.set({ ...reference, contentHash }, "att_1");
+    await cache.set({ ...reference, url: "https://example.com/a.pdf" }, "att_2");
+
+    expect(await cache.get({ ...reference, contentHash })).toBe("att_1");
+    expect(await cache.get({ ...reference, ownerId: "page_2", contentHash })).toBeUndefined();
+    expect(await cache.get({ ...reference, url: "https://example.com/a.pdf" })).toBe("att_2");
+    expect(AttachmentCache.getKey(reference)).toBeNull();
+  });
+
+  it("should expire and evict stored attachment IDs", async () => {
+    const storage = new InMemoryAttachmentCacheStorage(2);
+
+    await storage.set("expired", "att_1", -1);
+    await storage.set("a", "att_2");
+    await storage.set("b", "att_3");
+    await storage.set("c", "att_4");
+
+    expect(await storage.get("expired")).toBeUndefined();
+    expect(await storage.get("a")).toBeUndefined();
+    expect(await storage.get("c")).toBe("att_4");
+  });
+});
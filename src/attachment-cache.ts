@@ -0,0 +1,187 @@
+import * as crypto from "crypto";
+import { Logger } from "./logger.js";
+import { MessageMeshError } from "./types.js";
+
+/**
+ * Pluggable storage for reusable attachment IDs. Implementations backed by Redis
+ * or a database share uploads across processes.
+ */
+export interface AttachmentCacheStorage {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, attachmentId: string, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface AttachmentCacheConfig {
+  ttlMs?: number; // How long an attachment ID is reused (default: until evicted)
+  storage?: AttachmentCacheStorage; // Default: in-memory
+  logger?: Logger; // Default: Logger.getInstance()
+}
+
+/**
+ * What an attachment was uploaded from. Attachment IDs only work for the page or
+ * Instagram account that uploaded them, so the owner is part of the key.
+ */
+export interface AttachmentReference {
+  platform: "messenger" | "instagram";
+  ownerId: string; // Page ID or Instagram account ID
+  type: string; // Attachment type, e.g. "image" or "file"
+  url?: string;
+  contentHash?: string; // SHA-256 of the file contents, see AttachmentCache.hashContent()
+}
+
+/**
+ * In-memory attachment ID storage. The oldest entries are dropped once maxEntries
+ * is reached.
+ */
+export class InMemoryAttachmentCacheStorage implements AttachmentCacheStorage {
+  private entries = new Map<string, { attachmentId: string; expiresAt?: number }>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry?.attachmentId;
+  }
+
+  async set(key: string, attachmentId: string, ttlMs?: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      attachmentId,
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined,
+    });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Remembers reusable Messenger and Instagram attachment IDs by source URL or content
+ * hash, so sending the same file again does not make Meta fetch or receive it again
+ */
+export class AttachmentCache {
+  private readonly ttlMs?: number;
+  private readonly storage: AttachmentCacheStorage;
+  private readonly logger: Logger;
+
+  constructor(config: AttachmentCacheConfig = {}) {
+    this.ttlMs = config.ttlMs;
+    this.storage = config.storage ?? new InMemoryAttachmentCacheStorage();
+    this.logger = config.logger ?? Logger.getInstance();
+  }
+
+  /**
+   * Derive the storage key for a reference, or null when it has neither a URL nor a
+   * content hash
+   */
+  static getKey(reference: AttachmentReference): string | null {
+    const prefix = `${reference.platform}:${reference.ownerId}:${reference.type}`;
+    if (reference.contentHash) {
+      return `${prefix}:sha256:${reference.contentHash}`;
+    }
+    if (reference.url) {
+      return `${prefix}:url:${reference.url}`;
+    }
+    return null;
+  }
+
+  /**
+   * SHA-256 hex digest of file contents
+   */
+  static async hashContent(content: Blob): Promise<string> {
+    const data = new Uint8Array(await content.arrayBuffer());
+    return crypto.createHash("sha256").update(data).digest("hex");
+  }
+
+  /**
+   * Whether a failed send means Graph rejected a cached attachment ID. Throttling,
+   * network and other validation failures leave the cached ID usable.
+   */
+  static isInvalidAttachmentError(error: unknown): boolean {
+    if (!(error instanceof MessageMeshError) || error.code !== "HTTP_400") {
+      return false;
+    }
+    try {
+      const parsed = JSON.parse(error.message.replace(/^HTTP \d+: /, "")) as {
+        error?: { code?: number; message?: string };
+      };
+      return parsed.error?.code === 100 && /attachment/i.test(parsed.error.message ?? "");
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Look up a cached attachment ID. Storage errors count as a miss.
+   */
+  async get(reference: AttachmentReference): Promise<string | undefined> {
+    const key = AttachmentCache.getKey(reference);
+    if (!key) {
+      return undefined;
+    }
+
+    try {
+      return await this.storage.get(key);
+    } catch (error) {
+      this.logger.error(
+        "Attachment cache storage failed",
+        reference.platform,
+        { cacheKey: key },
+        error instanceof Error ? error : undefined
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Remember the attachment ID returned for an upload or a reusable send
+   */
+  async set(reference: AttachmentReference, attachmentId: string): Promise<void> {
+    const key = AttachmentCache.getKey(reference);
+    if (!key) {
+      return;
+    }
+
+    try {
+      await this.storage.set(key, attachmentId, this.ttlMs);
+    } catch (error) {
+      this.logger.error(
+        "Failed to store attachment ID",
+        reference.platform,
+        { cacheKey: key },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Forget an attachment ID, e.g. after Meta rejected it
+   */
+  async delete(reference: AttachmentReference): Promise<void> {
+    const key = AttachmentCache.getKey(reference);
+    if (!key) {
+      return;
+    }
+
+    try {
+      await this.storage.delete(key);
+    } catch (error) {
+      this.logger.error(
+        "Failed to delete attachment ID",
+        reference.platform,
+        { cacheKey: key },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "bun:test";
+import { ConversationWindowTracker } from "./conversation-window.js";
+import { WhatsAppService } from "./services/whatsapp.js";
+import { HttpClient } from "./http-client.js";
+import { FakeGraphApi } from "./fake-graph-api.js";
+import { Logger } from "./logger.js";
+import type { WebhookEvent } from "./webhook.js";
+
+const inbound = (timestamp: string): WebhookEvent => ({
+  platform: "whatsapp",
+  eventType: "message_received",
+  timestamp,
+  data: {},
+  message: {
+    platform: "whatsapp",
+    type: "text",
+    text: "Hi",
+    messageId: "wamid.in",
+    from: "1234567890",
+    to: "pn_1",
+    timestamp,
+  },
+});
+
+describe("ConversationWindowTracker", () => {
+  it("should open the window from inbound webhook messages", async () => {
+    const tracker = new ConversationWindowTracker({ mode: "block" });
+    await tracker.applyWebhookEvents([inbound(new Date().toISOString())]);
+
+    // Send targets use "+" formatting while webhooks report the bare wa_id
+    const decision = await tracker.evaluate("whatsapp", "+1234567890", "pn_1");
+    expect(decision.action).toBe("allow");
+    expect(decision.state.open).toBe(true);
+  });
+
+  it("should route closed windows to the configured template or tag", async () => {
+    const tracker = new ConversationWindowTracker({
+      mode: "route",
+      whatsappTemplate: { templateName: "reengage", templateLanguage: "en_US" },
+      messengerTag: "HUMAN_AGENT",
+    });
+    const dayAgo = new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString();
+    await tracker.applyWebhookEvents([inbound(dayAgo)]);
+
+    const whatsapp = await tracker.evaluate("whatsapp", "1234567890", "pn_1");
+    const messenger = await tracker.evaluate("messenger", "psid", "page");
+    const instagram = await tracker.evaluate("instagram", "igsid", "ig");
+
+    expect(whatsapp).toMatchObject({
+      action: "route",
+      whatsappTemplate: { templateName: "reengage" },
+    });
+    expect(messenger).toMatchObject({ action: "route", tag: "HUMAN_AGENT" });
+    expect(instagram.action).toBe("block");
+  });
+
+  it("should route only text and media to the template and flag the response", async () => {
+    const graph = new FakeGraphApi();
+    const tracker = new ConversationWindowTracker({
+      mode: "route",
+      whatsappTemplate: { templateName: "reengage", templateLanguage: "en_US" },
+    });
+    const service = new WhatsAppService(
+      new HttpClient({ transport: graph.transport, logger: new Logger({ enableConsole: false }) }),
+      { windowTracker: tracker }
+    );
+    const base = { accessToken: "test_token", to: "+1234567890", phoneNumberId: "pn_1" };
+
+    const text = await service.sendMessage({ ...base, message: "Hello" });
+    const media = await service.sendMedia({
+      ...base,
+      mediaType: "image",
+      mediaUrl: "https://example.com/a.png",
+    });
+    const blocked = [
+      await service.sendEmoji({ ...base, emoji: "👍" }),
+      await service.replyMessage({ ...base, message: "Hi", replyToMessageId: "wamid.in" }),
+      await service.sendInteractive({
+        ...base,
+        interactiveType: "button",
+        body: "Pick one",
+        buttons: [{ id: "a", title: "A" }],
+      }),
+    ];
+
+    expect(text).toMatchObject({ success: true, routedToTemplate: true });
+    expect(media).toMatchObject({ success: true, routedToTemplate: true });
+    expect(blocked.map((result) => result.error?.code)).toEqual(
+      Array(3).fill("OUTSIDE_CONVERSATION_WINDOW")
+    );
+    expect(graph.sentMessages.map(({ payload }) => payload.template?.name)).toEqual([
+      "reengage",
+      "reengage",
+    ]);
+  });
+
+  it("should block free-form WhatsApp sends outside the window", async () => {
+    const service = new WhatsAppService(new HttpClient(), {
+      windowTracker: new ConversationWindowTracker({ mode: "block" }),
+    });
+
+    const result = await service.sendMessage({
+      accessToken: "test_token",
+      to: "+1234567890",
+      message: "Hello",
+      phoneNumberId: "pn_1",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("OUTSIDE_CONVERSATION_WINDOW");
+  });
+});
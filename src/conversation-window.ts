@@ -0,0 +1,214 @@
+import type {
+  Platform,
+  TemplateComponent,
+  MessengerMessageTag,
+  InstagramMessageTag,
+} from "./types.js";
+import type { WebhookEvent } from "./webhook.js";
+import { Logger } from "./logger.js";
+
+/**
+ * What to do with a free-form send outside the customer service window
+ * - warn: log a warning and send anyway
+ * - block: fail the send with OUTSIDE_CONVERSATION_WINDOW
+ * - route: send the configured WhatsApp template or Messenger/Instagram message tag
+ *   instead (blocks when nothing is configured for the platform)
+ */
+export type ConversationWindowMode = "warn" | "block" | "route";
+
+/**
+ * WhatsApp template sent in place of a free-form message in route mode
+ */
+export interface ConversationWindowTemplate {
+  templateName: string;
+  templateLanguage: string;
+  templateComponents?: TemplateComponent[];
+}
+
+/**
+ * Pluggable storage for last inbound message times
+ */
+export interface ConversationWindowStorage {
+  getLastInbound(key: string): Promise<number | undefined>;
+  setLastInbound(key: string, timestamp: number): Promise<void>;
+}
+
+export interface ConversationWindowConfig {
+  mode?: ConversationWindowMode; // Default: "warn"
+  windowMs?: number; // Default: 24 hours
+  storage?: ConversationWindowStorage; // Default: in-memory
+  whatsappTemplate?: ConversationWindowTemplate;
+  messengerTag?: MessengerMessageTag;
+  instagramTag?: InstagramMessageTag;
+  logger?: Logger; // Default: Logger.getInstance()
+}
+
+/**
+ * Window state for a user and business account
+ */
+export interface ConversationWindowState {
+  open: boolean;
+  lastInboundAt?: string; // ISO 8601
+  expiresAt?: string; // ISO 8601
+}
+
+/**
+ * Policy decision for a free-form send
+ */
+export type ConversationWindowDecision =
+  | { action: "allow"; state: ConversationWindowState }
+  | { action: "warn" | "block"; state: ConversationWindowState }
+  | {
+      action: "route";
+      state: ConversationWindowState;
+      whatsappTemplate?: ConversationWindowTemplate;
+      tag?: MessengerMessageTag | InstagramMessageTag;
+    };
+
+/**
+ * In-memory window storage
+ */
+export class InMemoryConversationWindowStorage implements ConversationWindowStorage {
+  private lastInbound = new Map<string, number>();
+
+  async getLastInbound(key: string): Promise<number | undefined> {
+    return this.lastInbound.get(key);
+  }
+
+  async setLastInbound(key: string, timestamp: number): Promise<void> {
+    this.lastInbound.set(key, timestamp);
+  }
+}
+
+/**
+ * Tracks the 24-hour customer service window per (platform, user, business account)
+ * from inbound webhook messages and decides how free-form sends are handled
+ */
+export class ConversationWindowTracker {
+  private static readonly DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+  private readonly mode: ConversationWindowMode;
+  private readonly windowMs: number;
+  private readonly storage: ConversationWindowStorage;
+  private readonly logger: Logger;
+
+  constructor(private readonly config: ConversationWindowConfig = {}) {
+    this.mode = config.mode ?? "warn";
+    this.windowMs = config.windowMs ?? ConversationWindowTracker.DEFAULT_WINDOW_MS;
+    this.storage = config.storage ?? new InMemoryConversationWindowStorage();
+    this.logger = config.logger ?? Logger.getInstance();
+  }
+
+  /**
+   * Record an inbound user message
+   * @param user - WhatsApp ID, PSID or IGSID of the user
+   * @param business - Phone number ID, page ID or Instagram account ID
+   */
+  async recordInbound(
+    platform: Platform,
+    user: string,
+    business: string,
+    timestamp: number = Date.now()
+  ): Promise<void> {
+    const key = this.getKey(platform, user, business);
+    const previous = await this.storage.getLastInbound(key);
+    if (previous === undefined || timestamp > previous) {
+      await this.storage.setLastInbound(key, timestamp);
+    }
+  }
+
+  /**
+   * Record inbound user messages from parsed webhook events
+   */
+  async applyWebhookEvents(events: WebhookEvent[]): Promise<void> {
+    for (const event of events) {
+      const message = event.message;
+      if (!message || message.isEcho || !message.from || !message.to) {
+        continue;
+      }
+
+      try {
+        await this.recordInbound(
+          message.platform,
+          message.from,
+          message.to,
+          Date.parse(message.timestamp)
+        );
+      } catch (error) {
+        this.logger.error(
+          "Failed to record conversation window",
+          event.platform,
+          { eventType: event.eventType },
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+  }
+
+  /**
+   * Get the window state for a user and business account
+   */
+  async getWindow(
+    platform: Platform,
+    user: string,
+    business: string
+  ): Promise<ConversationWindowState> {
+    const lastInbound = await this.storage.getLastInbound(this.getKey(platform, user, business));
+    if (lastInbound === undefined) {
+      return { open: false };
+    }
+
+    const expiresAt = lastInbound + this.windowMs;
+    return {
+      open: Date.now() < expiresAt,
+      lastInboundAt: new Date(lastInbound).toISOString(),
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+
+  /**
+   * Decide how to handle a free-form send to the user
+   */
+  async evaluate(
+    platform: Platform,
+    user: string,
+    business: string
+  ): Promise<ConversationWindowDecision> {
+    const state = await this.getWindow(platform, user, business);
+    if (state.open) {
+      return { action: "allow", state };
+    }
+
+    if (this.mode === "route") {
+      const whatsappTemplate = platform === "whatsapp" ? this.config.whatsappTemplate : undefined;
+      const tag =
+        platform === "messenger"
+          ? this.config.messengerTag
+          : platform === "instagram"
+            ? this.config.instagramTag
+            : undefined;
+
+      if (whatsappTemplate || tag) {
+        this.logger.info("Routing send outside the conversation window", platform, {
+          template: whatsappTemplate?.templateName,
+          tag,
+        });
+        return { action: "route", state, whatsappTemplate, tag };
+      }
+      return { action: "block", state };
+    }
+
+    if (this.mode === "warn") {
+      this.logger.warn("Sending a free-form message outside the conversation window", platform, {
+        lastInboundAt: state.lastInboundAt,
+      });
+    }
+    return { action: this.mode, state };
+  }
+
+  private getKey(platform: Platform, user: string, business: string): string {
+    // WhatsApp webhooks report wa_id without "+" or formatting
+    const normalizedUser = platform === "whatsapp" ? user.replace(/\D/g, "") : user;
+    return `${platform}:${business}:${normalizedUser}`;
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import { DeliveryTracker, type DeliveryStatus } from "./delivery-tracker.js";
+import type { WebhookEvent } from "./webhook.js";
+
+describe("DeliveryTracker", () => {
+  it("should apply WhatsApp statuses without moving backwards", async () => {
+    const tracker = new DeliveryTracker();
+    const changes: Array<[DeliveryStatus | undefined, DeliveryStatus]> = [];
+    tracker.subscribe((record, previous) => {
+      changes.push([previous, record.status]);
+    });
+
+    await tracker.recordOutbound({ platform: "whatsapp", messageId: "wamid.1", recipient: "111" });
+    await tracker.applyStatus({
+      platform: "whatsapp",
+      messageId: "wamid.1",
+      recipient: "111",
+      status: "read",
+      timestamp: "2024-01-01T00:00:05.000Z",
+    });
+    await tracker.applyStatus({
+      platform: "whatsapp",
+      messageId: "wamid.1",
+      recipient: "111",
+      status: "sent",
+      timestamp: "2024-01-01T00:00:01.000Z",
+      conversationId: "conv_1",
+      pricingCategory: "service",
+    });
+
+    const record = await tracker.getStatus("wamid.1");
+    expect(record?.status).toBe("read");
+    expect(record?.readAt).toBe("2024-01-01T00:00:05.000Z");
+    expect(record?.conversationId).toBe("conv_1");
+    expect(record?.pricingCategory).toBe("service");
+    expect(changes).toEqual([
+      [undefined, "accepted"],
+      ["accepted", "read"],
+    ]);
+  });
+
+  it("should mark earlier Messenger messages read from the watermark", async () => {
+    const tracker = new DeliveryTracker();
+    await tracker.recordOutbound({ platform: "messenger", messageId: "m_1", recipient: "psid" });
+    await tracker.recordOutbound({ platform: "messenger", messageId: "m_2", recipient: "psid" });
+    await tracker.recordOutbound({ platform: "messenger", messageId: "m_3", recipient: "other" });
+
+    const event: WebhookEvent = {
+      platform: "messenger",
+      eventType: "message_read",
+      timestamp: new Date().toISOString(),
+      data: {
+        sender: { id: "psid" },
+        recipient: { id: "page" },
+        timestamp: Date.now(),
+        read: { watermark: Date.now() + 1000 },
+      },
+    };
+    await tracker.applyWebhookEvents([event]);
+
+    expect((await tracker.getStatus("m_1"))?.status).toBe("read");
+    expect((await tracker.getStatus("m_2"))?.status).toBe("read");
+    expect((await tracker.getStatus("m_3"))?.status).toBe("accepted");
+  });
+});
@@ -0,0 +1,306 @@
+import type { Platform } from "./types.js";
+import type { InboundStatus } from "./inbound-message.js";
+import type { WebhookEvent } from "./webhook.js";
+import { Logger } from "./logger.js";
+
+/**
+ * Delivery state of an outbound message.
+ * "accepted" means the platform API accepted the send but no webhook has arrived yet
+ */
+export type DeliveryStatus = "accepted" | "sent" | "delivered" | "read" | "failed";
+
+/**
+ * Tracked outbound message
+ */
+export interface DeliveryRecord {
+  messageId: string;
+  platform: Platform;
+  recipient: string;
+  sender?: string; // Phone number ID, page ID or Instagram account ID
+  status: DeliveryStatus;
+  sentAt: string; // ISO 8601, when the send call returned
+  updatedAt: string;
+  deliveredAt?: string;
+  readAt?: string;
+  failedAt?: string;
+  errors?: Array<{ code: number; title?: string; message?: string }>;
+  conversationId?: string;
+  conversationOrigin?: string;
+  conversationExpiresAt?: string;
+  pricingCategory?: string;
+  pricingModel?: string;
+  billable?: boolean;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Outbound message to start tracking
+ */
+export interface OutboundMessageRecord {
+  platform: Platform;
+  messageId: string;
+  recipient: string;
+  sender?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Status change notification
+ */
+export type DeliveryStatusListener = (
+  record: DeliveryRecord,
+  previousStatus: DeliveryStatus | undefined
+) => void | Promise<void>;
+
+/**
+ * Pluggable storage for delivery records
+ */
+export interface DeliveryStorage {
+  get(messageId: string): Promise<DeliveryRecord | undefined>;
+  set(record: DeliveryRecord): Promise<void>;
+  findByRecipient(platform: Platform, recipient: string): Promise<DeliveryRecord[]>;
+  delete(messageId: string): Promise<void>;
+}
+
+/**
+ * In-memory delivery storage, evicting the oldest records beyond maxRecords
+ */
+export class InMemoryDeliveryStorage implements DeliveryStorage {
+  private records = new Map<string, DeliveryRecord>();
+
+  constructor(private readonly maxRecords: number = 10000) {}
+
+  async get(messageId: string): Promise<DeliveryRecord | undefined> {
+    const record = this.records.get(messageId);
+    return record ? { ...record } : undefined;
+  }
+
+  async set(record: DeliveryRecord): Promise<void> {
+    this.records.delete(record.messageId);
+    this.records.set(record.messageId, { ...record });
+
+    while (this.records.size > this.maxRecords) {
+      const oldest = this.records.keys().next().value;
+      if (oldest === undefined) break;
+      this.records.delete(oldest);
+    }
+  }
+
+  async findByRecipient(platform: Platform, recipient: string): Promise<DeliveryRecord[]> {
+    const matches: DeliveryRecord[] = [];
+    for (const record of this.records.values()) {
+      if (record.platform === platform && record.recipient === recipient) {
+        matches.push({ ...record });
+      }
+    }
+    return matches;
+  }
+
+  async delete(messageId: string): Promise<void> {
+    this.records.delete(messageId);
+  }
+}
+
+/**
+ * Tracks outbound messages and updates their delivery state from webhook events
+ */
+export class DeliveryTracker {
+  private static readonly STATUS_ORDER: Record<DeliveryStatus, number> = {
+    accepted: 0,
+    sent: 1,
+    delivered: 2,
+    read: 3,
+    failed: 4,
+  };
+
+  private listeners = new Set<DeliveryStatusListener>();
+
+  constructor(
+    private readonly storage: DeliveryStorage = new InMemoryDeliveryStorage(),
+    private readonly logger: Logger = Logger.getInstance()
+  ) {}
+
+  /**
+   * Start tracking a message returned by a send call
+   */
+  async recordOutbound(message: OutboundMessageRecord): Promise<DeliveryRecord> {
+    const existing = await this.storage.get(message.messageId);
+    if (existing) {
+      // A webhook status can arrive before the send call returns
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const record: DeliveryRecord = {
+      messageId: message.messageId,
+      platform: message.platform,
+      recipient: message.recipient,
+      sender: message.sender,
+      status: "accepted",
+      sentAt: now,
+      updatedAt: now,
+      metadata: message.metadata,
+    };
+
+    await this.storage.set(record);
+    await this.notify(record, undefined);
+    return record;
+  }
+
+  /**
+   * Apply a normalized status update
+   */
+  async applyStatus(status: InboundStatus): Promise<DeliveryRecord | undefined> {
+    if (status.status === "deleted") {
+      return undefined;
+    }
+
+    const existing = await this.storage.get(status.messageId);
+    const record: DeliveryRecord = existing ?? {
+      messageId: status.messageId,
+      platform: status.platform,
+      recipient: status.recipient,
+      status: "accepted",
+      sentAt: status.timestamp,
+      updatedAt: status.timestamp,
+    };
+
+    // Pricing and conversation details arrive with "sent" and may be repeated later
+    record.conversationId = status.conversationId ?? record.conversationId;
+    record.conversationOrigin = status.conversationOrigin ?? record.conversationOrigin;
+    record.conversationExpiresAt = status.conversationExpiresAt ?? record.conversationExpiresAt;
+    record.pricingCategory = status.pricingCategory ?? record.pricingCategory;
+    record.pricingModel = status.pricingModel ?? record.pricingModel;
+    record.billable = status.billable ?? record.billable;
+    if (status.errors) {
+      record.errors = status.errors;
+    }
+
+    return this.transition(record, status.status, status.timestamp, existing?.status);
+  }
+
+  /**
+   * Update delivery state from parsed webhook events
+   */
+  async applyWebhookEvents(events: WebhookEvent[]): Promise<void> {
+    for (const event of events) {
+      try {
+        if (event.status) {
+          await this.applyStatus(event.status);
+        } else if (event.platform !== "whatsapp") {
+          await this.applyMessagingEvent(event);
+        }
+      } catch (error) {
+        this.logger.error(
+          "Failed to apply delivery status from webhook event",
+          event.platform,
+          { eventType: event.eventType },
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+  }
+
+  /**
+   * Look up a tracked message
+   */
+  async getStatus(messageId: string): Promise<DeliveryRecord | undefined> {
+    return this.storage.get(messageId);
+  }
+
+  /**
+   * Subscribe to status changes. Returns an unsubscribe function
+   */
+  subscribe(listener: DeliveryStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Messenger/Instagram delivery and read events: explicit mids plus a watermark
+   * covering every earlier message to the same user
+   */
+  private async applyMessagingEvent(event: WebhookEvent): Promise<void> {
+    const data = event.data;
+    const update = data.read ? data.read : data.delivery;
+    if (!update) {
+      return;
+    }
+
+    const status: DeliveryStatus = data.read ? "read" : "delivered";
+    const timestamp = new Date(data.timestamp ?? Date.now()).toISOString();
+    const user = data.sender?.id;
+
+    const mids: string[] = [...(update.mids ?? []), ...(update.mid ? [update.mid] : [])];
+    for (const mid of mids) {
+      const record = await this.storage.get(mid);
+      if (record) {
+        await this.transition(record, status, timestamp, record.status);
+      }
+    }
+
+    if (update.watermark && user) {
+      const records = await this.storage.findByRecipient(event.platform, user);
+      for (const record of records) {
+        if (!mids.includes(record.messageId) && Date.parse(record.sentAt) <= update.watermark) {
+          await this.transition(record, status, timestamp, record.status);
+        }
+      }
+    }
+  }
+
+  private async transition(
+    record: DeliveryRecord,
+    status: Exclude<DeliveryStatus, "accepted">,
+    timestamp: string,
+    previousStatus: DeliveryStatus | undefined
+  ): Promise<DeliveryRecord> {
+    const order = DeliveryTracker.STATUS_ORDER;
+    // Webhooks can arrive out of order: never move a message backwards
+    const advances = previousStatus === undefined || order[status] > order[previousStatus];
+
+    switch (status) {
+      case "delivered":
+        record.deliveredAt ??= timestamp;
+        break;
+      case "read":
+        record.deliveredAt ??= timestamp;
+        record.readAt ??= timestamp;
+        break;
+      case "failed":
+        record.failedAt ??= timestamp;
+        break;
+    }
+
+    if (advances) {
+      record.status = status;
+    }
+    record.updatedAt = timestamp;
+
+    await this.storage.set(record);
+    if (advances) {
+      await this.notify(record, previousStatus);
+    }
+    return record;
+  }
+
+  private async notify(
+    record: DeliveryRecord,
+    previousStatus: DeliveryStatus | undefined
+  ): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener({ ...record }, previousStatus);
+      } catch (error) {
+        this.logger.error(
+          "Delivery status listener failed",
+          record.platform,
+          { messageId: record.messageId },
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+  }
+}
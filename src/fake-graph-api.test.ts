@@ -0,0 +1,140 @@
+import { describe, it, expect } from "bun:test";
+import { FakeGraphApi } from "./fake-graph-api.js";
+import { MessageMesh } from "./message-mesh.js";
+import { HttpClient } from "./http-client.js";
+import { DefaultRetryPolicy } from "./retry-policy.js";
+import { MessengerExtendedService } from "./services/messenger-extended.js";
+
+const createMesh = (graph: FakeGraphApi) =>
+  new MessageMesh({
+    isolated: true,
+    transport: graph.transport,
+    retryPolicy: new DefaultRetryPolicy({ maxRetries: 2, baseDelayMs: 0, jitterRatio: 0 }),
+  });
+
+describe("FakeGraphApi", () => {
+  it("should accept sends from every platform and record them", async () => {
+    const graph = new FakeGraphApi({ meId: "page_1" });
+    const mesh = createMesh(graph);
+
+    const whatsapp = await mesh.whatsapp.sendMessage({
+      accessToken: "token",
+      to: "+1234567890",
+      message: "Hi",
+      phoneNumberId: "pn_1",
+    });
+    const messenger = await mesh.messenger.sendMessage({
+      accessToken: "token",
+      to: "2000000001",
+      message: "Hi",
+    });
+
+    expect(whatsapp.success).toBe(true);
+    expect(messenger.success).toBe(true);
+    expect(graph.sentMessages).toMatchObject([
+      { platform: "whatsapp", sender: "pn_1", messageId: whatsapp.messageId },
+      { platform: "messenger", sender: "page_1", messageId: messenger.messageId },
+    ]);
+    expect(graph.getRequests({ method: "POST", path: "/pn_1/messages" })[0]?.headers).toMatchObject(
+      { authorization: "Bearer token" }
+    );
+  });
+
+  it("should return scripted errors so retries and failures can be tested offline", async () => {
+    const graph = new FakeGraphApi();
+    const mesh = createMesh(graph);
+    graph.failNext({ path: "/pn_1/messages", status: 429, code: 130429, message: "Throttled" });
+    const first = await mesh.whatsapp.sendMessage({
+      accessToken: "token",
+      to: "+1234567890",
+      message: "Hi",
+      phoneNumberId: "pn_1",
+    });
+
+    graph.failNext({ path: "/pn_1/messages", status: 400, code: 131026, message: "Undeliverable" });
+    const second = await mesh.whatsapp.sendMessage({
+      accessToken: "token",
+      to: "+1234567890",
+      message: "Hi",
+      phoneNumberId: "pn_1",
+    });
+
+    // The throttled attempt is retried; the undeliverable one is not
+    expect(first.success).toBe(true);
+    expect(second.success).toBe(false);
+    expect(second.error?.message).toContain("Undeliverable");
+    expect(graph.getRequests({ path: "/pn_1/messages" })).toHaveLength(3);
+  });
+
+  it("should round-trip uploaded media", async () => {
+    const graph = new FakeGraphApi();
+    const mesh = createMesh(graph);
+
+    const upload = await mesh.whatsapp.uploadMedia({
+      accessToken: "token",
+      phoneNumberId: "pn_1",
+      file: new Blob(["hello"], { type: "text/plain" }),
+      mimeType: "text/plain",
+      filename: "hello.txt",
+    });
+    const download = await mesh.whatsapp.downloadMedia({
+      accessToken: "token",
+      mediaId: upload.mediaId ?? "",
+    });
+
+    expect(download.success).toBe(true);
+    expect(new TextDecoder().decode(download.data)).toBe("hello");
+    expect(download.mimeType).toBe("text/plain");
+  });
+
+  it("should serve the Messenger setup endpoints used by MessengerExtendedService", async () => {
+    const graph = new FakeGraphApi({
+      appId: "app_1",
+      pages: [{ id: "page_1", name: "Page", access_token: "page_token" }],
+    });
+    const service = new MessengerExtendedService(new HttpClient({ transport: graph.transport }), {
+      appId: "app_1",
+      appSecret: "secret",
+    });
+
+    const pageToken = await service.getPageAccessToken("page_1", "user_token");
+    await service.subscribeToWebhooks("page_1", pageToken, "company", "verify");
+
+    expect(pageToken).toBe("page_token");
+    expect(await service.checkWebhookSubscription("page_1", pageToken)).toBe(true);
+    expect(await service.validatePageToken(pageToken, "page_1")).toBe(true);
+  });
+
+  it("should track thread control for the handover protocol", async () => {
+    const graph = new FakeGraphApi({
+      appId: "bot_app",
+      secondaryReceivers: [{ id: "inbox_app", name: "Inbox" }],
+    });
+    const service = new MessengerExtendedService(new HttpClient({ transport: graph.transport }), {
+      appId: "bot_app",
+      appSecret: "secret",
+    });
+
+    await service.passThreadControl("page_token", {
+      recipientId: "psid_1",
+      targetAppId: "inbox_app",
+      metadata: "Customer asked for a human",
+    });
+    const ownerAfterPass = await service.getThreadOwner("page_token", "psid_1");
+    await service.takeThreadControl("page_token", { recipientId: "psid_1" });
+
+    expect(ownerAfterPass).toBe("inbox_app");
+    expect(await service.getThreadOwner("page_token", "psid_1")).toBe("bot_app");
+    expect(await service.getSecondaryReceivers("page_token")).toEqual([
+      { id: "inbox_app", name: "Inbox" },
+    ]);
+    expect(graph.getRequests({ path: "/me/pass_thread_control" })[0]?.body).toEqual({
+      recipient: { id: "psid_1" },
+      target_app_id: "inbox_app",
+      metadata: "Customer asked for a human",
+    });
+    await expect(
+      service.passThreadControl("page_token", { recipientId: "psid_1", targetAppId: "" })
+    ).rejects.toMatchObject({ code: "INVALID_HANDOVER_OPTIONS" });
+  });
+});
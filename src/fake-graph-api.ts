@@ -0,0 +1,648 @@
+import * as crypto from "crypto";
+import type { Platform } from "./types.js";
+import type { Transport } from "./http-client.js";
+
+type JsonObject = Record<string, any>;
+
+/**
+ * A request received by the fake Graph API
+ */
+export interface FakeGraphRequest {
+  method: string;
+  url: string;
+  host: string;
+  path: string; // Without the API version, e.g. "/123456789/messages"
+  query: Record<string, string>;
+  headers: Record<string, string>; // Lower-cased names
+  body?: unknown; // Parsed JSON, FormData or the raw string
+}
+
+/**
+ * A message accepted by the fake /{id}/messages endpoint
+ */
+export interface FakeGraphSentMessage {
+  platform: Platform;
+  sender: string; // Phone number ID, page ID or Instagram account ID from the path
+  recipient: string;
+  messageId: string;
+  payload: JsonObject;
+}
+
+/**
+ * A scripted failure. Matching requests fail until `times` is used up.
+ */
+export interface FakeGraphError {
+  method?: string;
+  path?: string | RegExp; // Matched against the versionless path
+  times?: number; // Default: 1
+  status?: number; // Default: 400
+  code?: number; // Graph error code (default: 100)
+  subcode?: number;
+  message?: string;
+  type?: string; // Default: "OAuthException"
+  headers?: Record<string, string>; // e.g. Retry-After or X-Business-Use-Case-Usage
+  network?: boolean; // Reject like fetch does on a network failure instead of responding
+}
+
+export interface FakeGraphApiOptions {
+  meId?: string; // ID returned by /me (default: "1000000000")
+  meIds?: Record<string, string>; // IDs returned by /me for specific access tokens
+  appId?: string; // App reported by debug_token and subscribed_apps (default: "fake_app_id")
+  pages?: JsonObject[]; // Pages returned by /me/accounts
+  scopes?: string[]; // Permissions reported by debug_token
+  invalidTokens?: string[]; // Tokens rejected with Graph error 190
+  secondaryReceivers?: JsonObject[]; // Apps returned by /me/secondary_receivers
+}
+
+interface StoredMedia {
+  record: JsonObject;
+  data: ArrayBuffer;
+}
+
+/**
+ * In-process stand-in for the Graph API used by the platform services. Pass its
+ * transport to MessageMesh or HttpClient to run integrations without network access:
+ * messages, media, message attachments, templates, phone numbers and their business
+ * profiles, /me, debug_token, subscribed_apps and handover protocol thread control.
+ */
+export class FakeGraphApi {
+  private static readonly MEDIA_HOST = "lookaside.fbsbx.com";
+
+  readonly requests: FakeGraphRequest[] = [];
+  readonly sentMessages: FakeGraphSentMessage[] = [];
+  readonly transport: Transport = (url, init) => this.handle(url, init);
+
+  private errors: Array<FakeGraphError & { remaining: number }> = [];
+  private media = new Map<string, StoredMedia>();
+  private templates = new Map<string, { owner: string; template: JsonObject }>();
+  private phoneNumbers = new Map<string, JsonObject[]>();
+  private businessProfiles = new Map<string, JsonObject>();
+  private objects = new Map<string, JsonObject>();
+  private subscriptions = new Map<string, JsonObject[]>();
+  private messengerProfiles = new Map<string, JsonObject>();
+  private threadOwners = new Map<string, string>();
+  private sequence = 0;
+
+  constructor(private readonly options: FakeGraphApiOptions = {}) {}
+
+  /**
+   * Fail matching requests with a Graph API error or a network failure
+   */
+  failNext(error: FakeGraphError = {}): void {
+    this.errors.push({ ...error, remaining: error.times ?? 1 });
+  }
+
+  /**
+   * Add a phone number returned by GET /{businessId}/phone_numbers and GET /{id}
+   */
+  addPhoneNumber(businessId: string, phoneNumber: JsonObject): void {
+    const numbers = this.phoneNumbers.get(businessId) ?? [];
+    numbers.push(phoneNumber);
+    this.phoneNumbers.set(businessId, numbers);
+  }
+
+  /**
+   * Add an object returned by GET /{id}, e.g. a user or page profile
+   */
+  addObject(id: string, fields: JsonObject): void {
+    this.objects.set(id, { id, ...fields });
+  }
+
+  /**
+   * Get recorded requests, optionally filtered by method and versionless path
+   */
+  getRequests(filter: { method?: string; path?: string | RegExp } = {}): FakeGraphRequest[] {
+    return this.requests.filter((request) => this.matches(request, filter.method, filter.path));
+  }
+
+  /**
+   * Clear recorded requests, scripted errors and all stored state
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.sentMessages.length = 0;
+    this.errors = [];
+    this.media.clear();
+    this.templates.clear();
+    this.phoneNumbers.clear();
+    this.businessProfiles.clear();
+    this.objects.clear();
+    this.subscriptions.clear();
+    this.messengerProfiles.clear();
+    this.threadOwners.clear();
+  }
+
+  private async handle(url: string, init: RequestInit): Promise<Response> {
+    const request = this.recordRequest(url, init);
+
+    const scripted = this.errors.find((error) => this.matches(request, error.method, error.path));
+    if (scripted) {
+      scripted.remaining--;
+      if (scripted.remaining <= 0) {
+        this.errors = this.errors.filter((error) => error !== scripted);
+      }
+      if (scripted.network) {
+        throw new TypeError("fetch failed");
+      }
+      return this.error(
+        scripted.status ?? 400,
+        scripted.code ?? 100,
+        scripted.message ?? "Scripted error",
+        scripted.subcode,
+        scripted.type,
+        scripted.headers
+      );
+    }
+
+    const token = this.getToken(request);
+    // Token exchange authenticates with the app ID and secret instead
+    if (request.path === "/oauth/access_token") {
+      return this.route(request, token ?? "");
+    }
+    if (!token) {
+      return this.error(400, 2500, "An active access token must be used to query information");
+    }
+    if (this.options.invalidTokens?.includes(token)) {
+      return this.error(400, 190, "Invalid OAuth access token - Cannot parse access token");
+    }
+
+    if (request.host === FakeGraphApi.MEDIA_HOST) {
+      return this.downloadMedia(request);
+    }
+    return this.route(request, token);
+  }
+
+  private async route(request: FakeGraphRequest, token: string): Promise<Response> {
+    const segments = request.path.split("/").filter(Boolean);
+    const [first, second] = segments;
+    const method = request.method;
+
+    if (first === "me") {
+      if (!second && method === "GET") {
+        const id = this.options.meIds?.[token] ?? this.options.meId ?? "1000000000";
+        return this.json({ id, name: "Fake Business" });
+      }
+      if (second === "accounts" && method === "GET") {
+        return this.json({ data: this.options.pages ?? [] });
+      }
+      if (second === "messenger_profile") {
+        return this.messengerProfile(request, token);
+      }
+      if (second?.endsWith("_thread_control") && method === "POST") {
+        return this.threadControl(request, second);
+      }
+      if (second === "thread_owner" && method === "GET") {
+        const owner = this.threadOwners.get(request.query.recipient ?? "");
+        return this.json({
+          data: [{ thread_owner: { app_id: owner ?? this.options.appId ?? "fake_app_id" } }],
+        });
+      }
+      if (second === "secondary_receivers" && method === "GET") {
+        return this.json({ data: this.options.secondaryReceivers ?? [] });
+      }
+    }
+    if (first === "oauth" && second === "access_token" && method === "GET") {
+      return this.json({
+        access_token: `long_lived_${request.query.fb_exchange_token ?? token}`,
+        token_type: "bearer",
+        expires_in: 5184000,
+      });
+    }
+    if (first === "debug_token" && method === "GET") {
+      return this.debugToken(request);
+    }
+
+    if (first && segments.length === 2) {
+      switch (`${method} ${second}`) {
+        case "POST messages":
+          return this.sendMessage(request, first);
+        case "POST media":
+          return this.uploadMedia(request);
+        case "POST message_attachments":
+          return this.uploadAttachment(request);
+        case "GET message_templates":
+        case "POST message_templates":
+        case "DELETE message_templates":
+          return this.messageTemplates(request, first);
+        case "GET phone_numbers":
+          return this.json({ data: this.phoneNumbers.get(first) ?? [], paging: { cursors: {} } });
+        case "GET subscribed_apps":
+          return this.json({ data: this.subscriptions.get(first) ?? [] });
+        case "POST subscribed_apps":
+          return this.subscribeApp(request, first);
+        case "GET whatsapp_business_profile":
+        case "POST whatsapp_business_profile":
+          return this.businessProfile(request, first);
+        case "POST register":
+        case "POST deregister":
+        case "POST request_code":
+        case "POST verify_code":
+          return this.phoneNumberOperation(request, first, second);
+      }
+    }
+    if (first && segments.length === 1) {
+      return this.object(request, first);
+    }
+
+    return this.error(400, 100, `Unknown path components: ${request.path}`);
+  }
+
+  private sendMessage(request: FakeGraphRequest, sender: string): Response {
+    const body = (request.body ?? {}) as JsonObject;
+
+    if (body.messaging_product === "whatsapp") {
+      if (body.status === "read") {
+        return this.json({ success: true });
+      }
+      const messageId = `wamid.FAKE${this.generateId()}`;
+      this.sentMessages.push({
+        platform: "whatsapp",
+        sender,
+        recipient: String(body.to),
+        messageId,
+        payload: body,
+      });
+      return this.json({
+        messaging_product: "whatsapp",
+        contacts: [{ input: body.to, wa_id: String(body.to).replace(/\D/g, "") }],
+        messages: [{ id: messageId }],
+      });
+    }
+
+    const recipient = String(body.recipient?.id ?? body.recipient?.comment_id ?? "");
+    if (!recipient) {
+      return this.error(400, 100, "(#100) The parameter recipient is required");
+    }
+    if (body.sender_action) {
+      return this.json({ recipient_id: recipient });
+    }
+
+    const messageId = `m_FAKE${this.generateId()}`;
+    this.sentMessages.push({
+      platform: request.host === "graph.instagram.com" ? "instagram" : "messenger",
+      sender,
+      recipient,
+      messageId,
+      payload: body,
+    });
+    return this.json({
+      recipient_id: recipient,
+      message_id: messageId,
+      ...(body.message?.attachment?.payload?.is_reusable && { attachment_id: this.generateId() }),
+    });
+  }
+
+  private async uploadMedia(request: FakeGraphRequest): Promise<Response> {
+    const form = request.body;
+    const file = form instanceof FormData ? form.get("file") : null;
+    if (!form || !(form instanceof FormData) || !file || typeof file === "string") {
+      return this.error(400, 100, "(#100) The parameter file is required");
+    }
+
+    const id = this.generateId();
+    const data = await file.arrayBuffer();
+    this.media.set(id, {
+      data,
+      record: {
+        messaging_product: "whatsapp",
+        id,
+        url: `https://${FakeGraphApi.MEDIA_HOST}/whatsapp_business/attachments/?mid=${id}`,
+        mime_type: form.get("type") ?? file.type,
+        sha256: crypto.createHash("sha256").update(new Uint8Array(data)).digest("hex"),
+        file_size: data.byteLength,
+      },
+    });
+    return this.json({ id });
+  }
+
+  private uploadAttachment(request: FakeGraphRequest): Response {
+    const body = request.body;
+    const message =
+      body instanceof FormData
+        ? JSON.parse(String(body.get("message") ?? "{}"))
+        : (body as JsonObject | undefined)?.message;
+    const file = body instanceof FormData ? body.get("filedata") : null;
+
+    if (!message?.attachment?.type) {
+      return this.error(400, 100, "(#100) The parameter message is required");
+    }
+    if (!message.attachment.payload?.url && !file) {
+      return this.error(400, 100, "(#100) Upload attachment failure: no url or filedata");
+    }
+    return this.json({ attachment_id: this.generateId() });
+  }
+
+  private downloadMedia(request: FakeGraphRequest): Response {
+    const stored = this.media.get(request.query.mid ?? "");
+    if (!stored) {
+      return new Response("Not Found", { status: 404 });
+    }
+    return new Response(stored.data, {
+      status: 200,
+      headers: { "content-type": String(stored.record.mime_type) },
+    });
+  }
+
+  private messageTemplates(request: FakeGraphRequest, owner: string): Response {
+    const owned = [...this.templates.values()]
+      .filter((entry) => entry.owner === owner)
+      .map((entry) => entry.template);
+
+    if (request.method === "GET") {
+      const { status, category, name } = request.query;
+      const data = owned.filter(
+        (template) =>
+          (!status || template.status === status) &&
+          (!category || template.category === category) &&
+          (!name || template.name === name)
+      );
+      const limit = Number(request.query.limit) || data.length;
+      return this.json({ data: data.slice(0, limit), paging: { cursors: {} } });
+    }
+
+    if (request.method === "DELETE") {
+      const matching = owned.filter((template) => template.name === request.query.name);
+      if (matching.length === 0) {
+        return this.error(400, 100, `Template ${request.query.name} does not exist`);
+      }
+      for (const template of matching) {
+        this.templates.delete(template.id);
+      }
+      return this.json({ success: true });
+    }
+
+    const body = (request.body ?? {}) as JsonObject;
+    if (owned.some((t) => t.name === body.name && t.language === body.language)) {
+      return this.error(400, 100, "Message template already exists", 2388024);
+    }
+    const template = {
+      id: this.generateId(),
+      name: body.name,
+      language: body.language,
+      category: body.category,
+      components: body.components ?? [],
+      status: "PENDING",
+    };
+    this.templates.set(template.id, { owner, template });
+    return this.json({ id: template.id, status: template.status, category: template.category });
+  }
+
+  private subscribeApp(request: FakeGraphRequest, pageId: string): Response {
+    const body = (request.body ?? {}) as JsonObject;
+    const appId = this.options.appId ?? "fake_app_id";
+    const apps = (this.subscriptions.get(pageId) ?? []).filter((app) => app.id !== appId);
+    apps.push({ id: appId, subscribed_fields: body.subscribed_fields ?? [] });
+    this.subscriptions.set(pageId, apps);
+    return this.json({ success: true });
+  }
+
+  private businessProfile(request: FakeGraphRequest, phoneNumberId: string): Response {
+    const profile = this.businessProfiles.get(phoneNumberId) ?? {};
+    if (request.method === "GET") {
+      return this.json({ data: [{ messaging_product: "whatsapp", ...profile }] });
+    }
+
+    const fields = { ...((request.body ?? {}) as JsonObject) };
+    const handle = fields.profile_picture_handle;
+    delete fields.messaging_product;
+    delete fields.profile_picture_handle;
+    this.businessProfiles.set(phoneNumberId, {
+      ...profile,
+      ...fields,
+      ...(handle && { profile_picture_url: `https://pps.whatsapp.net/${handle}` }),
+    });
+    return this.json({ success: true });
+  }
+
+  private phoneNumberOperation(
+    request: FakeGraphRequest,
+    phoneNumberId: string,
+    operation?: string
+  ): Response {
+    const body = (request.body ?? {}) as JsonObject;
+    const phoneNumber = this.findPhoneNumber(phoneNumberId);
+    if (!phoneNumber) {
+      return this.error(400, 100, `Object with ID '${phoneNumberId}' does not exist`, 33);
+    }
+
+    switch (operation) {
+      case "register":
+        if (phoneNumber.pin !== undefined && phoneNumber.pin !== body.pin) {
+          return this.error(400, 133005, "Two step verification PIN Mismatch");
+        }
+        phoneNumber.pin = body.pin;
+        phoneNumber.status = "CONNECTED";
+        break;
+      case "deregister":
+        phoneNumber.status = "DISCONNECTED";
+        break;
+      case "verify_code":
+        phoneNumber.code_verification_status = "VERIFIED";
+        break;
+    }
+    return this.json({ success: true });
+  }
+
+  private findPhoneNumber(id: string): JsonObject | undefined {
+    for (const numbers of this.phoneNumbers.values()) {
+      const found = numbers.find((phoneNumber) => phoneNumber.id === id);
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  }
+
+  private messengerProfile(request: FakeGraphRequest, token: string): Response {
+    const profile = this.messengerProfiles.get(token) ?? {};
+    const body = (request.body ?? {}) as JsonObject;
+
+    switch (request.method) {
+      case "GET":
+        return this.json({ data: Object.keys(profile).length > 0 ? [profile] : [] });
+      case "POST":
+        this.messengerProfiles.set(token, { ...profile, ...body });
+        return this.json({ result: "success" });
+      case "DELETE":
+        for (const field of (body.fields ?? []) as string[]) {
+          delete profile[field];
+        }
+        this.messengerProfiles.set(token, profile);
+        return this.json({ result: "success" });
+      default:
+        return this.error(400, 100, `Unsupported ${request.method} request`);
+    }
+  }
+
+  private threadControl(request: FakeGraphRequest, action: string): Response {
+    const body = (request.body ?? {}) as JsonObject;
+    const recipient = String(body.recipient?.id ?? "");
+    if (!recipient) {
+      return this.error(400, 100, "(#100) The parameter recipient is required");
+    }
+
+    switch (action) {
+      case "pass_thread_control":
+        if (!body.target_app_id) {
+          return this.error(400, 100, "(#100) The parameter target_app_id is required");
+        }
+        this.threadOwners.set(recipient, String(body.target_app_id));
+        break;
+      case "take_thread_control":
+        this.threadOwners.set(recipient, this.options.appId ?? "fake_app_id");
+        break;
+      case "release_thread_control":
+        this.threadOwners.delete(recipient);
+        break;
+      case "request_thread_control":
+        break;
+      default:
+        return this.error(400, 100, `Unknown path components: ${request.path}`);
+    }
+    return this.json({ success: true });
+  }
+
+  private debugToken(request: FakeGraphRequest): Response {
+    const inputToken = request.query.input_token ?? "";
+    return this.json({
+      data: {
+        app_id: this.options.appId ?? "fake_app_id",
+        type: "PAGE",
+        is_valid: !this.options.invalidTokens?.includes(inputToken),
+        expires_at: 0,
+        scopes: this.options.scopes ?? [
+          "pages_messaging",
+          "pages_manage_metadata",
+          "whatsapp_business_messaging",
+          "whatsapp_business_management",
+          "instagram_manage_messages",
+        ],
+      },
+    });
+  }
+
+  private object(request: FakeGraphRequest, id: string): Response {
+    const media = this.media.get(id);
+    const template = this.templates.get(id);
+    const object = this.objects.get(id);
+    const phoneNumber = this.findPhoneNumber(id);
+
+    if (request.method === "GET") {
+      const found = media?.record ?? template?.template ?? object;
+      if (found) {
+        return this.json(found);
+      }
+      if (phoneNumber) {
+        const fields = { ...phoneNumber };
+        delete fields.pin;
+        return this.json(fields);
+      }
+    }
+
+    // Setting the two-step verification PIN
+    if (request.method === "POST" && phoneNumber) {
+      phoneNumber.pin = ((request.body ?? {}) as JsonObject).pin;
+      return this.json({ success: true });
+    }
+
+    if (request.method === "POST" && template) {
+      const body = (request.body ?? {}) as JsonObject;
+      Object.assign(template.template, body);
+      return this.json({ success: true });
+    }
+
+    if (request.method === "DELETE" && (media || template)) {
+      this.media.delete(id);
+      this.templates.delete(id);
+      return this.json({ success: true });
+    }
+
+    return this.error(
+      400,
+      100,
+      `Unsupported ${request.method.toLowerCase()} request. Object with ID '${id}' does not exist`,
+      33
+    );
+  }
+
+  private recordRequest(url: string, init: RequestInit): FakeGraphRequest {
+    const parsed = new URL(url);
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    let body: unknown = init.body ?? undefined;
+    if (typeof body === "string") {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        // Keep the raw string
+      }
+    }
+
+    const request: FakeGraphRequest = {
+      method: (init.method ?? "GET").toUpperCase(),
+      url,
+      host: parsed.host,
+      path: parsed.pathname.replace(/^\/v\d+\.\d+(?=\/|$)/, "") || "/",
+      query: Object.fromEntries(parsed.searchParams),
+      headers,
+      body,
+    };
+    this.requests.push(request);
+    return request;
+  }
+
+  private matches(request: FakeGraphRequest, method?: string, path?: string | RegExp): boolean {
+    if (method && method.toUpperCase() !== request.method) {
+      return false;
+    }
+    if (path === undefined) {
+      return true;
+    }
+    return typeof path === "string" ? path === request.path : path.test(request.path);
+  }
+
+  private getToken(request: FakeGraphRequest): string | undefined {
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith("Bearer ")) {
+      return authorization.slice("Bearer ".length);
+    }
+    return request.query.access_token;
+  }
+
+  private generateId(): string {
+    return String(1000000000 + ++this.sequence);
+  }
+
+  private json(body: unknown, status: number = 200, headers: Record<string, string> = {}) {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json", ...headers },
+    });
+  }
+
+  private error(
+    status: number,
+    code: number,
+    message: string,
+    subcode?: number,
+    type: string = "OAuthException",
+    headers?: Record<string, string>
+  ): Response {
+    return this.json(
+      {
+        error: {
+          message,
+          type,
+          code,
+          ...(subcode !== undefined && { error_subcode: subcode }),
+          fbtrace_id: `fake${this.sequence}`,
+        },
+      },
+      status,
+      headers
+    );
+  }
+}
@@ -48,10 +48,18 @@ export class HealthMonitor {
   private startTime: number;
   private checks: Map<string, HealthCheckFunction> = new Map();
   private logger: Logger;
+  private performanceMonitor: PerformanceMonitor;
 
-  private constructor() {
+  /**
+   * Create an isolated health monitor; getInstance() returns the shared default
+   */
+  constructor(
+    logger: Logger = Logger.getInstance(),
+    performanceMonitor: PerformanceMonitor = PerformanceMonitor.getInstance()
+  ) {
     this.startTime = Date.now();
-    this.logger = Logger.getInstance();
+    this.logger = logger;
+    this.performanceMonitor = performanceMonitor;
     this.registerDefaultChecks();
   }
 
@@ -224,8 +232,7 @@ export class HealthMonitor {
    */
   private async checkPerformanceMetrics(): Promise<HealthCheckResult> {
     try {
-      const monitor = PerformanceMonitor.getInstance();
-      const summary = monitor.getPerformanceSummary();
+      const summary = this.performanceMonitor.getPerformanceSummary();
 
       let status: HealthStatus = "healthy";
       let message = `Performance: ${summary.totalRequests} requests, ${summary.overallErrorRate.toFixed(1)}% errors, ${summary.averageResponseTime.toFixed(0)}ms avg response`;
@@ -273,9 +280,8 @@ export class HealthMonitor {
    */
   private async checkRecentErrors(): Promise<HealthCheckResult> {
     try {
-      const logger = Logger.getInstance();
-      const stats = logger.getLogStats();
-      const hasRecentErrors = logger.hasRecentErrors(10);
+      const stats = this.logger.getLogStats();
+      const hasRecentErrors = this.logger.hasRecentErrors(10);
 
       let status: HealthStatus = "healthy";
       let message = `Error logs: ${stats.recentErrors} errors in the last hour`;
@@ -324,13 +330,6 @@ export class HealthMonitor {
       // make actual API calls to verify connectivity, but that requires valid tokens
       for (const platform of platforms) {
         try {
-          // Basic DNS/connectivity check
-          const baseUrls = {
-            whatsapp: "https://graph.facebook.com",
-            messenger: "https://graph.facebook.com", 
-            instagram: "https://graph.instagram.com",
-          };
-
           // Simple connectivity test (this is basic and might not work in all environments)
           results[platform] = true; // Assume healthy for now
           healthyCount++;
@@ -2,10 +2,23 @@ import type { Platform } from "./types.js";
 import { MessageMeshError } from "./types.js";
 import { PerformanceMonitor } from "./performance.js";
 import { Logger } from "./logger.js";
+import { DefaultRetryPolicy, type RetryPolicy, type RetryFailure } from "./retry-policy.js";
+import { RateLimiter, type RateLimiterConfig, type RateLimiterStats } from "./rate-limiter.js";
+
+/**
+ * Sends a prepared request. Defaults to the global fetch; replace it to route traffic
+ * through a proxy, custom agent or an in-process fake such as FakeGraphApi.
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
 
 export interface HttpClientConfig {
   timeout?: number;
   retryAttempts?: number;
+  retryPolicy?: RetryPolicy; // Defaults to DefaultRetryPolicy with maxRetries = retryAttempts
+  rateLimit?: RateLimiterConfig; // Client-side rate limiting is disabled when omitted
+  performanceMonitor?: PerformanceMonitor; // Defaults to PerformanceMonitor.getInstance()
+  logger?: Logger; // Defaults to Logger.getInstance()
+  transport?: Transport; // Defaults to the global fetch
 }
 
 export interface RequestOptions {
@@ -17,12 +30,31 @@ export interface RequestOptions {
 
 export class HttpClient {
   private config: HttpClientConfig;
+  private retryPolicy: RetryPolicy;
+  private rateLimiter?: RateLimiter;
+  private monitor: PerformanceMonitor;
+  private logger: Logger;
+  private transport: Transport;
 
   constructor(config: HttpClientConfig = {}) {
     this.config = {
       timeout: config.timeout ?? 30000, // 30 seconds default
       retryAttempts: config.retryAttempts ?? 3,
     };
+    this.retryPolicy =
+      config.retryPolicy ?? new DefaultRetryPolicy({ maxRetries: this.config.retryAttempts });
+    this.rateLimiter = config.rateLimit ? new RateLimiter(config.rateLimit) : undefined;
+    this.monitor = config.performanceMonitor ?? PerformanceMonitor.getInstance();
+    this.logger = config.logger ?? Logger.getInstance();
+    // Resolve fetch per call so a replaced globalThis.fetch is still honoured
+    this.transport = config.transport ?? ((url, init) => fetch(url, init));
+  }
+
+  /**
+   * Get client-side rate limiter statistics, or null when rate limiting is disabled
+   */
+  getRateLimiterStats(): RateLimiterStats | null {
+    return this.rateLimiter?.getStats() ?? null;
   }
 
   async request(
@@ -37,133 +69,142 @@ export class HttpClient {
     const sanitizedHeaders = this.sanitizeHeaders(options.headers);
     
     // Performance: Start monitoring
-    const monitor = PerformanceMonitor.getInstance();
+    const monitor = this.monitor;
     const requestId = monitor.startRequest(platform, options.method);
     
     // Logging: Log request start
-    const logger = Logger.getInstance();
+    const logger = this.logger;
     const requestStartTime = Date.now();
     logger.logRequestStart(platform, options.method, url, {
       timeout: this.config.timeout,
       retryAttempts: this.config.retryAttempts,
     });
     
-    const { timeout, retryAttempts } = this.config;
-    let lastError: Error | undefined;
-
-    for (let attempt = 0; attempt <= retryAttempts!; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-        const response = await fetch(url, {
-          ...options,
-          signal: controller.signal,
-          headers: {
-            "User-Agent": "message-mesh/0.1.0",
-            "Content-Type": "application/json",
-            "X-Requested-With": "XMLHttpRequest",
-            "Cache-Control": "no-cache",
-            "Pragma": "no-cache",
-            ...sanitizedHeaders,
-          },
-        });
+    const { timeout } = this.config;
+    const sender = RateLimiter.getSenderKey(url);
 
-        clearTimeout(timeoutId);
+    for (let attempt = 0; ; attempt++) {
+      let failure: RetryFailure;
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          const error = new MessageMeshError(
-            `HTTP_${response.status}`,
-            platform,
-            `HTTP ${response.status}: ${errorText}`,
-            new Error(errorText)
-          );
-          
-          // Performance: End monitoring with error
-          monitor.endRequest(requestId, false, error.message);
+      // Rate limiting: Every send attempt, including retries, consumes a token for the sender
+      if (this.rateLimiter && sender) {
+        try {
+          await this.rateLimiter.acquire(platform, sender);
+        } catch (error) {
+          monitor.endRequest(requestId, false, error instanceof Error ? error.message : String(error));
           throw error;
         }
+      }
 
-        // Performance: End monitoring with success
-        monitor.endRequest(requestId, true);
-        
-        // Logging: Log successful request
-        const duration = Date.now() - requestStartTime;
-        logger.logRequestEnd(platform, options.method, url, duration, true, {
-          status: response.status,
-          attempt: attempt + 1,
-        });
-        
-        return response;
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+      try {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-        if (error instanceof MessageMeshError) {
-          // Performance monitoring already handled above
-          throw error;
+        let response: Response;
+        try {
+          response = await this.transport(url, {
+            ...options,
+            signal: controller.signal,
+            headers: this.buildHeaders(sanitizedHeaders, options.body),
+          });
+        } finally {
+          clearTimeout(timeoutId);
         }
 
-        if (error instanceof Error && error.name === "AbortError") {
-          const timeoutError = new MessageMeshError(
-            "TIMEOUT",
-            platform,
-            `Request timed out after ${timeout}ms`,
-            error
-          );
+        if (response.ok) {
+          // Performance: End monitoring with success
+          monitor.endRequest(requestId, true);
           
-          // Performance: End monitoring with timeout error
-          monitor.endRequest(requestId, false, timeoutError.message);
-          
-          // Logging: Log timeout error
+          // Logging: Log successful request
           const duration = Date.now() - requestStartTime;
-          logger.logRequestEnd(platform, options.method, url, duration, false, {
-            error: "timeout",
+          logger.logRequestEnd(platform, options.method, url, duration, true, {
+            status: response.status,
             attempt: attempt + 1,
           });
           
-          throw timeoutError;
+          return response;
         }
 
-        // Retry for network errors
-        if (attempt < retryAttempts!) {
-          const delay = Math.min(1000 * Math.pow(2, attempt), 10000); // Exponential backoff, max 10s
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          continue;
-        }
+        const errorText = await response.text();
+        failure = {
+          type: "http",
+          status: response.status,
+          headers: response.headers,
+          body: errorText,
+          ...DefaultRetryPolicy.parseGraphError(errorText),
+        };
+      } catch (error) {
+        const cause = error instanceof Error ? error : new Error(String(error));
+        failure = cause.name === "AbortError"
+          ? { type: "timeout", error: cause }
+          : { type: "network", error: cause };
+      }
 
-        const networkError = new MessageMeshError(
-          "NETWORK_ERROR",
-          platform,
-          `Network error after ${retryAttempts! + 1} attempts: ${lastError.message}`,
-          lastError
-        );
-        
-        // Performance: End monitoring with network error
-        monitor.endRequest(requestId, false, networkError.message);
-        
-        // Logging: Log network error
-        const duration = Date.now() - requestStartTime;
-        logger.logRequestEnd(platform, options.method, url, duration, false, {
-          error: "network",
-          attempts: retryAttempts! + 1,
-          lastError: lastError.message,
+      const decision = this.retryPolicy.shouldRetry(failure, {
+        platform,
+        method: options.method,
+        url,
+        attempt,
+        elapsedMs: Date.now() - requestStartTime,
+      });
+
+      if (decision.retry) {
+        const details = {
+          attempt: attempt + 1,
+          delayMs: decision.delayMs,
+          reason: decision.reason,
+          status: failure.type === "http" ? failure.status : undefined,
+          errorCode: failure.type === "http" ? failure.errorCode : undefined,
+        };
+
+        // Performance & Logging: Report the failed attempt before backing off
+        monitor.recordRetry(requestId, platform, details);
+        logger.logRetryAttempt(platform, options.method, url, details.attempt, details.delayMs, details.reason, {
+          status: details.status,
+          errorCode: details.errorCode,
         });
-        
-        throw networkError;
+
+        await new Promise((resolve) => setTimeout(resolve, decision.delayMs));
+        continue;
       }
+
+      const finalError = this.createFailureError(failure, platform, attempt + 1);
+
+      // Performance: End monitoring with error
+      monitor.endRequest(requestId, false, finalError.message);
+
+      // Logging: Log failed request
+      const duration = Date.now() - requestStartTime;
+      logger.logRequestEnd(platform, options.method, url, duration, false, {
+        error: failure.type,
+        status: failure.type === "http" ? failure.status : undefined,
+        attempts: attempt + 1,
+        retryDecision: decision.reason,
+      });
+
+      throw finalError;
     }
+  }
 
-    const unknownError = new MessageMeshError(
-      "UNKNOWN_ERROR",
-      platform,
-      "Request failed for unknown reasons",
-      lastError
-    );
-    
-    // Performance: End monitoring with unknown error
-    monitor.endRequest(requestId, false, unknownError.message);
-    throw unknownError;
+  /**
+   * Send a single request through the transport without retries, rate limiting or
+   * status handling, for callers that interpret Graph API error bodies themselves
+   */
+  async send(url: string, options: RequestOptions): Promise<Response> {
+    this.validateSecureUrl(url);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeout ?? this.config.timeout);
+    try {
+      return await this.transport(url, {
+        method: options.method,
+        headers: this.sanitizeHeaders(options.headers),
+        body: options.body,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
   }
 
   async get(url: string, headers: Record<string, string>, platform: Platform): Promise<Response> {
@@ -192,6 +233,61 @@ export class HttpClient {
     return this.request(url, { method: "DELETE", headers }, platform);
   }
 
+  private createFailureError(
+    failure: RetryFailure,
+    platform: Platform,
+    attempts: number
+  ): MessageMeshError {
+    switch (failure.type) {
+      case "http":
+        return new MessageMeshError(
+          `HTTP_${failure.status}`,
+          platform,
+          `HTTP ${failure.status}: ${failure.body}`,
+          new Error(failure.body)
+        );
+      case "timeout":
+        return new MessageMeshError(
+          "TIMEOUT",
+          platform,
+          `Request timed out after ${this.config.timeout}ms`,
+          failure.error
+        );
+      case "network":
+        return new MessageMeshError(
+          "NETWORK_ERROR",
+          platform,
+          `Network error after ${attempts} attempts: ${failure.error.message}`,
+          failure.error
+        );
+    }
+  }
+
+  private buildHeaders(
+    headers: Record<string, string>,
+    body?: string | FormData
+  ): Record<string, string> {
+    const merged: Record<string, string> = {
+      "User-Agent": "message-mesh/0.1.0",
+      "Content-Type": "application/json",
+      "X-Requested-With": "XMLHttpRequest",
+      "Cache-Control": "no-cache",
+      "Pragma": "no-cache",
+      ...headers,
+    };
+
+    // Multipart uploads: let fetch generate the Content-Type with its boundary
+    if (typeof FormData !== "undefined" && body instanceof FormData) {
+      for (const key of Object.keys(merged)) {
+        if (key.toLowerCase() === "content-type") {
+          delete merged[key];
+        }
+      }
+    }
+
+    return merged;
+  }
+
   // Security: Validate that all URLs use HTTPS
   private validateSecureUrl(url: string): void {
     try {
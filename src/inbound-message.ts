@@ -0,0 +1,616 @@
+import type { Platform } from "./types.js";
+
+/**
+ * Reply context: the message the user replied to
+ */
+export interface InboundReplyContext {
+  messageId: string;
+  from?: string; // WhatsApp only: sender of the original message
+  forwarded?: boolean;
+}
+
+/**
+ * Ad or link referral that started the conversation
+ */
+export interface InboundReferral {
+  source?: string; // e.g. "ADS", "SHORTLINK", "ad", "post"
+  type?: string; // e.g. "OPEN_THREAD"
+  ref?: string;
+  adId?: string;
+  sourceUrl?: string;
+  headline?: string;
+  body?: string;
+}
+
+/**
+ * Fields shared by every inbound message
+ */
+export interface InboundMessageBase {
+  platform: Platform;
+  messageId: string; // Platform message ID (wamid / mid)
+  from: string; // Sender: WhatsApp ID, PSID or IGSID
+  to: string; // Recipient: phone number ID, page ID or Instagram account ID
+  timestamp: string; // ISO 8601
+  senderName?: string; // WhatsApp contact profile name
+  replyTo?: InboundReplyContext;
+  referral?: InboundReferral;
+  isEcho?: boolean; // Messenger/Instagram message sent by the page itself
+}
+
+/**
+ * Attachment on a media message
+ */
+export interface InboundAttachment {
+  mediaType: "image" | "video" | "audio" | "document" | "sticker" | "file" | "share" | "reel";
+  mediaId?: string; // WhatsApp media ID, use WhatsAppService.getMediaUrl to resolve
+  url?: string; // Messenger/Instagram attachment URL
+  mimeType?: string;
+  sha256?: string;
+  filename?: string;
+  stickerId?: number;
+}
+
+/**
+ * Contact card shared in a message
+ */
+export interface InboundContact {
+  name: string; // Formatted name
+  firstName?: string;
+  lastName?: string;
+  phones: Array<{ phone: string; type?: string; waId?: string }>;
+  emails: string[];
+  addresses?: Array<{
+    street?: string;
+    city?: string;
+    state?: string;
+    zip?: string;
+    country?: string;
+    countryCode?: string;
+    type?: string;
+  }>;
+  urls?: string[];
+  organization?: { company?: string; department?: string; title?: string };
+  birthday?: string; // YYYY-MM-DD
+}
+
+/**
+ * Product in a cart sent from a WhatsApp catalog
+ */
+export interface InboundOrderItem {
+  productRetailerId: string;
+  quantity: number;
+  itemPrice: number; // Unit price
+  currency: string; // ISO 4217 code
+}
+
+export type InboundTextMessage = InboundMessageBase & {
+  type: "text";
+  text: string;
+};
+
+export type InboundMediaMessage = InboundMessageBase & {
+  type: "media";
+  attachments: InboundAttachment[];
+  caption?: string; // WhatsApp caption or Messenger/Instagram text sent with the attachment
+};
+
+export type InboundLocationMessage = InboundMessageBase & {
+  type: "location";
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+};
+
+export type InboundContactsMessage = InboundMessageBase & {
+  type: "contacts";
+  contacts: InboundContact[];
+};
+
+export type InboundOrderMessage = InboundMessageBase & {
+  type: "order";
+  catalogId: string;
+  items: InboundOrderItem[];
+  text?: string; // Note the user added to the order
+};
+
+export type InboundReactionMessage = InboundMessageBase & {
+  type: "reaction";
+  targetMessageId: string;
+  emoji?: string; // Undefined when the reaction was removed
+  action: "react" | "unreact";
+};
+
+export type InboundButtonReplyMessage = InboundMessageBase & {
+  type: "button_reply";
+  buttonId: string; // Interactive button ID or template quick reply payload
+  title: string;
+};
+
+export type InboundListReplyMessage = InboundMessageBase & {
+  type: "list_reply";
+  rowId: string;
+  title: string;
+  description?: string;
+};
+
+export type InboundPostbackMessage = InboundMessageBase & {
+  type: "postback";
+  payload: string;
+  title?: string;
+};
+
+export type InboundQuickReplyMessage = InboundMessageBase & {
+  type: "quick_reply";
+  payload: string;
+  text?: string;
+};
+
+export type InboundStoryReplyMessage = InboundMessageBase & {
+  type: "story_reply";
+  storyId?: string;
+  storyUrl?: string;
+  text?: string;
+};
+
+export type InboundStoryMentionMessage = InboundMessageBase & {
+  type: "story_mention";
+  storyUrl?: string;
+};
+
+export type InboundReferralMessage = InboundMessageBase & {
+  type: "referral";
+  referral: InboundReferral;
+};
+
+export type InboundUnsupportedMessage = InboundMessageBase & {
+  type: "unsupported";
+  rawType: string;
+};
+
+/**
+ * Normalized inbound message, discriminated by `type`
+ */
+export type InboundMessage =
+  | InboundTextMessage
+  | InboundMediaMessage
+  | InboundLocationMessage
+  | InboundContactsMessage
+  | InboundOrderMessage
+  | InboundReactionMessage
+  | InboundButtonReplyMessage
+  | InboundListReplyMessage
+  | InboundPostbackMessage
+  | InboundQuickReplyMessage
+  | InboundStoryReplyMessage
+  | InboundStoryMentionMessage
+  | InboundReferralMessage
+  | InboundUnsupportedMessage;
+
+/**
+ * Normalized delivery status for an outbound message
+ */
+export interface InboundStatus {
+  platform: Platform;
+  messageId: string;
+  recipient: string;
+  status: "sent" | "delivered" | "read" | "failed" | "deleted";
+  timestamp: string; // ISO 8601
+  errors?: Array<{ code: number; title?: string; message?: string }>;
+  conversationId?: string;
+  conversationOrigin?: string; // e.g. "marketing", "utility", "service"
+  conversationExpiresAt?: string; // ISO 8601
+  pricingCategory?: string;
+  pricingModel?: string;
+  billable?: boolean;
+}
+
+/**
+ * Public comment on a Facebook Page post or an Instagram media object. Answer it
+ * privately with sendPrivateReply({ commentId })
+ */
+export interface InboundComment {
+  platform: "messenger" | "instagram";
+  commentId: string;
+  postId: string; // Facebook post ID or Instagram media ID
+  parentId?: string; // Comment this one replies to
+  from: string; // Commenter: Facebook user ID (not a PSID) or Instagram-scoped ID
+  fromName?: string; // Facebook name or Instagram username
+  to: string; // Page ID or Instagram account ID
+  text?: string;
+  action: "add" | "edit" | "remove" | "hide" | "unhide"; // Instagram only sends "add"
+  timestamp: string; // ISO 8601
+  isEcho?: boolean; // Comment posted by the page or account itself
+}
+
+/**
+ * Converts raw platform webhook payloads into InboundMessage / InboundStatus / InboundComment
+ */
+export class InboundMessageNormalizer {
+  /**
+   * Normalize a single WhatsApp message from a `messages` change value
+   */
+  static fromWhatsAppMessage(message: any, value: any): InboundMessage {
+    const contact = Array.isArray(value?.contacts)
+      ? (value.contacts.find((c: any) => c.wa_id === message.from) ?? value.contacts[0])
+      : undefined;
+
+    const base: InboundMessageBase = {
+      platform: "whatsapp",
+      messageId: message.id,
+      from: message.from,
+      to: value?.metadata?.phone_number_id ?? "",
+      timestamp: this.fromUnixSeconds(message.timestamp),
+      senderName: contact?.profile?.name,
+      replyTo: message.context?.id
+        ? {
+            messageId: message.context.id,
+            from: message.context.from,
+            forwarded: message.context.forwarded || message.context.frequently_forwarded,
+          }
+        : undefined,
+      referral: message.referral
+        ? {
+            source: message.referral.source_type,
+            adId: message.referral.source_id,
+            sourceUrl: message.referral.source_url,
+            headline: message.referral.headline,
+            body: message.referral.body,
+          }
+        : undefined,
+    };
+
+    switch (message.type) {
+      case "text":
+        return { ...base, type: "text", text: message.text?.body ?? "" };
+
+      case "image":
+      case "video":
+      case "audio":
+      case "document":
+      case "sticker": {
+        const media = message[message.type] ?? {};
+        return {
+          ...base,
+          type: "media",
+          attachments: [
+            {
+              mediaType: message.type,
+              mediaId: media.id,
+              mimeType: media.mime_type,
+              sha256: media.sha256,
+              filename: media.filename,
+            },
+          ],
+          caption: media.caption,
+        };
+      }
+
+      case "location":
+        return {
+          ...base,
+          type: "location",
+          latitude: message.location?.latitude,
+          longitude: message.location?.longitude,
+          name: message.location?.name,
+          address: message.location?.address,
+          url: message.location?.url,
+        };
+
+      case "contacts":
+        return {
+          ...base,
+          type: "contacts",
+          contacts: (message.contacts ?? []).map((c: any) => ({
+            name: c.name?.formatted_name ?? "",
+            firstName: c.name?.first_name,
+            lastName: c.name?.last_name,
+            phones: (c.phones ?? []).map((p: any) => ({
+              phone: p.phone,
+              type: p.type,
+              waId: p.wa_id,
+            })),
+            emails: (c.emails ?? []).map((e: any) => e.email),
+            addresses: c.addresses?.map((a: any) => ({
+              street: a.street,
+              city: a.city,
+              state: a.state,
+              zip: a.zip,
+              country: a.country,
+              countryCode: a.country_code,
+              type: a.type,
+            })),
+            urls: c.urls?.map((u: any) => u.url),
+            organization: c.org,
+            birthday: c.birthday,
+          })),
+        };
+
+      case "order":
+        return {
+          ...base,
+          type: "order",
+          catalogId: message.order?.catalog_id,
+          items: (message.order?.product_items ?? []).map((item: any) => ({
+            productRetailerId: item.product_retailer_id,
+            quantity: Number(item.quantity),
+            itemPrice: Number(item.item_price),
+            currency: item.currency,
+          })),
+          text: message.order?.text || undefined,
+        };
+
+      case "reaction":
+        return {
+          ...base,
+          type: "reaction",
+          targetMessageId: message.reaction?.message_id,
+          emoji: message.reaction?.emoji || undefined,
+          action: message.reaction?.emoji ? "react" : "unreact",
+        };
+
+      case "button":
+        // Quick reply button on a template message
+        return {
+          ...base,
+          type: "button_reply",
+          buttonId: message.button?.payload,
+          title: message.button?.text,
+        };
+
+      case "interactive":
+        if (message.interactive?.type === "button_reply") {
+          return {
+            ...base,
+            type: "button_reply",
+            buttonId: message.interactive.button_reply.id,
+            title: message.interactive.button_reply.title,
+          };
+        }
+        if (message.interactive?.type === "list_reply") {
+          return {
+            ...base,
+            type: "list_reply",
+            rowId: message.interactive.list_reply.id,
+            title: message.interactive.list_reply.title,
+            description: message.interactive.list_reply.description,
+          };
+        }
+        return {
+          ...base,
+          type: "unsupported",
+          rawType: `interactive.${message.interactive?.type}`,
+        };
+
+      default:
+        return { ...base, type: "unsupported", rawType: String(message.type) };
+    }
+  }
+
+  /**
+   * Normalize a single WhatsApp status from a `messages` change value
+   */
+  static fromWhatsAppStatus(status: any): InboundStatus {
+    return {
+      platform: "whatsapp",
+      messageId: status.id,
+      recipient: status.recipient_id,
+      status: status.status,
+      timestamp: this.fromUnixSeconds(status.timestamp),
+      errors: status.errors,
+      conversationId: status.conversation?.id,
+      conversationOrigin: status.conversation?.origin?.type,
+      conversationExpiresAt: status.conversation?.expiration_timestamp
+        ? this.fromUnixSeconds(status.conversation.expiration_timestamp)
+        : undefined,
+      pricingCategory: status.pricing?.category,
+      pricingModel: status.pricing?.pricing_model,
+      billable: status.pricing?.billable,
+    };
+  }
+
+  /**
+   * Normalize a Messenger or Instagram `messaging` entry.
+   * Returns undefined for events that are not messages (delivery, read, ...)
+   */
+  static fromMessagingEvent(
+    messaging: any,
+    platform: "messenger" | "instagram"
+  ): InboundMessage | undefined {
+    const base: InboundMessageBase = {
+      platform,
+      messageId: messaging.message?.mid ?? messaging.postback?.mid ?? "",
+      from: messaging.sender?.id ?? "",
+      to: messaging.recipient?.id ?? "",
+      timestamp: new Date(messaging.timestamp ?? Date.now()).toISOString(),
+    };
+
+    const referral = messaging.referral ?? messaging.postback?.referral;
+    if (referral) {
+      base.referral = {
+        source: referral.source,
+        type: referral.type,
+        ref: referral.ref,
+        adId: referral.ad_id,
+        sourceUrl: referral.source_url ?? referral.url,
+      };
+    }
+
+    if (messaging.postback) {
+      return {
+        ...base,
+        type: "postback",
+        payload: messaging.postback.payload,
+        title: messaging.postback.title,
+      };
+    }
+
+    if (messaging.reaction) {
+      return {
+        ...base,
+        messageId: messaging.reaction.mid,
+        type: "reaction",
+        targetMessageId: messaging.reaction.mid,
+        emoji: messaging.reaction.emoji,
+        action: messaging.reaction.action === "unreact" ? "unreact" : "react",
+      };
+    }
+
+    if (!messaging.message) {
+      return base.referral ? { ...base, type: "referral", referral: base.referral } : undefined;
+    }
+
+    const message = messaging.message;
+    base.isEcho = message.is_echo || undefined;
+    if (message.reply_to?.mid) {
+      base.replyTo = { messageId: message.reply_to.mid };
+    }
+
+    if (message.reply_to?.story) {
+      return {
+        ...base,
+        type: "story_reply",
+        storyId: message.reply_to.story.id,
+        storyUrl: message.reply_to.story.url,
+        text: message.text,
+      };
+    }
+
+    if (message.quick_reply) {
+      return {
+        ...base,
+        type: "quick_reply",
+        payload: message.quick_reply.payload,
+        text: message.text,
+      };
+    }
+
+    const attachments: any[] = message.attachments ?? [];
+
+    const storyMention = attachments.find((a) => a.type === "story_mention");
+    if (storyMention) {
+      return { ...base, type: "story_mention", storyUrl: storyMention.payload?.url };
+    }
+
+    const location = attachments.find((a) => a.type === "location");
+    if (location) {
+      return {
+        ...base,
+        type: "location",
+        latitude: location.payload?.coordinates?.lat,
+        longitude: location.payload?.coordinates?.long,
+        name: location.title,
+        url: location.url ?? location.payload?.url,
+      };
+    }
+
+    if (attachments.length > 0) {
+      return {
+        ...base,
+        type: "media",
+        attachments: attachments.map((a) => this.fromMessagingAttachment(a)),
+        caption: message.text,
+      };
+    }
+
+    if (typeof message.text === "string") {
+      return { ...base, type: "text", text: message.text };
+    }
+
+    return { ...base, type: "unsupported", rawType: "message" };
+  }
+
+  /**
+   * Normalize a Facebook Page `feed` change. Returns undefined for feed items
+   * other than comments (posts, reactions, shares, ...)
+   */
+  static fromFeedChange(value: any, pageId: string): InboundComment | undefined {
+    if (value?.item !== "comment" || !value.comment_id) {
+      return undefined;
+    }
+
+    const actions: Record<string, InboundComment["action"]> = {
+      add: "add",
+      edited: "edit",
+      remove: "remove",
+      hide: "hide",
+      unhide: "unhide",
+    };
+    const from = value.from?.id ?? "";
+
+    return {
+      platform: "messenger",
+      commentId: value.comment_id,
+      postId: value.post_id ?? "",
+      // Top-level comments carry the post ID as their parent
+      parentId: value.parent_id && value.parent_id !== value.post_id ? value.parent_id : undefined,
+      from,
+      fromName: value.from?.name,
+      to: pageId,
+      text: value.message,
+      action: actions[value.verb] ?? "add",
+      timestamp: this.fromUnixSeconds(value.created_time),
+      isEcho: (from !== "" && from === pageId) || undefined,
+    };
+  }
+
+  /**
+   * Normalize an Instagram `comments` or `live_comments` change
+   */
+  static fromInstagramComment(
+    value: any,
+    accountId: string,
+    entryTime?: number
+  ): InboundComment | undefined {
+    if (!value?.id) {
+      return undefined;
+    }
+
+    const from = value.from?.id ?? "";
+    return {
+      platform: "instagram",
+      commentId: value.id,
+      postId: value.media?.id ?? "",
+      parentId: value.parent_id,
+      from,
+      fromName: value.from?.username,
+      to: accountId,
+      text: value.text,
+      action: "add",
+      // Instagram sends entry.time in seconds
+      timestamp:
+        entryTime && entryTime > 1e12
+          ? new Date(entryTime).toISOString()
+          : this.fromUnixSeconds(entryTime),
+      isEcho: (from !== "" && from === accountId) || undefined,
+    };
+  }
+
+  private static fromMessagingAttachment(attachment: any): InboundAttachment {
+    const mediaTypes: Record<string, InboundAttachment["mediaType"]> = {
+      image: "image",
+      video: "video",
+      audio: "audio",
+      file: "file",
+      share: "share",
+      ig_reel: "reel",
+      reel: "reel",
+    };
+
+    return {
+      mediaType: attachment.payload?.sticker_id
+        ? "sticker"
+        : (mediaTypes[attachment.type] ?? "file"),
+      url: attachment.payload?.url,
+      stickerId: attachment.payload?.sticker_id,
+    };
+  }
+
+  private static fromUnixSeconds(timestamp: string | number | undefined): string {
+    const seconds = Number(timestamp);
+    return Number.isFinite(seconds) && seconds > 0
+      ? new Date(seconds * 1000).toISOString()
+      : new Date().toISOString();
+  }
+}
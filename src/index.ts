@@ -1,13 +1,51 @@
 export { MessageMesh } from "./message-mesh.js";
 export { MessageMeshError } from "./types.js";
 export { EncryptionUtils } from "./security.js";
+export type { EncryptedFlowRequest, DecryptedFlowRequest } from "./security.js";
 export { MessengerExtendedService } from "./services/messenger-extended.js";
 export { HttpClient } from "./http-client.js";
+export type { HttpClientConfig, Transport } from "./http-client.js";
+export { FakeGraphApi } from "./fake-graph-api.js";
+export type {
+  FakeGraphApiOptions,
+  FakeGraphError,
+  FakeGraphRequest,
+  FakeGraphSentMessage,
+} from "./fake-graph-api.js";
+export {
+  DefaultRetryPolicy,
+  RETRYABLE_GRAPH_ERROR_CODES,
+  RETRYABLE_HTTP_STATUSES,
+} from "./retry-policy.js";
+export { RateLimiter } from "./rate-limiter.js";
+export type {
+  RateLimitMode,
+  RateLimiterConfig,
+  RateLimiterStats,
+  PlatformRateLimit,
+} from "./rate-limiter.js";
+export type {
+  RetryPolicy,
+  RetryPolicyOptions,
+  RetryFailure,
+  RetryContext,
+  RetryDecision,
+} from "./retry-policy.js";
 export type {
   AccessToken,
   PageProfile,
   MessengerConfig,
   MessengerPageInfo,
+  MessengerProfileField,
+  MessengerProfileSettings,
+  MessengerGreeting,
+  MessengerMenuItem,
+  MessengerPersistentMenu,
+  MessengerIceBreakers,
+  HandoverPlatform,
+  ThreadControlOptions,
+  PassThreadControlOptions,
+  SecondaryReceiver,
 } from "./services/messenger-extended.js";
 export type {
   MessageMeshConfig,
@@ -19,22 +57,191 @@ export type {
   WhatsAppReactionOptions,
   WhatsAppMediaOptions,
   WhatsAppEmojiOptions,
+  WhatsAppInteractiveOptions,
+  WhatsAppInteractiveHeader,
+  WhatsAppProductSection,
+  WhatsAppLocationOptions,
+  WhatsAppContact,
+  WhatsAppContactsOptions,
+  WhatsAppLocationRequestOptions,
+  WhatsAppFlowOptions,
+  WhatsAppReplyButton,
+  WhatsAppListRow,
+  WhatsAppListSection,
+  WhatsAppMarkAsReadOptions,
+  WhatsAppTypingIndicatorOptions,
+  MediaFileSource,
+  WhatsAppMediaSource,
+  WhatsAppMediaUploadOptions,
+  WhatsAppMediaUploadResponse,
+  WhatsAppMediaOperationOptions,
+  WhatsAppMediaUrlResponse,
+  WhatsAppMediaDownloadResponse,
+  WhatsAppMediaDeleteResponse,
   MessengerMessageOptions,
+  MessengerQuickReply,
+  MessengerMessagingType,
+  MessengerMessageTag,
+  MessengerNotificationType,
+  InstagramMessageTag,
   MessengerMediaOptions,
   MessengerTemplateOptions,
   MessengerReplyOptions,
+  MessengerPrivateReplyOptions,
+  MessengerMarkAsReadOptions,
+  MessengerTypingIndicatorOptions,
+  MessengerAttachmentUploadOptions,
+  InstagramAttachmentUploadOptions,
+  AttachmentUploadResponse,
   InstagramMessageOptions,
   InstagramMediaOptions,
   InstagramReplyOptions,
+  InstagramPrivateReplyOptions,
+  InstagramMarkAsReadOptions,
+  InstagramTypingIndicatorOptions,
+  InstagramQuickReply,
+  InstagramTemplateButton,
+  InstagramGenericTemplateElement,
+  InstagramGenericTemplateOptions,
+  InstagramMediaShareOptions,
+  InstagramReactionOptions,
+  InstagramRemoveReactionOptions,
+  InstagramIceBreaker,
+  InstagramIceBreakersOptions,
+  InstagramIceBreakersResponse,
   TemplateComponent,
   TemplateParameter,
   PhoneNumberListOptions,
   PhoneNumberListResponse,
   PhoneNumber,
+  PhoneNumberMessagingLimitTier,
+  DisplayNameStatus,
+  PhoneNumberOptions,
+  PhoneNumberResponse,
+  PhoneNumberRegisterOptions,
+  PhoneNumberTwoStepPinOptions,
+  PhoneNumberDeregisterOptions,
+  VerificationCodeRequestOptions,
+  VerificationCodeOptions,
+  PhoneNumberOperationResponse,
+  BusinessProfileOptions,
+  BusinessProfileUpdateOptions,
+  BusinessProfileResponse,
+  WhatsAppBusinessVertical,
+  BusinessProfile,
 } from "./types.js";
+export { DeliveryTracker, InMemoryDeliveryStorage } from "./delivery-tracker.js";
+export type {
+  DeliveryStatus,
+  DeliveryRecord,
+  DeliveryStorage,
+  DeliveryStatusListener,
+  OutboundMessageRecord,
+} from "./delivery-tracker.js";
+export { OutboundQueue, InMemoryQueueStorage, FileQueueStorage } from "./outbound-queue.js";
+export type {
+  OutboundMessage,
+  OutboundJob,
+  OutboundJobStatus,
+  OutboundQueueConfig,
+  OutboundQueueServices,
+  EnqueueOptions,
+  QueueStorage,
+} from "./outbound-queue.js";
+export {
+  ConversationWindowTracker,
+  InMemoryConversationWindowStorage,
+} from "./conversation-window.js";
+export type {
+  ConversationWindowConfig,
+  ConversationWindowMode,
+  ConversationWindowState,
+  ConversationWindowDecision,
+  ConversationWindowStorage,
+  ConversationWindowTemplate,
+} from "./conversation-window.js";
+export { Logger } from "./logger.js";
+export type { LogLevel, LogEntry, LoggerConfig } from "./logger.js";
+export { PerformanceMonitor } from "./performance.js";
+export type { PerformanceMetrics, RetryAttemptDetails } from "./performance.js";
+export { HealthMonitor } from "./health.js";
+export type { HealthStatus, HealthCheckResult, HealthReport } from "./health.js";
+export { WebhookManager } from "./webhook.js";
+export { WebhookRouter } from "./webhook-router.js";
+export type {
+  WebhookMiddleware,
+  WebhookRouteFilter,
+  WebhookFailurePolicy,
+  WebhookProcessorOptions,
+  WebhookProcessorFailure,
+} from "./webhook-router.js";
+export { WebhookDeadLetterQueue, InMemoryWebhookDeadLetterStorage } from "./webhook-dead-letter.js";
+export type {
+  DeadLetteredWebhookEvent,
+  WebhookDeadLetterConfig,
+  WebhookDeadLetterFilter,
+  WebhookDeadLetterStorage,
+  WebhookReplayResult,
+  WebhookEventDispatcher,
+} from "./webhook-dead-letter.js";
+export {
+  WebhookDeduplicator,
+  InMemoryWebhookDeduplicationStorage,
+} from "./webhook-deduplicator.js";
+export type {
+  WebhookDeduplicationConfig,
+  WebhookDeduplicationStorage,
+} from "./webhook-deduplicator.js";
+export { AttachmentCache, InMemoryAttachmentCacheStorage } from "./attachment-cache.js";
+export type {
+  AttachmentCacheConfig,
+  AttachmentCacheStorage,
+  AttachmentReference,
+} from "./attachment-cache.js";
+export { WebhookHandler, WebhookAdapters } from "./webhook-handler.js";
+export type {
+  WebhookRequestHandler,
+  WebhookHandlerOptions,
+  WebhookHandlerContext,
+} from "./webhook-handler.js";
+export { WhatsAppFlowEndpoint } from "./whatsapp-flow-endpoint.js";
+export type {
+  FlowDataExchangeRequest,
+  FlowDataExchangeResponse,
+  FlowDataExchangeHandler,
+  FlowEndpointOptions,
+  FlowEndpointContext,
+} from "./whatsapp-flow-endpoint.js";
+export type { WebhookEvent, WebhookProcessor, FailedWebhookEvent } from "./webhook.js";
+export type {
+  InboundMessage,
+  InboundMessageBase,
+  InboundTextMessage,
+  InboundMediaMessage,
+  InboundLocationMessage,
+  InboundContactsMessage,
+  InboundOrderMessage,
+  InboundReactionMessage,
+  InboundButtonReplyMessage,
+  InboundListReplyMessage,
+  InboundPostbackMessage,
+  InboundQuickReplyMessage,
+  InboundStoryReplyMessage,
+  InboundStoryMentionMessage,
+  InboundReferralMessage,
+  InboundUnsupportedMessage,
+  InboundAttachment,
+  InboundContact,
+  InboundOrderItem,
+  InboundReferral,
+  InboundReplyContext,
+  InboundStatus,
+  InboundComment,
+} from "./inbound-message.js";
 export type {
   IPlatformService,
   IWhatsAppService,
   IMessengerService,
   IInstagramService,
-} from "./interfaces.js";
\ No newline at end of file
+  ServiceDependencies,
+} from "./interfaces.js";
@@ -6,15 +6,40 @@ import type {
   WhatsAppReactionOptions,
   WhatsAppMediaOptions,
   WhatsAppEmojiOptions,
+  WhatsAppInteractiveOptions,
+  WhatsAppLocationOptions,
+  WhatsAppContactsOptions,
+  WhatsAppLocationRequestOptions,
+  WhatsAppFlowOptions,
+  WhatsAppMarkAsReadOptions,
+  WhatsAppTypingIndicatorOptions,
+  WhatsAppMediaUploadOptions,
+  WhatsAppMediaUploadResponse,
+  WhatsAppMediaOperationOptions,
+  WhatsAppMediaUrlResponse,
+  WhatsAppMediaDownloadResponse,
+  WhatsAppMediaDeleteResponse,
   MessengerMessageOptions,
   MessengerMediaOptions,
   MessengerTemplateOptions,
   MessengerReplyOptions,
+  MessengerPrivateReplyOptions,
+  MessengerMarkAsReadOptions,
+  MessengerTypingIndicatorOptions,
   MessengerUserProfileOptions,
   MessengerUserProfileResponse,
   InstagramMessageOptions,
   InstagramMediaOptions,
   InstagramReplyOptions,
+  InstagramPrivateReplyOptions,
+  InstagramMarkAsReadOptions,
+  InstagramTypingIndicatorOptions,
+  InstagramGenericTemplateOptions,
+  InstagramMediaShareOptions,
+  InstagramReactionOptions,
+  InstagramRemoveReactionOptions,
+  InstagramIceBreakersOptions,
+  InstagramIceBreakersResponse,
   TemplateCreateOptions,
   TemplateUpdateOptions,
   TemplateDeleteOptions,
@@ -38,7 +63,35 @@ import type {
   InstagramTemplateListResponse,
   PhoneNumberListOptions,
   PhoneNumberListResponse,
+  PhoneNumberOptions,
+  PhoneNumberResponse,
+  PhoneNumberRegisterOptions,
+  PhoneNumberTwoStepPinOptions,
+  PhoneNumberDeregisterOptions,
+  VerificationCodeRequestOptions,
+  VerificationCodeOptions,
+  PhoneNumberOperationResponse,
+  BusinessProfileOptions,
+  BusinessProfileUpdateOptions,
+  BusinessProfileResponse,
+  MessengerAttachmentUploadOptions,
+  InstagramAttachmentUploadOptions,
+  AttachmentUploadResponse,
 } from "./types.js";
+import type { DeliveryTracker } from "./delivery-tracker.js";
+import type { ConversationWindowTracker } from "./conversation-window.js";
+import type { AttachmentCache } from "./attachment-cache.js";
+import type { Logger } from "./logger.js";
+
+/**
+ * Optional collaborators shared by the platform services
+ */
+export interface ServiceDependencies {
+  deliveryTracker?: DeliveryTracker;
+  windowTracker?: ConversationWindowTracker;
+  attachmentCache?: AttachmentCache; // Reusable Messenger/Instagram attachment IDs
+  logger?: Logger; // Defaults to Logger.getInstance()
+}
 
 export interface IPlatformService {
   validateAccessToken(accessToken: string): Promise<boolean>;
@@ -51,6 +104,21 @@ export interface IWhatsAppService extends IPlatformService {
   sendReaction(options: WhatsAppReactionOptions): Promise<SendMessageResponse>;
   sendMedia(options: WhatsAppMediaOptions): Promise<SendMessageResponse>;
   sendEmoji(options: WhatsAppEmojiOptions): Promise<SendMessageResponse>;
+  sendInteractive(options: WhatsAppInteractiveOptions): Promise<SendMessageResponse>;
+  sendLocation(options: WhatsAppLocationOptions): Promise<SendMessageResponse>;
+  sendContacts(options: WhatsAppContactsOptions): Promise<SendMessageResponse>;
+  sendLocationRequest(options: WhatsAppLocationRequestOptions): Promise<SendMessageResponse>;
+  sendFlow(options: WhatsAppFlowOptions): Promise<SendMessageResponse>;
+
+  // Read Receipt and Typing Methods
+  markAsRead(options: WhatsAppMarkAsReadOptions): Promise<SendMessageResponse>;
+  sendTypingIndicator(options: WhatsAppTypingIndicatorOptions): Promise<SendMessageResponse>;
+
+  // Media Management Methods
+  uploadMedia(options: WhatsAppMediaUploadOptions): Promise<WhatsAppMediaUploadResponse>;
+  getMediaUrl(options: WhatsAppMediaOperationOptions): Promise<WhatsAppMediaUrlResponse>;
+  downloadMedia(options: WhatsAppMediaOperationOptions): Promise<WhatsAppMediaDownloadResponse>;
+  deleteMedia(options: WhatsAppMediaOperationOptions): Promise<WhatsAppMediaDeleteResponse>;
   
   // Template Management Methods
   createTemplate(options: TemplateCreateOptions): Promise<TemplateResponse>;
@@ -61,6 +129,20 @@ export interface IWhatsAppService extends IPlatformService {
   
   // Phone Number Management Methods
   getPhoneNumbers(options: PhoneNumberListOptions): Promise<PhoneNumberListResponse>;
+  getPhoneNumber(options: PhoneNumberOptions): Promise<PhoneNumberResponse>;
+  registerPhoneNumber(options: PhoneNumberRegisterOptions): Promise<PhoneNumberOperationResponse>;
+  deregisterPhoneNumber(
+    options: PhoneNumberDeregisterOptions
+  ): Promise<PhoneNumberOperationResponse>;
+  setTwoStepPin(options: PhoneNumberTwoStepPinOptions): Promise<PhoneNumberOperationResponse>;
+  requestVerificationCode(
+    options: VerificationCodeRequestOptions
+  ): Promise<PhoneNumberOperationResponse>;
+  verifyCode(options: VerificationCodeOptions): Promise<PhoneNumberOperationResponse>;
+
+  // Business Profile Methods
+  getBusinessProfile(options: BusinessProfileOptions): Promise<BusinessProfileResponse>;
+  updateBusinessProfile(options: BusinessProfileUpdateOptions): Promise<BusinessProfileResponse>;
 }
 
 export interface IMessengerService extends IPlatformService {
@@ -68,6 +150,14 @@ export interface IMessengerService extends IPlatformService {
   sendMedia(options: MessengerMediaOptions): Promise<SendMessageResponse>;
   sendTemplate(options: MessengerTemplateOptions): Promise<SendMessageResponse>;
   replyMessage(options: MessengerReplyOptions): Promise<SendMessageResponse>;
+  sendPrivateReply(options: MessengerPrivateReplyOptions): Promise<SendMessageResponse>;
+
+  // Attachment Upload Methods
+  uploadAttachment(options: MessengerAttachmentUploadOptions): Promise<AttachmentUploadResponse>;
+
+  // Read Receipt and Typing Methods
+  markAsRead(options: MessengerMarkAsReadOptions): Promise<SendMessageResponse>;
+  sendTypingIndicator(options: MessengerTypingIndicatorOptions): Promise<SendMessageResponse>;
   
   // User Profile Methods
   getUserProfile(options: MessengerUserProfileOptions): Promise<MessengerUserProfileResponse>;
@@ -84,6 +174,25 @@ export interface IInstagramService extends IPlatformService {
   sendMessage(options: InstagramMessageOptions): Promise<SendMessageResponse>;
   sendMedia(options: InstagramMediaOptions): Promise<SendMessageResponse>;
   replyMessage(options: InstagramReplyOptions): Promise<SendMessageResponse>;
+  sendPrivateReply(options: InstagramPrivateReplyOptions): Promise<SendMessageResponse>;
+  sendGenericTemplate(options: InstagramGenericTemplateOptions): Promise<SendMessageResponse>;
+  sendMediaShare(options: InstagramMediaShareOptions): Promise<SendMessageResponse>;
+
+  // Attachment Upload Methods
+  uploadAttachment(options: InstagramAttachmentUploadOptions): Promise<AttachmentUploadResponse>;
+
+  // Reaction Methods
+  sendReaction(options: InstagramReactionOptions): Promise<SendMessageResponse>;
+  removeReaction(options: InstagramRemoveReactionOptions): Promise<SendMessageResponse>;
+
+  // Read Receipt and Typing Methods
+  markAsRead(options: InstagramMarkAsReadOptions): Promise<SendMessageResponse>;
+  sendTypingIndicator(options: InstagramTypingIndicatorOptions): Promise<SendMessageResponse>;
+
+  // Ice Breaker Methods
+  setIceBreakers(options: InstagramIceBreakersOptions): Promise<InstagramIceBreakersResponse>;
+  getIceBreakers(accessToken: string): Promise<InstagramIceBreakersResponse>;
+  deleteIceBreakers(accessToken: string): Promise<InstagramIceBreakersResponse>;
   
   // Template Management Methods
   createTemplate(options: InstagramTemplateCreateOptions): Promise<InstagramTemplateResponse>;
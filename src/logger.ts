@@ -46,7 +46,10 @@ export class Logger {
     error: 3,
   };
 
-  private constructor(config: Partial<LoggerConfig> = {}) {
+  /**
+   * Create an isolated logger; getInstance() returns the shared default
+   */
+  constructor(config: Partial<LoggerConfig> = {}) {
     this.config = {
       level: config.level || "info",
       enableConsole: config.enableConsole ?? true,
@@ -246,6 +249,28 @@ export class Logger {
     });
   }
 
+  /**
+   * Log a retried API request attempt
+   */
+  logRetryAttempt(
+    platform: Platform,
+    method: string,
+    url: string,
+    attempt: number,
+    delayMs: number,
+    reason: string,
+    metadata?: Record<string, any>
+  ): void {
+    this.warn(`API request retry: ${method} ${url} (attempt ${attempt} failed, retrying in ${delayMs}ms)`, platform, {
+      method,
+      url,
+      attempt,
+      delayMs,
+      reason,
+      ...metadata,
+    });
+  }
+
   /**
    * Log message sending
    */
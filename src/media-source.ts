@@ -0,0 +1,54 @@
+import type { MediaFileSource, Platform } from "./types.js";
+import { MessageMeshError } from "./types.js";
+
+/**
+ * Read a file path, buffer, Blob or stream into a Blob for multipart uploads
+ */
+export async function readMediaSource(
+  source: MediaFileSource,
+  mimeType: string,
+  platform: Platform
+): Promise<Blob> {
+  if (typeof source === "string") {
+    const { readFile } = await import("node:fs/promises");
+    try {
+      const contents = await readFile(source);
+      return new Blob([contents], { type: mimeType });
+    } catch (error) {
+      throw new MessageMeshError(
+        "MEDIA_READ_FAILED",
+        platform,
+        `Unable to read media file: ${source}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  if (source instanceof Blob) {
+    return source.type === mimeType ? source : new Blob([source], { type: mimeType });
+  }
+
+  if (source instanceof Uint8Array) {
+    return new Blob([source], { type: mimeType });
+  }
+
+  // ReadableStream and Node.js streams are both async iterable
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of source as AsyncIterable<Uint8Array>) {
+    chunks.push(chunk);
+  }
+  return new Blob(chunks, { type: mimeType });
+}
+
+/**
+ * Filename to upload a source under: the path's basename, a File's name or "upload"
+ */
+export function getMediaSourceFilename(source: MediaFileSource): string {
+  if (typeof source === "string") {
+    return source.split(/[\\/]/).pop() || "upload";
+  }
+  if (typeof File !== "undefined" && source instanceof File && source.name) {
+    return source.name;
+  }
+  return "upload";
+}
@@ -1,5 +1,7 @@
 import { describe, it, expect } from "bun:test";
 import { MessageMesh } from "./message-mesh.js";
+import { Logger } from "./logger.js";
+import { PerformanceMonitor } from "./performance.js";
 
 describe("MessageMesh", () => {
   it("should create an instance", () => {
@@ -21,4 +23,46 @@ describe("MessageMesh", () => {
     const messageMesh = new MessageMesh();
     expect(messageMesh.instagram).toBeDefined();
   });
-});
\ No newline at end of file
+
+  it("should require a message ID to mark WhatsApp messages as read", async () => {
+    const messageMesh = new MessageMesh();
+    const result = await messageMesh.markAsRead({
+      platform: "whatsapp",
+      accessToken: "test_token",
+      phoneNumberId: "123456789",
+    });
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("MISSING_PARAMETERS");
+  });
+
+  it("should share the default observability singletons", () => {
+    const messageMesh = new MessageMesh();
+    expect(messageMesh.logger).toBe(Logger.getInstance());
+    expect(messageMesh.performanceMonitor).toBe(PerformanceMonitor.getInstance());
+  });
+
+  it("should keep logs, metrics and processors separate for isolated instances", async () => {
+    const tenantA = new MessageMesh({ isolated: true });
+    const tenantB = new MessageMesh({ isolated: true });
+    tenantA.configureLogging({ enableConsole: false });
+
+    tenantA.logger.info("tenant A only");
+    tenantA.performanceMonitor.endRequest(
+      tenantA.performanceMonitor.startRequest("whatsapp", "POST"),
+      true
+    );
+    const received: string[] = [];
+    tenantA.registerWebhookProcessor("message_received", (event) => {
+      received.push(event.platform);
+    });
+    await tenantB.processWebhookEvents([
+      { platform: "whatsapp", eventType: "message_received", timestamp: "", data: {} },
+    ]);
+
+    expect(tenantA.getLogs().map((log) => log.message)).toContain("tenant A only");
+    expect(tenantB.getLogs().map((log) => log.message)).not.toContain("tenant A only");
+    expect(tenantA.getPerformanceMetrics("whatsapp")?.requestCount).toBe(1);
+    expect(tenantB.getPerformanceMetrics("whatsapp")?.requestCount).toBe(0);
+    expect(received).toEqual([]);
+  });
+});
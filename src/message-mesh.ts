@@ -9,23 +9,122 @@ import { PlatformCapabilitiesManager, type PlatformCapabilities } from "./platfo
 import { PerformanceMonitor, type PerformanceMetrics } from "./performance.js";
 import { Logger, type LogLevel, type LogEntry } from "./logger.js";
 import { HealthMonitor, type HealthReport } from "./health.js";
-import { WebhookManager, type WebhookEvent } from "./webhook.js";
+import { WebhookManager, type FailedWebhookEvent, type WebhookEvent } from "./webhook.js";
+import type {
+  WebhookFailurePolicy,
+  WebhookMiddleware,
+  WebhookProcessorOptions,
+} from "./webhook-router.js";
+import {
+  WebhookHandler,
+  type WebhookHandlerOptions,
+  type WebhookRequestHandler,
+} from "./webhook-handler.js";
+import { WhatsAppFlowEndpoint, type FlowEndpointOptions } from "./whatsapp-flow-endpoint.js";
+import {
+  DeliveryTracker,
+  type DeliveryRecord,
+  type DeliveryStatusListener,
+} from "./delivery-tracker.js";
+import {
+  OutboundQueue,
+  type OutboundMessage,
+  type OutboundJob,
+  type EnqueueOptions,
+} from "./outbound-queue.js";
+import { ConversationWindowTracker } from "./conversation-window.js";
+import { WebhookDeduplicator } from "./webhook-deduplicator.js";
+import { WebhookDeadLetterQueue } from "./webhook-dead-letter.js";
+import { AttachmentCache } from "./attachment-cache.js";
 
 export class MessageMesh {
   public readonly whatsapp: IWhatsAppService;
   public readonly messenger: IMessengerService;
   public readonly instagram: IInstagramService;
+  public readonly deliveryTracker: DeliveryTracker;
+  public readonly queue: OutboundQueue;
+  public readonly conversationWindow?: ConversationWindowTracker;
+  public readonly webhookDeduplicator?: WebhookDeduplicator;
+  public readonly webhookDeadLetters?: WebhookDeadLetterQueue;
+  public readonly attachmentCache?: AttachmentCache;
+  public readonly logger: Logger;
+  public readonly performanceMonitor: PerformanceMonitor;
+  public readonly healthMonitor: HealthMonitor;
+  public readonly webhookManager: WebhookManager;
   private readonly httpClient: HttpClient;
+  private readonly webhookFailurePolicy?: WebhookFailurePolicy;
 
   constructor(config: MessageMeshConfig = {}) {
+    const isolated = config.isolated ?? false;
+    this.logger = config.logger ?? (isolated ? new Logger() : Logger.getInstance());
+    this.performanceMonitor =
+      config.performanceMonitor ??
+      (isolated ? new PerformanceMonitor() : PerformanceMonitor.getInstance());
+    this.healthMonitor =
+      config.healthMonitor ??
+      (isolated
+        ? new HealthMonitor(this.logger, this.performanceMonitor)
+        : HealthMonitor.getInstance());
+    this.webhookManager =
+      config.webhookManager ??
+      (isolated ? new WebhookManager(this.logger) : WebhookManager.getInstance());
+
     this.httpClient = new HttpClient({
       timeout: config.timeout,
       retryAttempts: config.retryAttempts,
+      retryPolicy: config.retryPolicy,
+      rateLimit: config.rateLimit,
+      performanceMonitor: this.performanceMonitor,
+      logger: this.logger,
+      transport: config.transport,
     });
 
-    this.whatsapp = new WhatsAppService(this.httpClient);
-    this.messenger = new MessengerService(this.httpClient);
-    this.instagram = new InstagramService(this.httpClient);
+    this.deliveryTracker = config.deliveryTracker ?? new DeliveryTracker(undefined, this.logger);
+    this.conversationWindow = config.conversationWindow
+      ? new ConversationWindowTracker({ logger: this.logger, ...config.conversationWindow })
+      : undefined;
+    this.webhookDeduplicator =
+      config.webhookDeduplication === false
+        ? undefined
+        : new WebhookDeduplicator({
+            logger: this.logger,
+            performanceMonitor: this.performanceMonitor,
+            ...config.webhookDeduplication,
+          });
+    this.webhookFailurePolicy = config.webhookFailurePolicy;
+    this.webhookDeadLetters =
+      config.webhookDeadLetter === false
+        ? undefined
+        : new WebhookDeadLetterQueue(
+            async (event, failures) => {
+              const [failed] = await this.webhookManager.processEvents(
+                [event],
+                this.webhookFailurePolicy,
+                failures
+              );
+              return failed?.failures ?? [];
+            },
+            { logger: this.logger, ...config.webhookDeadLetter }
+          );
+    this.attachmentCache =
+      config.attachmentCache === false
+        ? undefined
+        : new AttachmentCache({ logger: this.logger, ...config.attachmentCache });
+    const deps = {
+      deliveryTracker: this.deliveryTracker,
+      windowTracker: this.conversationWindow,
+      attachmentCache: this.attachmentCache,
+      logger: this.logger,
+    };
+
+    this.whatsapp = new WhatsAppService(this.httpClient, deps);
+    this.messenger = new MessengerService(this.httpClient, deps);
+    this.instagram = new InstagramService(this.httpClient, deps);
+
+    this.queue = new OutboundQueue(
+      { whatsapp: this.whatsapp, messenger: this.messenger, instagram: this.instagram },
+      { logger: this.logger, ...config.queue }
+    );
   }
 
   getVersion(): string {
@@ -249,6 +348,112 @@ export class MessageMesh {
     return results;
   }
 
+  /**
+   * Mark the conversation as seen using the platform-specific mechanism.
+   * WhatsApp marks a specific inbound message as read (messageId and
+   * phoneNumberId are required); Messenger and Instagram mark the whole
+   * thread with the recipient as seen.
+   */
+  async markAsRead(options: {
+    platform: Platform;
+    accessToken: string;
+    to?: string;
+    messageId?: string;
+    phoneNumberId?: string;
+  }): Promise<SendMessageResponse> {
+    switch (options.platform) {
+      case "whatsapp":
+        if (!options.phoneNumberId || !options.messageId) {
+          return this.missingReadStateParams("whatsapp", "phoneNumberId and messageId");
+        }
+        return this.whatsapp.markAsRead({
+          accessToken: options.accessToken,
+          phoneNumberId: options.phoneNumberId,
+          messageId: options.messageId,
+        });
+      case "messenger":
+        if (!options.to) {
+          return this.missingReadStateParams("messenger", "to");
+        }
+        return this.messenger.markAsRead({ accessToken: options.accessToken, to: options.to });
+      case "instagram":
+        if (!options.to) {
+          return this.missingReadStateParams("instagram", "to");
+        }
+        return this.instagram.markAsRead({ accessToken: options.accessToken, to: options.to });
+      default:
+        throw new MessageMeshError(
+          "UNSUPPORTED_PLATFORM",
+          options.platform,
+          `Read receipts not supported for platform: ${options.platform}`
+        );
+    }
+  }
+
+  /**
+   * Turn the typing indicator on or off using the platform-specific mechanism.
+   * WhatsApp shows the indicator against an inbound message and clears it
+   * automatically when the reply is sent, so turning it off is a no-op there.
+   */
+  async setTypingIndicator(options: {
+    platform: Platform;
+    accessToken: string;
+    isTyping: boolean;
+    to?: string;
+    messageId?: string;
+    phoneNumberId?: string;
+  }): Promise<SendMessageResponse> {
+    switch (options.platform) {
+      case "whatsapp":
+        if (!options.isTyping) {
+          return { success: true };
+        }
+        if (!options.phoneNumberId || !options.messageId) {
+          return this.missingReadStateParams("whatsapp", "phoneNumberId and messageId");
+        }
+        return this.whatsapp.sendTypingIndicator({
+          accessToken: options.accessToken,
+          phoneNumberId: options.phoneNumberId,
+          messageId: options.messageId,
+        });
+      case "messenger":
+        if (!options.to) {
+          return this.missingReadStateParams("messenger", "to");
+        }
+        return this.messenger.sendTypingIndicator({
+          accessToken: options.accessToken,
+          to: options.to,
+          isTyping: options.isTyping,
+        });
+      case "instagram":
+        if (!options.to) {
+          return this.missingReadStateParams("instagram", "to");
+        }
+        return this.instagram.sendTypingIndicator({
+          accessToken: options.accessToken,
+          to: options.to,
+          isTyping: options.isTyping,
+        });
+      default:
+        throw new MessageMeshError(
+          "UNSUPPORTED_PLATFORM",
+          options.platform,
+          `Typing indicators not supported for platform: ${options.platform}`
+        );
+    }
+  }
+
+  private missingReadStateParams(platform: Platform, params: string): SendMessageResponse {
+    return {
+      success: false,
+      error: {
+        code: "MISSING_PARAMETERS",
+        message: `${params} must be provided for ${platform}`,
+        platform,
+      },
+    };
+  }
+
   /**
    * Validate message options across platforms with detailed feedback
    */
@@ -332,48 +537,83 @@ export class MessageMesh {
     };
   }
 
+  // Outbound Queue Methods
+
+  /**
+   * Queue a send to be processed by the queue workers (see `queue.start()`)
+   */
+  async enqueueMessage(message: OutboundMessage, options?: EnqueueOptions): Promise<OutboundJob> {
+    return this.queue.enqueue(message, options);
+  }
+
+  /**
+   * Get the status of a queued send
+   */
+  async getQueuedJob(jobId: string): Promise<OutboundJob | undefined> {
+    return this.queue.getJob(jobId);
+  }
+
+  // Delivery Tracking Methods
+
+  /**
+   * Get the tracked delivery state of an outbound message
+   */
+  async getDeliveryStatus(messageId: string): Promise<DeliveryRecord | undefined> {
+    return this.deliveryTracker.getStatus(messageId);
+  }
+
+  /**
+   * Subscribe to delivery status changes. Returns an unsubscribe function
+   */
+  onDeliveryStatusChange(listener: DeliveryStatusListener): () => void {
+    return this.deliveryTracker.subscribe(listener);
+  }
+
   // Performance Monitoring Methods
 
   /**
    * Get performance metrics for a specific platform
    */
   getPerformanceMetrics(platform: Platform): PerformanceMetrics | null {
-    return PerformanceMonitor.getInstance().getMetrics(platform);
+    return this.performanceMonitor.getMetrics(platform);
   }
 
   /**
    * Get performance metrics for all platforms
    */
   getAllPerformanceMetrics(): Record<Platform, PerformanceMetrics> {
-    return PerformanceMonitor.getInstance().getAllMetrics();
+    return this.performanceMonitor.getAllMetrics();
   }
 
   /**
    * Get recent request history
    */
   getRecentRequests(platform?: Platform, limit: number = 50) {
-    return PerformanceMonitor.getInstance().getRecentRequests(platform, limit);
+    return this.performanceMonitor.getRecentRequests(platform, limit);
   }
 
   /**
    * Get performance summary across all platforms
    */
   getPerformanceSummary() {
-    return PerformanceMonitor.getInstance().getPerformanceSummary();
+    return {
+      ...this.performanceMonitor.getPerformanceSummary(),
+      rateLimiter: this.httpClient.getRateLimiterStats(),
+    };
   }
 
   /**
    * Reset performance metrics
    */
   resetPerformanceMetrics(): void {
-    PerformanceMonitor.getInstance().resetMetrics();
+    this.performanceMonitor.resetMetrics();
   }
 
   /**
    * Clear response cache
    */
   clearResponseCache(): void {
-    PerformanceMonitor.getInstance().clearCache();
+    this.performanceMonitor.clearCache();
   }
 
   /**
@@ -499,77 +739,77 @@ export class MessageMesh {
     maxLogSize?: number;
     sensitiveFields?: string[];
   }): void {
-    Logger.getInstance().configure(config);
+    this.logger.configure(config);
   }
 
   /**
    * Get recent logs
    */
   getLogs(level?: LogLevel, platform?: Platform, limit: number = 100): LogEntry[] {
-    return Logger.getInstance().getLogs(level, platform, limit);
+    return this.logger.getLogs(level, platform, limit);
   }
 
   /**
    * Get log statistics
    */
   getLogStats() {
-    return Logger.getInstance().getLogStats();
+    return this.logger.getLogStats();
   }
 
   /**
    * Clear all logs
    */
   clearLogs(): void {
-    Logger.getInstance().clearLogs();
+    this.logger.clearLogs();
   }
 
   /**
    * Export logs as JSON
    */
   exportLogs(): string {
-    return Logger.getInstance().exportLogs();
+    return this.logger.exportLogs();
   }
 
   /**
    * Perform comprehensive health check
    */
   async checkHealth(): Promise<HealthReport> {
-    return HealthMonitor.getInstance().checkHealth();
+    return this.healthMonitor.checkHealth();
   }
 
   /**
    * Check if system is ready to handle requests
    */
   async isReady(): Promise<boolean> {
-    return HealthMonitor.getInstance().isReady();
+    return this.healthMonitor.isReady();
   }
 
   /**
    * Check if system is alive (basic liveness check)
    */
   isAlive(): boolean {
-    return HealthMonitor.getInstance().isAlive();
+    return this.healthMonitor.isAlive();
   }
 
   /**
    * Get system uptime
    */
   getUptime(): number {
-    return HealthMonitor.getInstance().getUptime();
+    return this.healthMonitor.getUptime();
   }
 
   /**
    * Get formatted uptime string
    */
   getFormattedUptime(): string {
-    return HealthMonitor.getInstance().getFormattedUptime();
+    return this.healthMonitor.getFormattedUptime();
   }
 
   /**
    * Register custom health check
    */
   registerHealthCheck(name: string, checkFunction: () => Promise<{ status: "healthy" | "degraded" | "unhealthy"; message: string; metadata?: Record<string, any> }>): void {
-    HealthMonitor.getInstance().registerCheck(name, async () => {
+    this.healthMonitor.registerCheck(name, async () => {
       const result = await checkFunction();
       return {
         name,
@@ -591,7 +831,7 @@ export class MessageMesh {
     algorithm: "sha1" | "sha256" = "sha256",
     prefix?: string
   ): boolean {
-    return WebhookManager.getInstance().verifySignature(payload, signature, {
+    return this.webhookManager.verifySignature(payload, signature, {
       secret,
       algorithm,
       headerName: "x-hub-signature-256",
@@ -608,22 +848,20 @@ export class MessageMesh {
     challenge: string,
     verifyToken: string
   ) {
-    return WebhookManager.getInstance().handleVerificationChallenge(mode, token, challenge, verifyToken);
+    return this.webhookManager.handleVerificationChallenge(mode, token, challenge, verifyToken);
   }
 
   /**
    * Parse webhook events from platform
    */
   parseWebhookEvents(payload: any, platform: Platform): WebhookEvent[] {
-    const webhookManager = WebhookManager.getInstance();
-    
     switch (platform) {
       case "whatsapp":
-        return webhookManager.parseWhatsAppWebhook(payload);
+        return this.webhookManager.parseWhatsAppWebhook(payload);
       case "messenger":
-        return webhookManager.parseMessengerWebhook(payload);
+        return this.webhookManager.parseMessengerWebhook(payload);
       case "instagram":
-        return webhookManager.parseInstagramWebhook(payload);
+        return this.webhookManager.parseInstagramWebhook(payload);
       default:
         throw new MessageMeshError(
           "UNSUPPORTED_PLATFORM",
@@ -634,24 +872,139 @@ export class MessageMesh {
   }
 
   /**
-   * Register webhook event processor
+   * Register webhook event processor. The event type may be "*" or "platform:eventType"
+   * with wildcards, e.g. "whatsapp:*". Options filter events and override the failure
+   * policy. Returns a function that unregisters it.
+   */
+  registerWebhookProcessor(
+    eventType: string,
+    processor: (event: WebhookEvent) => Promise<void> | void,
+    options?: WebhookProcessorOptions
+  ): () => void {
+    return this.webhookManager.registerProcessor(eventType, processor, options);
+  }
+
+  /**
+   * Add webhook middleware that runs, in registration order, before the processors
    */
-  registerWebhookProcessor(eventType: string, processor: (event: WebhookEvent) => Promise<void> | void): void {
-    WebhookManager.getInstance().registerProcessor(eventType, processor);
+  useWebhookMiddleware(middleware: WebhookMiddleware): () => void {
+    return this.webhookManager.use(middleware);
   }
 
   /**
-   * Process webhook events
+   * Process webhook events. Events whose processors still fail after the failure
+   * policy's retries go to the dead-letter queue
    */
   async processWebhookEvents(events: WebhookEvent[]): Promise<void> {
-    return WebhookManager.getInstance().processEvents(events);
+    const failed = await this.runWebhookEvents(events, true);
+    const failedEvents = failed.map(({ event }) => event);
+    if (!this.webhookDeadLetters) {
+      // Let Meta's redelivery retry them
+      await this.webhookDeduplicator?.release(failedEvents);
+      return;
+    }
+
+    // Dead-lettered events keep their dedup claim so a redelivery cannot run them next to
+    // a replay. If storing fails the webhook is answered with 500, so let the redelivery in.
+    try {
+      await this.webhookDeadLetters.add(failed);
+    } catch (error) {
+      await this.webhookDeduplicator?.release(failedEvents);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a raw webhook payload, e.g. one captured in production, through parsing,
+   * delivery tracking and the processors without a signature check. Deduplication is
+   * skipped unless requested, and failures are returned instead of dead-lettered.
+   */
+  async replayWebhookPayload(
+    payload: unknown,
+    options: { platform?: Platform; deduplicate?: boolean } = {}
+  ): Promise<{ events: WebhookEvent[]; failed: FailedWebhookEvent[] }> {
+    let body: unknown = payload;
+    if (typeof payload === "string") {
+      try {
+        body = JSON.parse(payload);
+      } catch {
+        throw new MessageMeshError(
+          "INVALID_WEBHOOK_PAYLOAD",
+          options.platform ?? ("all" as Platform),
+          "Webhook payload is not valid JSON"
+        );
+      }
+    }
+
+    const platform = options.platform ?? this.webhookManager.detectPlatform(body);
+    if (!platform || !this.webhookManager.validateWebhookPayload(body, platform)) {
+      throw new MessageMeshError(
+        "INVALID_WEBHOOK_PAYLOAD",
+        platform ?? ("all" as Platform),
+        "Webhook payload is not a supported Meta notification"
+      );
+    }
+
+    const events = this.parseWebhookEvents(body, platform);
+    const failed = await this.runWebhookEvents(events, options.deduplicate ?? false);
+    if (options.deduplicate) {
+      await this.webhookDeduplicator?.release(failed.map(({ event }) => event));
+    }
+    return { events, failed };
+  }
+
+  private async runWebhookEvents(
+    events: WebhookEvent[],
+    deduplicate: boolean
+  ): Promise<FailedWebhookEvent[]> {
+    // Skip events Meta redelivered after they were already processed
+    const fresh =
+      deduplicate && this.webhookDeduplicator
+        ? await this.webhookDeduplicator.claim(events)
+        : events;
+
+    // Update delivery state and conversation windows before processors run
+    await this.deliveryTracker.applyWebhookEvents(fresh);
+    await this.conversationWindow?.applyWebhookEvents(fresh);
+    return this.webhookManager.processEvents(fresh, this.webhookFailurePolicy);
+  }
+
+  /**
+   * Create a Fetch API webhook endpoint that answers the verification challenge, checks
+   * X-Hub-Signature-256, detects the platform, parses and dispatches events.
+   * Use WebhookAdapters for Node http, Express and Hono.
+   */
+  createWebhookHandler(options: WebhookHandlerOptions): WebhookRequestHandler {
+    const handler = new WebhookHandler(
+      {
+        webhookManager: this.webhookManager,
+        logger: this.logger,
+        parseEvents: (payload, platform) => this.parseWebhookEvents(payload, platform),
+        processEvents: (events) => this.processWebhookEvents(events),
+      },
+      options
+    );
+    return (request) => handler.handle(request);
+  }
+
+  /**
+   * Create a Fetch API data exchange endpoint for WhatsApp Flows. It decrypts each
+   * request, passes it to the handler and encrypts the handler's next screen.
+   * Use WebhookAdapters for Node http, Express and Hono.
+   */
+  createFlowEndpoint(options: FlowEndpointOptions): WebhookRequestHandler {
+    const endpoint = new WhatsAppFlowEndpoint(
+      { webhookManager: this.webhookManager, logger: this.logger },
+      options
+    );
+    return (request) => endpoint.handle(request);
   }
 
   /**
    * Validate webhook payload structure
    */
   validateWebhookPayload(payload: any, platform: Platform): boolean {
-    return WebhookManager.getInstance().validateWebhookPayload(payload, platform);
+    return this.webhookManager.validateWebhookPayload(payload, platform);
   }
 
   /**
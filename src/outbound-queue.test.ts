@@ -0,0 +1,100 @@
+import { describe, it, expect } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OutboundQueue, FileQueueStorage, type OutboundQueueServices } from "./outbound-queue.js";
+import type { SendMessageResponse } from "./types.js";
+
+const failure = (code: string): SendMessageResponse => ({
+  success: false,
+  error: { code, message: code, platform: "whatsapp" },
+});
+
+const fakeServices = (responses: SendMessageResponse[]) => {
+  const calls: unknown[] = [];
+  const services = {
+    whatsapp: {
+      sendMessage: async (options: unknown) => {
+        calls.push(options);
+        return responses.shift() ?? { success: true, messageId: "wamid.ok" };
+      },
+    },
+    messenger: {},
+    instagram: {},
+  } as unknown as OutboundQueueServices;
+  return { services, calls };
+};
+
+const message = {
+  platform: "whatsapp" as const,
+  method: "sendMessage" as const,
+  options: { accessToken: "token", to: "+1234567890", message: "Hi", phoneNumberId: "123" },
+};
+
+describe("OutboundQueue", () => {
+  it("should retry retryable failures and complete the job", async () => {
+    const { services, calls } = fakeServices([failure("HTTP_503")]);
+    const queue = new OutboundQueue(services, { baseDelayMs: 0 });
+
+    const job = await queue.enqueue(message);
+    await queue.drain();
+    await queue.drain();
+
+    const stored = await queue.getJob(job.id);
+    expect(calls).toHaveLength(2);
+    expect(stored?.status).toBe("completed");
+    expect(stored?.attempts).toBe(2);
+    expect(stored?.result?.messageId).toBe("wamid.ok");
+  });
+
+  it("should dead-letter non-retryable failures and allow requeueing", async () => {
+    const { services } = fakeServices([failure("INVALID_PHONE_NUMBER")]);
+    const queue = new OutboundQueue(services);
+
+    const job = await queue.enqueue(message);
+    await queue.drain();
+
+    expect((await queue.getDeadLetters()).map((j) => j.id)).toEqual([job.id]);
+
+    await queue.requeue(job.id);
+    await queue.drain();
+    expect((await queue.getJob(job.id))?.status).toBe("completed");
+  });
+
+  it("should dead-letter timed out sends unless retryOnTimeout is set", async () => {
+    const { services, calls } = fakeServices([failure("TIMEOUT"), failure("TIMEOUT")]);
+    const queue = new OutboundQueue(services, { baseDelayMs: 0 });
+    const retrying = new OutboundQueue(services, { baseDelayMs: 0, retryOnTimeout: true });
+
+    const job = await queue.enqueue(message);
+    await queue.drain();
+    const retried = await retrying.enqueue(message);
+    await retrying.drain();
+
+    expect(calls).toHaveLength(3);
+    expect((await queue.getJob(job.id))?.attempts).toBe(1);
+    expect((await queue.getDeadLetters()).map((j) => j.id)).toEqual([job.id]);
+    expect((await retrying.getJob(retried.id))?.status).toBe("completed");
+    expect((await retrying.getJob(retried.id))?.attempts).toBe(2);
+  });
+
+  it("should recover jobs interrupted mid-send from the file storage", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "message-mesh-queue-"));
+    try {
+      const filePath = join(dir, "queue.json");
+      const first = new FileQueueStorage(filePath);
+      const { services } = fakeServices([]);
+
+      const job = await new OutboundQueue(services, { storage: first }).enqueue(message);
+      await first.claimDue(Date.now(), 10); // Simulate a crash after claiming
+
+      const restarted = new OutboundQueue(services, { storage: new FileQueueStorage(filePath) });
+      expect((await restarted.getJob(job.id))?.status).toBe("pending");
+
+      await restarted.drain();
+      expect((await restarted.getJob(job.id))?.status).toBe("completed");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,503 @@
+import * as crypto from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import type { Platform, SendMessageResponse } from "./types.js";
+import { MessageMeshError } from "./types.js";
+import type { IWhatsAppService, IMessengerService, IInstagramService } from "./interfaces.js";
+import { Logger } from "./logger.js";
+import { DefaultRetryPolicy, RETRYABLE_GRAPH_ERROR_CODES } from "./retry-policy.js";
+
+type SendMethod<S> = {
+  [K in keyof S]: K extends `send${string}` | "replyMessage" ? K : never;
+}[keyof S];
+
+type SendRequest<P extends Platform, S> = {
+  [K in SendMethod<S>]: {
+    platform: P;
+    method: K;
+    options: S[K] extends (options: infer O) => Promise<SendMessageResponse> ? O : never;
+  };
+}[SendMethod<S>];
+
+/**
+ * A service send call to run from the queue, e.g.
+ * `{ platform: "whatsapp", method: "sendTemplate", options: {...} }`
+ */
+export type OutboundMessage =
+  | SendRequest<"whatsapp", IWhatsAppService>
+  | SendRequest<"messenger", IMessengerService>
+  | SendRequest<"instagram", IInstagramService>;
+
+export type OutboundJobStatus = "pending" | "processing" | "completed" | "dead";
+
+/**
+ * Queued send and its processing state
+ */
+export interface OutboundJob {
+  id: string;
+  message: OutboundMessage;
+  status: OutboundJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+  nextAttemptAt: string; // When a pending job becomes due
+  lastError?: { code: string; message: string };
+  result?: SendMessageResponse;
+}
+
+/**
+ * Pluggable persistence for queued jobs
+ */
+export interface QueueStorage {
+  add(job: OutboundJob): Promise<void>;
+  update(job: OutboundJob): Promise<void>;
+  get(id: string): Promise<OutboundJob | undefined>;
+  list(status?: OutboundJobStatus): Promise<OutboundJob[]>;
+  remove(id: string): Promise<void>;
+  /**
+   * Mark up to `limit` pending jobs due at `now` as processing and return them
+   */
+  claimDue(now: number, limit: number): Promise<OutboundJob[]>;
+}
+
+export interface OutboundQueueConfig {
+  storage?: QueueStorage; // Default: InMemoryQueueStorage
+  concurrency?: number; // Jobs processed in parallel (default: 5)
+  maxAttempts?: number; // Attempts before a job is dead-lettered (default: 5)
+  baseDelayMs?: number; // First retry delay (default: 1000)
+  maxDelayMs?: number; // Cap for a single retry delay (default: 300000)
+  pollIntervalMs?: number; // How often workers look for due jobs (default: 1000)
+  retryOnTimeout?: boolean; // Retry TIMEOUT failures; the send may still have arrived (default: false)
+  isRetryable?: (error: { code: string; message: string }) => boolean;
+  logger?: Logger; // Default: Logger.getInstance()
+}
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  delayMs?: number; // Defer the first attempt
+}
+
+/**
+ * Services the queue workers send through
+ */
+export interface OutboundQueueServices {
+  whatsapp: IWhatsAppService;
+  messenger: IMessengerService;
+  instagram: IInstagramService;
+}
+
+const cloneJob = (job: OutboundJob): OutboundJob => JSON.parse(JSON.stringify(job));
+
+/**
+ * In-memory queue storage. Jobs are lost when the process exits
+ */
+export class InMemoryQueueStorage implements QueueStorage {
+  protected jobs = new Map<string, OutboundJob>();
+
+  async add(job: OutboundJob): Promise<void> {
+    this.jobs.set(job.id, cloneJob(job));
+  }
+
+  async update(job: OutboundJob): Promise<void> {
+    this.jobs.set(job.id, cloneJob(job));
+  }
+
+  async get(id: string): Promise<OutboundJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? cloneJob(job) : undefined;
+  }
+
+  async list(status?: OutboundJobStatus): Promise<OutboundJob[]> {
+    return [...this.jobs.values()].filter((job) => !status || job.status === status).map(cloneJob);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  async claimDue(now: number, limit: number): Promise<OutboundJob[]> {
+    const claimed: OutboundJob[] = [];
+    for (const job of this.jobs.values()) {
+      if (claimed.length >= limit) break;
+      if (job.status === "pending" && Date.parse(job.nextAttemptAt) <= now) {
+        job.status = "processing";
+        job.updatedAt = new Date(now).toISOString();
+        claimed.push(cloneJob(job));
+      }
+    }
+    return claimed;
+  }
+}
+
+/**
+ * File-backed queue storage. Every change rewrites a JSON file atomically,
+ * and jobs interrupted mid-send are returned to pending when the file is loaded.
+ * Job options include access tokens, so protect the file accordingly
+ */
+export class FileQueueStorage extends InMemoryQueueStorage {
+  private loaded?: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  override async add(job: OutboundJob): Promise<void> {
+    await this.load();
+    await super.add(job);
+    await this.persist();
+  }
+
+  override async update(job: OutboundJob): Promise<void> {
+    await this.load();
+    await super.update(job);
+    await this.persist();
+  }
+
+  override async get(id: string): Promise<OutboundJob | undefined> {
+    await this.load();
+    return super.get(id);
+  }
+
+  override async list(status?: OutboundJobStatus): Promise<OutboundJob[]> {
+    await this.load();
+    return super.list(status);
+  }
+
+  override async remove(id: string): Promise<void> {
+    await this.load();
+    await super.remove(id);
+    await this.persist();
+  }
+
+  override async claimDue(now: number, limit: number): Promise<OutboundJob[]> {
+    await this.load();
+    const claimed = await super.claimDue(now, limit);
+    if (claimed.length > 0) {
+      await this.persist();
+    }
+    return claimed;
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      let contents: string;
+      try {
+        contents = await readFile(this.filePath, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return;
+        }
+        throw error;
+      }
+
+      const jobs = JSON.parse(contents) as OutboundJob[];
+      for (const job of jobs) {
+        // The previous process died while sending: try again
+        if (job.status === "processing") {
+          job.status = "pending";
+        }
+        this.jobs.set(job.id, job);
+      }
+    })();
+    return this.loaded;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.jobs.values()]);
+    // A failed write is reported to its caller but must not block later writes
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(tempPath, snapshot, "utf8");
+        await rename(tempPath, this.filePath);
+      });
+    return this.writeChain;
+  }
+}
+
+/**
+ * Durable outbound queue with concurrency-controlled workers, retry scheduling
+ * with exponential backoff and a dead-letter list
+ */
+export class OutboundQueue {
+  private static readonly RETRYABLE_CODES = [
+    "NETWORK_ERROR",
+    "RATE_LIMIT_EXCEEDED",
+    "UNKNOWN_ERROR",
+  ];
+
+  private readonly storage: QueueStorage;
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly isRetryable: (error: { code: string; message: string }) => boolean;
+  private readonly logger: Logger;
+
+  private timer?: ReturnType<typeof setInterval>;
+  private inFlight = new Set<Promise<void>>();
+  private ticking = false;
+
+  constructor(
+    private readonly services: OutboundQueueServices,
+    config: OutboundQueueConfig = {}
+  ) {
+    this.storage = config.storage ?? new InMemoryQueueStorage();
+    this.concurrency = Math.max(1, config.concurrency ?? 5);
+    this.maxAttempts = Math.max(1, config.maxAttempts ?? 5);
+    this.baseDelayMs = config.baseDelayMs ?? 1000;
+    this.maxDelayMs = config.maxDelayMs ?? 300000;
+    this.pollIntervalMs = config.pollIntervalMs ?? 1000;
+    const retryOnTimeout = config.retryOnTimeout ?? false;
+    this.isRetryable =
+      config.isRetryable ??
+      ((error) =>
+        (retryOnTimeout && error.code === "TIMEOUT") || OutboundQueue.defaultIsRetryable(error));
+    this.logger = config.logger ?? Logger.getInstance();
+  }
+
+  /**
+   * Add a send to the queue
+   */
+  async enqueue(message: OutboundMessage, options: EnqueueOptions = {}): Promise<OutboundJob> {
+    if (!this.services[message.platform] || typeof message.method !== "string") {
+      throw new MessageMeshError(
+        "INVALID_QUEUE_JOB",
+        message.platform,
+        `Unsupported queue job: ${message.platform}.${String(message.method)}`
+      );
+    }
+
+    const now = new Date();
+    const job: OutboundJob = {
+      id: crypto.randomUUID(),
+      message,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? this.maxAttempts,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      nextAttemptAt: new Date(now.getTime() + (options.delayMs ?? 0)).toISOString(),
+    };
+
+    await this.storage.add(job);
+    this.logger.debug(`Outbound job queued: ${message.method}`, message.platform, {
+      jobId: job.id,
+    });
+
+    if (this.timer) {
+      void this.tick();
+    }
+    return job;
+  }
+
+  /**
+   * Start the workers
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.tick(), this.pollIntervalMs);
+    void this.tick();
+  }
+
+  /**
+   * Stop the workers and wait for in-flight jobs to finish
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await Promise.all(this.inFlight);
+  }
+
+  /**
+   * Whether the workers are running
+   */
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Run every job that is currently due and wait for them to finish.
+   * Useful for cron-style processing without starting the workers
+   */
+  async drain(): Promise<number> {
+    let processed = 0;
+    for (;;) {
+      const jobs = await this.storage.claimDue(Date.now(), this.concurrency);
+      if (jobs.length === 0) {
+        return processed;
+      }
+      await Promise.all(jobs.map((job) => this.runJob(job)));
+      processed += jobs.length;
+    }
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async getJob(id: string): Promise<OutboundJob | undefined> {
+    return this.storage.get(id);
+  }
+
+  /**
+   * List jobs, optionally filtered by status
+   */
+  async listJobs(status?: OutboundJobStatus): Promise<OutboundJob[]> {
+    return this.storage.list(status);
+  }
+
+  /**
+   * Get jobs that exhausted their attempts or failed with a non-retryable error
+   */
+  async getDeadLetters(): Promise<OutboundJob[]> {
+    return this.storage.list("dead");
+  }
+
+  /**
+   * Move a dead-lettered job back to pending with a fresh set of attempts
+   */
+  async requeue(id: string): Promise<OutboundJob | undefined> {
+    const job = await this.storage.get(id);
+    if (!job || job.status !== "dead") {
+      return undefined;
+    }
+
+    const now = new Date().toISOString();
+    job.status = "pending";
+    job.attempts = 0;
+    job.nextAttemptAt = now;
+    job.updatedAt = now;
+    await this.storage.update(job);
+    return job;
+  }
+
+  /**
+   * Remove a job from storage
+   */
+  async removeJob(id: string): Promise<void> {
+    await this.storage.remove(id);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const capacity = this.concurrency - this.inFlight.size;
+      if (capacity <= 0) {
+        return;
+      }
+
+      const jobs = await this.storage.claimDue(Date.now(), capacity);
+      for (const job of jobs) {
+        const running = this.runJob(job).finally(() => {
+          this.inFlight.delete(running);
+          if (this.timer) {
+            void this.tick();
+          }
+        });
+        this.inFlight.add(running);
+      }
+    } catch (error) {
+      this.logger.error(
+        "Outbound queue failed to claim jobs",
+        undefined,
+        undefined,
+        error instanceof Error ? error : undefined
+      );
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async runJob(job: OutboundJob): Promise<void> {
+    job.attempts++;
+
+    let result: SendMessageResponse;
+    try {
+      result = await this.dispatch(job.message);
+    } catch (error) {
+      result = {
+        success: false,
+        error: {
+          code: error instanceof MessageMeshError ? error.code : "UNKNOWN_ERROR",
+          message: error instanceof Error ? error.message : String(error),
+          platform: job.message.platform,
+        },
+      };
+    }
+
+    const now = Date.now();
+    job.updatedAt = new Date(now).toISOString();
+    job.result = result;
+
+    if (result.success) {
+      job.status = "completed";
+      job.lastError = undefined;
+    } else {
+      const error = {
+        code: result.error?.code ?? "UNKNOWN_ERROR",
+        message: result.error?.message ?? "Send failed",
+      };
+      job.lastError = error;
+
+      if (job.attempts < job.maxAttempts && this.isRetryable(error)) {
+        const delay = Math.min(this.baseDelayMs * Math.pow(2, job.attempts - 1), this.maxDelayMs);
+        job.status = "pending";
+        job.nextAttemptAt = new Date(now + delay / 2 + (Math.random() * delay) / 2).toISOString();
+      } else {
+        job.status = "dead";
+        this.logger.warn(
+          `Outbound job dead-lettered after ${job.attempts} attempts: ${error.code}`,
+          job.message.platform,
+          { jobId: job.id, method: job.message.method }
+        );
+      }
+    }
+
+    await this.storage.update(job);
+  }
+
+  private dispatch(message: OutboundMessage): Promise<SendMessageResponse> {
+    const service = this.services[message.platform] as unknown as Record<
+      string,
+      (options: unknown) => Promise<SendMessageResponse>
+    >;
+    const send = service[message.method];
+
+    if (typeof send !== "function") {
+      throw new MessageMeshError(
+        "INVALID_QUEUE_JOB",
+        message.platform,
+        `Unsupported queue job: ${message.platform}.${message.method}`
+      );
+    }
+    return send.call(service, message.options);
+  }
+
+  private static defaultIsRetryable(error: { code: string; message: string }): boolean {
+    if (
+      OutboundQueue.RETRYABLE_CODES.includes(error.code) ||
+      /^HTTP_(429|5\d\d)$/.test(error.code)
+    ) {
+      return true;
+    }
+
+    // Graph API throttling is usually reported as HTTP 400 with an error code in the body
+    const { errorCode } = DefaultRetryPolicy.parseGraphError(
+      error.message.replace(/^HTTP \d+: /, "")
+    );
+    return errorCode !== undefined && RETRYABLE_GRAPH_ERROR_CODES.includes(errorCode);
+  }
+}
@@ -13,6 +13,8 @@ export interface PerformanceMetrics {
   cacheHits: number;
   cacheMisses: number;
   cacheHitRate: number;
+  retryCount: number;
+  duplicateWebhookCount: number;
 }
 
 export interface RequestMetrics {
@@ -24,6 +26,15 @@ export interface RequestMetrics {
   success: boolean;
   error?: string;
   cacheHit?: boolean;
+  retries?: number;
+}
+
+export interface RetryAttemptDetails {
+  attempt: number; // 1-based number of the attempt that failed
+  delayMs: number;
+  reason: string;
+  status?: number;
+  errorCode?: number;
 }
 
 /**
@@ -100,7 +111,10 @@ export class PerformanceMonitor {
   private cache = new ResponseCache();
   private maxRequestHistory = 1000;
 
-  private constructor() {
+  /**
+   * Create an isolated monitor; getInstance() returns the shared default
+   */
+  constructor() {
     // Initialize metrics for each platform
     const platforms: Platform[] = ["whatsapp", "messenger", "instagram"];
     for (const platform of platforms) {
@@ -114,6 +128,8 @@ export class PerformanceMonitor {
         cacheHits: 0,
         cacheMisses: 0,
         cacheHitRate: 0,
+        retryCount: 0,
+        duplicateWebhookCount: 0,
       });
     }
   }
@@ -172,6 +188,33 @@ export class PerformanceMonitor {
     this.updateMetrics(request);
   }
 
+  /**
+   * Record a retried attempt for an in-flight request
+   */
+  recordRetry(requestId: string, platform: Platform, details: RetryAttemptDetails): void {
+    const metrics = this.metrics.get(platform);
+    if (metrics) {
+      metrics.retryCount++;
+    }
+
+    const request = this.requests.find(r => 
+      `${r.platform}-${r.method}-${r.startTime}` === requestId.substring(0, requestId.lastIndexOf('-'))
+    );
+    if (request) {
+      request.retries = Math.max(request.retries ?? 0, details.attempt);
+    }
+  }
+
+  /**
+   * Record a redelivered webhook event that was skipped as a duplicate
+   */
+  recordDuplicateWebhook(platform: Platform): void {
+    const metrics = this.metrics.get(platform);
+    if (metrics) {
+      metrics.duplicateWebhookCount++;
+    }
+  }
+
   /**
    * Update platform metrics
    */
@@ -252,6 +295,8 @@ export class PerformanceMonitor {
         cacheHits: 0,
         cacheMisses: 0,
         cacheHitRate: 0,
+        retryCount: 0,
+        duplicateWebhookCount: 0,
       });
     }
     this.requests = [];
@@ -307,15 +352,19 @@ export class PerformanceMonitor {
     overallErrorRate: number;
     averageResponseTime: number;
     cacheEfficiency: number;
-    platformBreakdown: Record<Platform, { requests: number; errors: number; avgResponseTime: number }>;
+    totalRetries: number;
+    totalDuplicateWebhooks: number;
+    platformBreakdown: Record<Platform, { requests: number; errors: number; avgResponseTime: number; retries: number; duplicateWebhooks: number }>;
   } {
     let totalRequests = 0;
     let totalErrors = 0;
     let totalResponseTime = 0;
     let totalCacheHits = 0;
     let totalCacheRequests = 0;
+    let totalRetries = 0;
+    let totalDuplicateWebhooks = 0;
 
-    const platformBreakdown = {} as Record<Platform, { requests: number; errors: number; avgResponseTime: number }>;
+    const platformBreakdown = {} as Record<Platform, { requests: number; errors: number; avgResponseTime: number; retries: number; duplicateWebhooks: number }>;
 
     for (const [platform, metrics] of this.metrics.entries()) {
       totalRequests += metrics.requestCount;
@@ -323,11 +372,15 @@ export class PerformanceMonitor {
       totalResponseTime += metrics.totalResponseTime;
       totalCacheHits += metrics.cacheHits;
       totalCacheRequests += metrics.cacheHits + metrics.cacheMisses;
+      totalRetries += metrics.retryCount;
+      totalDuplicateWebhooks += metrics.duplicateWebhookCount;
 
       platformBreakdown[platform] = {
         requests: metrics.requestCount,
         errors: metrics.errorCount,
         avgResponseTime: metrics.averageResponseTime,
+        retries: metrics.retryCount,
+        duplicateWebhooks: metrics.duplicateWebhookCount,
       };
     }
 
@@ -337,6 +390,8 @@ export class PerformanceMonitor {
       overallErrorRate: totalRequests > 0 ? totalErrors / totalRequests : 0,
       averageResponseTime: totalRequests > 0 ? totalResponseTime / totalRequests : 0,
       cacheEfficiency: totalCacheRequests > 0 ? totalCacheHits / totalCacheRequests : 0,
+      totalRetries,
+      totalDuplicateWebhooks,
       platformBreakdown,
     };
   }
@@ -51,8 +51,8 @@ export const PLATFORM_CAPABILITIES: Record<Platform, PlatformCapabilities> = {
     
     // Advanced features
     sendTemplate: true,
-    markAsRead: false, // Not implemented yet
-    typing: false, // Not implemented yet
+    markAsRead: true,
+    typing: true,
     deliveryReceipts: false, // Not implemented yet
     
     // Limits
@@ -87,8 +87,8 @@ export const PLATFORM_CAPABILITIES: Record<Platform, PlatformCapabilities> = {
     
     // Advanced features
     sendTemplate: false, // Not implemented yet
-    markAsRead: false, // Not implemented yet
-    typing: false, // Not implemented yet
+    markAsRead: true,
+    typing: true,
     deliveryReceipts: false, // Not implemented yet
     
     // Limits
@@ -109,27 +109,28 @@ export const PLATFORM_CAPABILITIES: Record<Platform, PlatformCapabilities> = {
     // Basic messaging
     sendTextMessage: true,
     sendEmoji: true,
-    replyToMessage: false, // Not implemented yet
-    sendReaction: false, // Not implemented yet
+    replyToMessage: true,
+    sendReaction: true, // "react" / "unreact" sender actions
     
     // Media
-    sendImage: false, // Not implemented yet
-    sendVideo: false, // Not implemented yet
-    sendAudio: false, // Not implemented yet
+    sendImage: true,
+    sendVideo: true,
+    sendAudio: true,
     sendDocument: false, // Not implemented yet
     
     // Advanced features
-    sendTemplate: false, // Not implemented yet
-    markAsRead: false, // Not implemented yet
-    typing: false, // Not implemented yet
+    sendTemplate: true, // Generic template (carousel)
+    markAsRead: true,
+    typing: true,
     deliveryReceipts: false, // Not implemented yet
     
     // Limits
     maxMessageLength: 1000,
-    maxMediaSize: 8, // 8MB for Instagram
+    maxMediaSize: 8, // 8MB for Instagram images; audio and video allow 25MB
     supportedFileTypes: [
-      "image/jpeg", "image/png",
-      "video/mp4"
+      "image/jpeg", "image/png", "image/gif",
+      "video/mp4", "video/quicktime", "video/webm",
+      "audio/aac", "audio/mp4", "audio/wav"
     ],
     
     // Rate limits
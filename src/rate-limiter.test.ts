@@ -0,0 +1,106 @@
+import { describe, it, expect } from "bun:test";
+import { RateLimiter } from "./rate-limiter.js";
+import { MessageMeshError } from "./types.js";
+import { HttpClient } from "./http-client.js";
+import { FakeGraphApi } from "./fake-graph-api.js";
+import { Logger } from "./logger.js";
+import { MessengerService } from "./services/messenger.js";
+import { InstagramService } from "./services/instagram.js";
+
+describe("RateLimiter", () => {
+  it("should reject once a sender's burst is used up in reject mode", async () => {
+    const limiter = new RateLimiter({
+      mode: "reject",
+      limits: { whatsapp: { requestsPerMinute: 60, burst: 2 } },
+    });
+
+    await limiter.acquire("whatsapp", "123");
+    await limiter.acquire("whatsapp", "123");
+
+    try {
+      await limiter.acquire("whatsapp", "123");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MessageMeshError);
+      expect((error as MessageMeshError).code).toBe("RATE_LIMIT_EXCEEDED");
+    }
+
+    // Other senders have their own bucket
+    await limiter.acquire("whatsapp", "456");
+
+    const stats = limiter.getStats();
+    expect(stats.allowed).toBe(3);
+    expect(stats.rejected).toBe(1);
+    expect(stats.activeSenders).toBe(2);
+  });
+
+  it("should queue requests until a token is available in queue mode", async () => {
+    const limiter = new RateLimiter({
+      limits: { messenger: { requestsPerMinute: 6000, burst: 1 } },
+    });
+
+    const start = Date.now();
+    await limiter.acquire("messenger", "page");
+    await limiter.acquire("messenger", "page");
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(8);
+    expect(limiter.getStats().queued).toBe(1);
+  });
+
+  it("should derive the sender from Graph API send URLs only", () => {
+    expect(RateLimiter.getSenderKey("https://graph.facebook.com/v23.0/12345/messages")).toBe(
+      "12345"
+    );
+    expect(
+      RateLimiter.getSenderKey("https://graph.facebook.com/v23.0/12345/message_attachments")
+    ).toBe("12345");
+    expect(RateLimiter.getSenderKey("https://graph.instagram.com/me/messages")).toBe("me");
+    expect(RateLimiter.getSenderKey("https://graph.facebook.com/v23.0/me")).toBeUndefined();
+    expect(
+      RateLimiter.getSenderKey("https://graph.facebook.com/v23.0/12345/message_templates")
+    ).toBeUndefined();
+    expect(RateLimiter.getSenderKey("https://graph.facebook.com/v23.0/media_1")).toBeUndefined();
+  });
+
+  it("should not let two pages or accounts throttle each other", async () => {
+    const graph = new FakeGraphApi({ meIds: { token_a: "page_a", token_b: "page_b" } });
+    const logger = new Logger({ enableConsole: false });
+    const httpClient = new HttpClient({
+      transport: graph.transport,
+      logger,
+      rateLimit: {
+        mode: "reject",
+        limits: {
+          messenger: { requestsPerMinute: 1, burst: 1 },
+          instagram: { requestsPerMinute: 1, burst: 1 },
+        },
+      },
+    });
+    const messenger = new MessengerService(httpClient, { logger });
+    const instagram = new InstagramService(httpClient, { logger });
+    const send = (service: MessengerService | InstagramService, accessToken: string) =>
+      service.sendMessage({ accessToken, to: "2000000001", message: "Hi" });
+
+    const results = [
+      await send(messenger, "token_a"),
+      await send(messenger, "token_b"),
+      await send(instagram, "token_a"),
+      await send(messenger, "token_a"),
+    ];
+
+    expect(results.map((result) => result.error?.code)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      "RATE_LIMIT_EXCEEDED",
+    ]);
+    expect(graph.sentMessages.map((message) => message.sender)).toEqual([
+      "page_a",
+      "page_b",
+      "page_a",
+    ]);
+    // The /me lookup is cached per token and never takes a token
+    expect(graph.getRequests({ method: "GET", path: "/me" })).toHaveLength(3);
+    expect(httpClient.getRateLimiterStats()?.activeSenders).toBe(3);
+  });
+});
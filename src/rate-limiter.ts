@@ -0,0 +1,196 @@
+import type { Platform } from "./types.js";
+import { MessageMeshError } from "./types.js";
+import { PlatformCapabilitiesManager } from "./platform-capabilities.js";
+
+/**
+ * What to do when a sender has no tokens left
+ */
+export type RateLimitMode = "queue" | "reject";
+
+/**
+ * Rate limit for a single platform
+ */
+export interface PlatformRateLimit {
+  requestsPerMinute?: number; // Sustained rate (default: PLATFORM_CAPABILITIES defaultRateLimit)
+  burst?: number; // Bucket size (default: PLATFORM_CAPABILITIES burstRateLimit)
+}
+
+/**
+ * Client-side rate limiter configuration
+ */
+export interface RateLimiterConfig {
+  mode?: RateLimitMode; // Default: "queue"
+  maxQueueWaitMs?: number; // Reject queued requests that would wait longer (default: 60000)
+  limits?: Partial<Record<Platform, PlatformRateLimit>>;
+}
+
+/**
+ * Rate limiter statistics
+ */
+export interface RateLimiterStats {
+  mode: RateLimitMode;
+  allowed: number; // Requests sent without waiting
+  queued: number; // Requests that waited for a token
+  rejected: number;
+  totalWaitMs: number;
+  averageWaitMs: number;
+  activeSenders: number;
+  byPlatform: Record<Platform, { allowed: number; queued: number; rejected: number }>;
+}
+
+interface TokenBucket {
+  tokens: number; // May go negative while requests are queued
+  capacity: number;
+  refillPerMs: number;
+  lastRefill: number;
+}
+
+/**
+ * Token bucket rate limiter keyed by platform and sender
+ * (WhatsApp phoneNumberId, Messenger page ID or Instagram account ID)
+ */
+export class RateLimiter {
+  // Graph API edges that send on behalf of a sender and count against its budget
+  private static readonly SEND_EDGES = ["messages", "message_attachments"];
+
+  private buckets = new Map<string, TokenBucket>();
+  private readonly mode: RateLimitMode;
+  private readonly maxQueueWaitMs: number;
+  private readonly limits: Partial<Record<Platform, PlatformRateLimit>>;
+  private stats = RateLimiter.emptyStats();
+
+  constructor(config: RateLimiterConfig = {}) {
+    this.mode = config.mode ?? "queue";
+    this.maxQueueWaitMs = config.maxQueueWaitMs ?? 60000;
+    this.limits = config.limits ?? {};
+  }
+
+  /**
+   * Take a token for the sender, waiting for one in queue mode
+   */
+  async acquire(platform: Platform, sender: string): Promise<void> {
+    const bucket = this.getBucket(platform, sender);
+    this.refill(bucket);
+
+    const platformStats = this.stats.byPlatform[platform];
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      this.stats.allowed++;
+      if (platformStats) platformStats.allowed++;
+      return;
+    }
+
+    // Time until this request's token is available, behind any already queued requests
+    const waitMs = Math.ceil((1 - bucket.tokens) / bucket.refillPerMs);
+
+    if (this.mode === "reject" || waitMs > this.maxQueueWaitMs) {
+      this.stats.rejected++;
+      if (platformStats) platformStats.rejected++;
+      throw new MessageMeshError(
+        "RATE_LIMIT_EXCEEDED",
+        platform,
+        `Rate limit exceeded for sender ${sender}. Please wait ${Math.ceil(waitMs / 1000)} seconds before retrying`
+      );
+    }
+
+    // Reserve the token now so later callers queue behind this one
+    bucket.tokens -= 1;
+    this.stats.queued++;
+    this.stats.totalWaitMs += waitMs;
+    if (platformStats) platformStats.queued++;
+
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+
+  /**
+   * Get limiter statistics
+   */
+  getStats(): RateLimiterStats {
+    const waited = this.stats.queued;
+    return {
+      mode: this.mode,
+      allowed: this.stats.allowed,
+      queued: this.stats.queued,
+      rejected: this.stats.rejected,
+      totalWaitMs: this.stats.totalWaitMs,
+      averageWaitMs: waited > 0 ? this.stats.totalWaitMs / waited : 0,
+      activeSenders: this.buckets.size,
+      byPlatform: {
+        whatsapp: { ...this.stats.byPlatform.whatsapp },
+        messenger: { ...this.stats.byPlatform.messenger },
+        instagram: { ...this.stats.byPlatform.instagram },
+      },
+    };
+  }
+
+  /**
+   * Reset buckets and statistics
+   */
+  reset(): void {
+    this.buckets.clear();
+    this.stats = RateLimiter.emptyStats();
+  }
+
+  /**
+   * Derive the sender ID from a Graph API send URL, e.g. /v23.0/{phoneNumberId}/messages.
+   * Other requests (lookups, media downloads, templates) return undefined and are not limited.
+   */
+  static getSenderKey(url: string): string | undefined {
+    try {
+      const segments = new URL(url).pathname.split("/").filter(Boolean);
+      if (segments[0] && /^v\d+(\.\d+)?$/.test(segments[0])) {
+        segments.shift();
+      }
+      const [sender, edge] = segments;
+      return segments.length === 2 && RateLimiter.SEND_EDGES.includes(edge ?? "")
+        ? sender
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getBucket(platform: Platform, sender: string): TokenBucket {
+    const key = `${platform}:${sender}`;
+    let bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      const defaults = PlatformCapabilitiesManager.getRateLimit(platform);
+      const limit = this.limits[platform] ?? {};
+      const capacity = limit.burst ?? defaults.burst;
+      bucket = {
+        tokens: capacity,
+        capacity,
+        refillPerMs: (limit.requestsPerMinute ?? defaults.default) / 60000,
+        lastRefill: Date.now(),
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+
+  private refill(bucket: TokenBucket): void {
+    const now = Date.now();
+    bucket.tokens = Math.min(
+      bucket.capacity,
+      bucket.tokens + (now - bucket.lastRefill) * bucket.refillPerMs
+    );
+    bucket.lastRefill = now;
+  }
+
+  private static emptyStats() {
+    return {
+      allowed: 0,
+      queued: 0,
+      rejected: 0,
+      totalWaitMs: 0,
+      byPlatform: {
+        whatsapp: { allowed: 0, queued: 0, rejected: 0 },
+        messenger: { allowed: 0, queued: 0, rejected: 0 },
+        instagram: { allowed: 0, queued: 0, rejected: 0 },
+      } as Record<Platform, { allowed: number; queued: number; rejected: number }>,
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { DefaultRetryPolicy } from "./retry-policy.js";
+import { HttpClient } from "./http-client.js";
+import { MessageMeshError } from "./types.js";
+
+const context = {
+  platform: "whatsapp" as const,
+  method: "POST",
+  url: "https://graph.facebook.com/v23.0/123/messages",
+  attempt: 0,
+  elapsedMs: 0,
+};
+
+const httpFailure = (status: number, body = "", headers: Record<string, string> = {}) => ({
+  type: "http" as const,
+  status,
+  headers: new Headers(headers),
+  body,
+  ...DefaultRetryPolicy.parseGraphError(body),
+});
+
+describe("DefaultRetryPolicy", () => {
+  const policy = new DefaultRetryPolicy({ jitterRatio: 0 });
+
+  it("should retry 5xx responses with exponential backoff", () => {
+    const decision = policy.shouldRetry(httpFailure(503), { ...context, attempt: 2 });
+
+    expect(decision.retry).toBe(true);
+    expect(decision.delayMs).toBe(4000);
+  });
+
+  it("should retry throttling error codes returned with a 400 status", () => {
+    const body = JSON.stringify({ error: { code: 130429, message: "Rate limit hit" } });
+    const decision = policy.shouldRetry(httpFailure(400, body), context);
+
+    expect(decision.retry).toBe(true);
+    expect(decision.reason).toContain("130429");
+  });
+
+  it("should not retry other client errors", () => {
+    const body = JSON.stringify({ error: { code: 100, message: "Invalid parameter" } });
+
+    expect(policy.shouldRetry(httpFailure(400, body), context).retry).toBe(false);
+  });
+
+  it("should honour Retry-After and the usage headers", () => {
+    const retryAfter = policy.shouldRetry(httpFailure(429, "", { "Retry-After": "7" }), context);
+    const usage = policy.shouldRetry(
+      httpFailure(429, "", {
+        "X-Business-Use-Case-Usage": JSON.stringify({
+          "123": [{ type: "messenger", call_count: 100, estimated_time_to_regain_access: 0.5 }],
+        }),
+      }),
+      context
+    );
+
+    expect(retryAfter.delayMs).toBe(7000);
+    expect(usage.delayMs).toBe(30000);
+  });
+
+  it("should stop once the elapsed time budget would be exceeded", () => {
+    const capped = new DefaultRetryPolicy({ maxElapsedMs: 5000 });
+    const decision = capped.shouldRetry(httpFailure(429, "", { "Retry-After": "10" }), context);
+
+    expect(decision.retry).toBe(false);
+  });
+});
+
+describe("HttpClient retries", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should retry a 503 and return the eventual success", async () => {
+    let calls = 0;
+    globalThis.fetch = (async () => {
+      calls++;
+      return calls === 1
+        ? new Response("Service Unavailable", { status: 503 })
+        : new Response(JSON.stringify({ ok: true }), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    const client = new HttpClient({ retryPolicy: new DefaultRetryPolicy({ baseDelayMs: 1 }) });
+    const response = await client.get(context.url, {}, "whatsapp");
+
+    expect(response.status).toBe(200);
+    expect(calls).toBe(2);
+  });
+
+  it("should surface the last HTTP error once retries are exhausted", async () => {
+    globalThis.fetch = (async () =>
+      new Response("Bad Gateway", { status: 502 })) as unknown as typeof fetch;
+
+    const client = new HttpClient({
+      retryPolicy: new DefaultRetryPolicy({ maxRetries: 1, baseDelayMs: 1 }),
+    });
+
+    try {
+      await client.get(context.url, {}, "whatsapp");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MessageMeshError);
+      expect((error as MessageMeshError).code).toBe("HTTP_502");
+    }
+  });
+});
@@ -0,0 +1,227 @@
+import type { Platform } from "./types.js";
+
+/**
+ * Failure observed for a single request attempt
+ */
+export type RetryFailure =
+  | {
+      type: "http";
+      status: number;
+      headers: Headers;
+      body: string;
+      errorCode?: number; // Graph API error.code
+      errorSubcode?: number; // Graph API error.error_subcode
+    }
+  | { type: "timeout"; error: Error }
+  | { type: "network"; error: Error };
+
+/**
+ * Information about the request being retried
+ */
+export interface RetryContext {
+  platform: Platform;
+  method: string;
+  url: string;
+  attempt: number; // Zero-based index of the attempt that just failed
+  elapsedMs: number; // Time since the first attempt started
+}
+
+/**
+ * Outcome of a retry decision
+ */
+export interface RetryDecision {
+  retry: boolean;
+  delayMs: number;
+  reason: string;
+}
+
+/**
+ * Pluggable retry policy used by HttpClient
+ */
+export interface RetryPolicy {
+  shouldRetry(failure: RetryFailure, context: RetryContext): RetryDecision;
+}
+
+/**
+ * Configuration for the default retry policy
+ */
+export interface RetryPolicyOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxElapsedMs?: number; // Total time budget across all attempts
+  jitterRatio?: number; // 0 = no jitter, 1 = full jitter
+  retryableStatuses?: number[];
+  retryableErrorCodes?: number[];
+  retryOnTimeout?: boolean; // Off by default: a timed out send may still have been delivered
+}
+
+/**
+ * Graph API error codes that signal throttling or a transient failure
+ * - 1, 2: unknown error / service temporarily unavailable
+ * - 4: application request limit reached
+ * - 17: user request limit reached
+ * - 32: page request limit reached
+ * - 613: calls within one hour exceeded
+ * - 80007: WhatsApp Business Account / Instagram rate limit
+ * - 130429: Cloud API throughput reached
+ */
+export const RETRYABLE_GRAPH_ERROR_CODES = [1, 2, 4, 17, 32, 613, 80007, 130429];
+
+export const RETRYABLE_HTTP_STATUSES = [429, 500, 502, 503, 504];
+
+/**
+ * Default retry policy: retries throttling, 5xx and network failures with
+ * jittered exponential backoff, honouring Retry-After and Graph API usage headers
+ */
+export class DefaultRetryPolicy implements RetryPolicy {
+  private readonly options: Required<RetryPolicyOptions>;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.options = {
+      maxRetries: options.maxRetries ?? 3,
+      baseDelayMs: options.baseDelayMs ?? 1000,
+      maxDelayMs: options.maxDelayMs ?? 30000,
+      maxElapsedMs: options.maxElapsedMs ?? 60000,
+      jitterRatio: Math.min(Math.max(options.jitterRatio ?? 0.5, 0), 1),
+      retryableStatuses: options.retryableStatuses ?? RETRYABLE_HTTP_STATUSES,
+      retryableErrorCodes: options.retryableErrorCodes ?? RETRYABLE_GRAPH_ERROR_CODES,
+      retryOnTimeout: options.retryOnTimeout ?? false,
+    };
+  }
+
+  shouldRetry(failure: RetryFailure, context: RetryContext): RetryDecision {
+    if (context.attempt >= this.options.maxRetries) {
+      return { retry: false, delayMs: 0, reason: "max retries reached" };
+    }
+
+    let reason: string;
+    let delayMs = this.getBackoffDelay(context.attempt);
+
+    switch (failure.type) {
+      case "network":
+        reason = `network error: ${failure.error.message}`;
+        break;
+
+      case "timeout":
+        if (!this.options.retryOnTimeout) {
+          return { retry: false, delayMs: 0, reason: "timeouts are not retried" };
+        }
+        reason = "timeout";
+        break;
+
+      case "http": {
+        const retryableCode =
+          failure.errorCode !== undefined &&
+          this.options.retryableErrorCodes.includes(failure.errorCode);
+        const retryableStatus = this.options.retryableStatuses.includes(failure.status);
+
+        if (!retryableCode && !retryableStatus) {
+          return {
+            retry: false,
+            delayMs: 0,
+            reason: `HTTP ${failure.status} is not retryable`,
+          };
+        }
+
+        reason = retryableCode
+          ? `Graph API error code ${failure.errorCode}`
+          : `HTTP ${failure.status}`;
+
+        const serverDelay =
+          DefaultRetryPolicy.parseRetryAfter(failure.headers) ??
+          DefaultRetryPolicy.parseUsageHeaders(failure.headers);
+        if (serverDelay !== undefined) {
+          delayMs = serverDelay;
+          reason += ` (server requested ${serverDelay}ms)`;
+        }
+        break;
+      }
+    }
+
+    if (context.elapsedMs + delayMs > this.options.maxElapsedMs) {
+      return {
+        retry: false,
+        delayMs: 0,
+        reason: `retry budget of ${this.options.maxElapsedMs}ms exceeded after ${reason}`,
+      };
+    }
+
+    return { retry: true, delayMs, reason };
+  }
+
+  /**
+   * Exponential backoff with jitter, capped at maxDelayMs
+   */
+  private getBackoffDelay(attempt: number): number {
+    const exponential = Math.min(
+      this.options.baseDelayMs * Math.pow(2, attempt),
+      this.options.maxDelayMs
+    );
+    const jitter = exponential * this.options.jitterRatio * Math.random();
+    return Math.round(exponential - jitter);
+  }
+
+  /**
+   * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+   */
+  static parseRetryAfter(headers: Headers): number | undefined {
+    const value = headers.get("retry-after");
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Read the time to regain access from Graph API usage headers, in milliseconds
+   */
+  static parseUsageHeaders(headers: Headers): number | undefined {
+    const businessUsage = headers.get("x-business-use-case-usage");
+    if (!businessUsage) {
+      return undefined;
+    }
+
+    try {
+      const usage = JSON.parse(businessUsage) as Record<
+        string,
+        Array<{ estimated_time_to_regain_access?: number }>
+      >;
+      let minutes = 0;
+      for (const entries of Object.values(usage)) {
+        for (const entry of entries) {
+          minutes = Math.max(minutes, entry.estimated_time_to_regain_access ?? 0);
+        }
+      }
+      return minutes > 0 ? minutes * 60 * 1000 : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Extract the Graph API error code and subcode from an error response body
+   */
+  static parseGraphError(body: string): { errorCode?: number; errorSubcode?: number } {
+    try {
+      const parsed = JSON.parse(body) as { error?: { code?: number; error_subcode?: number } };
+      return {
+        errorCode: parsed.error?.code,
+        errorSubcode: parsed.error?.error_subcode,
+      };
+    } catch {
+      return {};
+    }
+  }
+}
@@ -228,9 +228,28 @@ export class SecurityUtils {
 }
 
 /**
- * Encryption utilities for secure token storage
+ * Encrypted body Meta posts to a WhatsApp Flows data exchange endpoint
+ */
+export interface EncryptedFlowRequest {
+  encrypted_flow_data: string; // Base64 AES-GCM ciphertext followed by the 16-byte tag
+  encrypted_aes_key: string; // Base64 RSA-OAEP (SHA-256) encrypted AES key
+  initial_vector: string; // Base64 IV
+}
+
+/**
+ * Decrypted flow request plus the key material needed to encrypt the response
+ */
+export interface DecryptedFlowRequest {
+  payload: any;
+  aesKey: Buffer;
+  iv: Buffer;
+}
+
+/**
+ * Encryption utilities for secure token storage and WhatsApp Flows data exchange
  */
 export class EncryptionUtils {
+  private static readonly GCM_TAG_LENGTH = 16;
   /**
    * Encrypt access token for secure storage
    */
@@ -272,4 +291,67 @@ export class EncryptionUtils {
       throw new Error("Failed to decrypt access token");
     }
   }
+
+  /**
+   * Decrypt a WhatsApp Flows data exchange request with the business's RSA private key
+   */
+  static decryptFlowRequest(
+    body: EncryptedFlowRequest,
+    privateKey: string,
+    passphrase?: string
+  ): DecryptedFlowRequest {
+    try {
+      const aesKey = crypto.privateDecrypt(
+        {
+          key: crypto.createPrivateKey({ key: privateKey, passphrase }),
+          padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+          oaepHash: "sha256",
+        },
+        Buffer.from(body.encrypted_aes_key, "base64")
+      );
+
+      const flowData = Buffer.from(body.encrypted_flow_data, "base64");
+      const iv = Buffer.from(body.initial_vector, "base64");
+      const tagStart = flowData.length - EncryptionUtils.GCM_TAG_LENGTH;
+
+      const decipher = crypto.createDecipheriv(
+        `aes-${aesKey.length * 8}-gcm` as crypto.CipherGCMTypes,
+        aesKey,
+        iv
+      );
+      decipher.setAuthTag(flowData.subarray(tagStart));
+      const decrypted = Buffer.concat([
+        decipher.update(flowData.subarray(0, tagStart)),
+        decipher.final(),
+      ]).toString("utf8");
+
+      return { payload: JSON.parse(decrypted), aesKey, iv };
+    } catch (error) {
+      throw new MessageMeshError(
+        "FLOW_DECRYPTION_FAILED",
+        "whatsapp",
+        "Failed to decrypt WhatsApp flow request",
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Encrypt a WhatsApp Flows data exchange response with the request's AES key and
+   * inverted IV. Returns the Base64 body to send as plain text.
+   */
+  static encryptFlowResponse(response: unknown, aesKey: Buffer, iv: Buffer): string {
+    const flippedIv = Buffer.from(iv.map((byte) => ~byte & 0xff));
+    const cipher = crypto.createCipheriv(
+      `aes-${aesKey.length * 8}-gcm` as crypto.CipherGCMTypes,
+      aesKey,
+      flippedIv
+    );
+
+    return Buffer.concat([
+      cipher.update(JSON.stringify(response), "utf8"),
+      cipher.final(),
+      cipher.getAuthTag(),
+    ]).toString("base64");
+  }
 }
\ No newline at end of file
@@ -0,0 +1,219 @@
+import { describe, it, expect } from "bun:test";
+import { InstagramService } from "./instagram.js";
+import { HttpClient } from "../http-client.js";
+import { FakeGraphApi } from "../fake-graph-api.js";
+import { Logger } from "../logger.js";
+import { AttachmentCache } from "../attachment-cache.js";
+
+const setup = () => {
+  const graph = new FakeGraphApi({ meId: "17841400000000000" });
+  const logger = new Logger({ enableConsole: false });
+  const service = new InstagramService(new HttpClient({ transport: graph.transport, logger }), {
+    attachmentCache: new AttachmentCache({ logger }),
+    logger,
+  });
+  return { graph, service };
+};
+
+const baseOptions = {
+  accessToken: "test_token",
+  to: "3000000001",
+};
+
+describe("InstagramService", () => {
+  it("should send quick replies, generic templates and media shares with the HUMAN_AGENT tag", async () => {
+    const { graph, service } = setup();
+
+    const quickReplies = await service.sendMessage({
+      ...baseOptions,
+      message: "Pick a size",
+      quickReplies: [
+        { title: "Small", payload: "SIZE_S" },
+        { title: "Large", payload: "SIZE_L" },
+      ],
+    });
+    const carousel = await service.sendGenericTemplate({
+      ...baseOptions,
+      tag: "HUMAN_AGENT",
+      elements: [
+        {
+          title: "Sneaker",
+          imageUrl: "https://example.com/sneaker.jpg",
+          defaultActionUrl: "https://example.com/sneaker",
+          buttons: [{ type: "postback", title: "Buy", payload: "BUY_SNEAKER" }],
+        },
+      ],
+    });
+    const share = await service.sendMediaShare({ ...baseOptions, postId: "17900000000000001" });
+
+    expect([quickReplies.success, carousel.success, share.success]).toEqual([true, true, true]);
+    expect(graph.sentMessages.map((message) => message.payload)).toMatchObject([
+      {
+        message: {
+          text: "Pick a size",
+          quick_replies: [
+            { content_type: "text", title: "Small", payload: "SIZE_S" },
+            { content_type: "text", title: "Large", payload: "SIZE_L" },
+          ],
+        },
+      },
+      {
+        messaging_type: "MESSAGE_TAG",
+        tag: "HUMAN_AGENT",
+        message: {
+          attachment: {
+            type: "template",
+            payload: {
+              template_type: "generic",
+              elements: [
+                {
+                  title: "Sneaker",
+                  image_url: "https://example.com/sneaker.jpg",
+                  default_action: { type: "web_url", url: "https://example.com/sneaker" },
+                  buttons: [{ type: "postback", title: "Buy", payload: "BUY_SNEAKER" }],
+                },
+              ],
+            },
+          },
+        },
+      },
+      { message: { attachment: { type: "MEDIA_SHARE", payload: { id: "17900000000000001" } } } },
+    ]);
+  });
+
+  it("should send mark_seen, typing_on and typing_off sender actions", async () => {
+    const { graph, service } = setup();
+
+    const results = [
+      await service.markAsRead(baseOptions),
+      await service.sendTypingIndicator({ ...baseOptions, isTyping: true }),
+      await service.sendTypingIndicator({ ...baseOptions, isTyping: false }),
+    ];
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(
+      graph.getRequests({ method: "POST", path: "/17841400000000000/messages" }).map((r) => r.body)
+    ).toEqual([
+      { recipient: { id: "3000000001" }, sender_action: "mark_seen" },
+      { recipient: { id: "3000000001" }, sender_action: "typing_on" },
+      { recipient: { id: "3000000001" }, sender_action: "typing_off" },
+    ]);
+    expect(graph.sentMessages).toHaveLength(0);
+  });
+
+  it("should react to and unreact from messages", async () => {
+    const { graph, service } = setup();
+
+    const reacted = await service.sendReaction({ ...baseOptions, messageId: "m_1" });
+    const removed = await service.removeReaction({ ...baseOptions, messageId: "m_1" });
+
+    expect(reacted.success).toBe(true);
+    expect(removed.success).toBe(true);
+    expect(
+      graph.getRequests({ method: "POST", path: "/17841400000000000/messages" }).map((r) => r.body)
+    ).toMatchObject([
+      { sender_action: "react", payload: { message_id: "m_1", reaction: "love" } },
+      { sender_action: "unreact", payload: { message_id: "m_1" } },
+    ]);
+  });
+
+  it("should set, read and delete ice breakers", async () => {
+    const { service } = setup();
+    const iceBreakers = [
+      { question: "Where is my order?", payload: "ORDER_STATUS" },
+      { question: "Do you ship abroad?", payload: "SHIPPING" },
+    ];
+
+    expect((await service.setIceBreakers({ accessToken: "test_token", iceBreakers })).success).toBe(
+      true
+    );
+    expect((await service.getIceBreakers("test_token")).iceBreakers).toEqual({
+      default: iceBreakers,
+    });
+    expect((await service.deleteIceBreakers("test_token")).success).toBe(true);
+    expect((await service.getIceBreakers("test_token")).iceBreakers).toEqual({});
+  });
+
+  it("should validate new message types before calling the API", async () => {
+    const { graph, service } = setup();
+
+    const results = await Promise.all([
+      service.sendMessage({
+        ...baseOptions,
+        message: "Pick one",
+        quickReplies: [{ title: "This title is far too long", payload: "A" }],
+      }),
+      service.sendGenericTemplate({
+        ...baseOptions,
+        elements: Array.from({ length: 11 }, (_, i) => ({ title: `Item ${i}` })),
+      }),
+      service.sendGenericTemplate({
+        ...baseOptions,
+        elements: [{ title: "Item", buttons: [{ type: "web_url", title: "Open" }] }],
+      }),
+      service.setIceBreakers({
+        accessToken: "test_token",
+        iceBreakers: Array.from({ length: 5 }, (_, i) => ({ question: `Q${i}`, payload: `P${i}` })),
+      }),
+      service.sendMediaShare({ ...baseOptions, postId: "" }),
+    ]);
+
+    expect(results.map((result) => result.error?.code)).toEqual([
+      "INVALID_QUICK_REPLIES",
+      "INVALID_TEMPLATE_ELEMENTS",
+      "INVALID_URL",
+      "INVALID_ICE_BREAKERS",
+      "INVALID_POST_ID",
+    ]);
+    expect(graph.requests).toHaveLength(0);
+  });
+
+  it("should send private replies to comments", async () => {
+    const { graph, service } = setup();
+
+    const result = await service.sendPrivateReply({
+      accessToken: "test_token",
+      commentId: "17865799348089039",
+      message: "Sent you the price in DMs",
+    });
+    const invalid = await service.sendPrivateReply({
+      accessToken: "test_token",
+      commentId: "not-a-comment",
+      message: "Hi",
+    });
+
+    expect(result.success).toBe(true);
+    expect(graph.sentMessages[0]?.payload).toMatchObject({
+      recipient: { comment_id: "17865799348089039" },
+      message: { text: "Sent you the price in DMs" },
+    });
+    expect(invalid.error?.code).toBe("INVALID_COMMENT_ID");
+    expect(graph.sentMessages).toHaveLength(1);
+  });
+
+  it("should upload attachments once and reuse their IDs", async () => {
+    const { graph, service } = setup();
+    const photo = new Uint8Array([137, 80, 78, 71]);
+    const upload = {
+      accessToken: "test_token",
+      type: "image" as const,
+      file: photo,
+      mimeType: "image/png",
+      filename: "photo.png",
+    };
+
+    const first = await service.uploadAttachment(upload);
+    const second = await service.uploadAttachment({ ...upload, file: new Blob([photo]) });
+    const media = { ...baseOptions, type: "image" as const, mediaUrl: "https://example.com/a.png" };
+    const firstSend = await service.sendMedia(media);
+    await service.sendMedia(media);
+
+    expect(first).toMatchObject({ success: true, cached: false });
+    expect(second).toEqual({ success: true, attachmentId: first.attachmentId, cached: true });
+    expect(graph.getRequests({ path: "/17841400000000000/message_attachments" })).toHaveLength(1);
+    expect(graph.sentMessages.map(({ payload }) => payload.message.attachment.payload)).toEqual([
+      { url: "https://example.com/a.png", is_reusable: true },
+      { attachment_id: firstSend.attachmentId },
+    ]);
+  });
+});
@@ -1,9 +1,22 @@
-import type { IInstagramService } from "../interfaces.js";
+import type { IInstagramService, ServiceDependencies } from "../interfaces.js";
 import type {
   SendMessageResponse,
   InstagramMessageOptions,
+  InstagramMessageTag,
+  MessengerMessagingType,
   InstagramMediaOptions,
   InstagramReplyOptions,
+  InstagramPrivateReplyOptions,
+  InstagramMarkAsReadOptions,
+  InstagramTypingIndicatorOptions,
+  InstagramQuickReply,
+  InstagramGenericTemplateOptions,
+  InstagramMediaShareOptions,
+  InstagramReactionOptions,
+  InstagramRemoveReactionOptions,
+  InstagramIceBreaker,
+  InstagramIceBreakersOptions,
+  InstagramIceBreakersResponse,
   InstagramTemplateCreateOptions,
   InstagramTemplateUpdateOptions,
   InstagramTemplateDeleteOptions,
@@ -13,10 +26,16 @@ import type {
   InstagramTemplateListResponse,
   InstagramTemplate,
   InstagramTemplateComponent,
+  InstagramAttachmentUploadOptions,
+  AttachmentUploadResponse,
 } from "../types.js";
 import { HttpClient } from "../http-client.js";
 import { MessageMeshError } from "../types.js";
 import { SecurityUtils } from "../security.js";
+import { Logger } from "../logger.js";
+import { PlatformCapabilitiesManager } from "../platform-capabilities.js";
+import { AttachmentCache, type AttachmentReference } from "../attachment-cache.js";
+import { readMediaSource, getMediaSourceFilename } from "../media-source.js";
 
 interface InstagramApiResponse {
   id?: string;
@@ -40,8 +59,13 @@ interface InstagramApiResponse {
 
 export class InstagramService implements IInstagramService {
   private static readonly BASE_URL = "https://graph.instagram.com/v23.0";
+  // Instagram account ID per access token, so sends skip the /me lookup after the first one
+  private readonly accountIds = new Map<string, string>();
 
-  constructor(private httpClient: HttpClient) {}
+  constructor(
+    private httpClient: HttpClient,
+    private deps: ServiceDependencies = {}
+  ) {}
 
   async validateAccessToken(accessToken: string): Promise<boolean> {
     try {
@@ -63,12 +87,26 @@ export class InstagramService implements IInstagramService {
       this.validateMessageOptions(options);
 
       const instagramAccountId = await this.extractInstagramAccountId(options.accessToken);
+      const messaging = await this.resolveMessagingType(
+        options.to,
+        instagramAccountId,
+        options.messagingType,
+        options.tag
+      );
       const payload = {
         recipient: {
           id: options.to,
         },
+        ...messaging,
         message: {
           text: options.message,
+          ...(options.quickReplies && {
+            quick_replies: options.quickReplies.map((quickReply) => ({
+              content_type: "text",
+              title: quickReply.title,
+              payload: quickReply.payload,
+            })),
+          }),
         },
         metadata: options.metadata ? JSON.stringify(options.metadata) : undefined,
       };
@@ -85,10 +123,11 @@ export class InstagramService implements IInstagramService {
 
       if (response.status === 200) {
         const data = (await response.json()) as { message_id?: string };
-        return {
-          success: true,
-          messageId: data.message_id,
-        };
+        return this.trackOutbound(
+          { success: true, messageId: data.message_id },
+          options.to,
+          instagramAccountId
+        );
       }
 
       throw new MessageMeshError(
@@ -102,10 +141,27 @@ export class InstagramService implements IInstagramService {
   }
 
   async sendMedia(options: InstagramMediaOptions): Promise<SendMessageResponse> {
+    let cachedReference: AttachmentReference | undefined;
+
     try {
       this.validateMediaOptions(options);
 
       const instagramAccountId = await this.extractInstagramAccountId(options.accessToken);
+      const messaging = await this.resolveMessagingType(
+        options.to,
+        instagramAccountId,
+        options.messagingType,
+        options.tag
+      );
+      const reference: AttachmentReference | undefined = options.mediaUrl
+        ? {
+            platform: "instagram",
+            ownerId: instagramAccountId,
+            type: options.type,
+            url: options.mediaUrl,
+          }
+        : undefined;
+      const cachedId = reference && (await this.deps.attachmentCache?.get(reference));
 
       // Build attachment object based on media type
       const attachment: {
@@ -120,8 +176,11 @@ export class InstagramService implements IInstagramService {
         payload: {},
       };
 
-      // Use media URL or media ID
-      if (options.mediaUrl) {
+      // Use a cached attachment ID for a URL sent before, else the media URL or media ID
+      if (cachedId) {
+        attachment.payload.attachment_id = cachedId;
+        cachedReference = reference;
+      } else if (options.mediaUrl) {
         attachment.payload.url = options.mediaUrl;
         attachment.payload.is_reusable = true;
       } else if (options.mediaId) {
@@ -144,6 +203,7 @@ export class InstagramService implements IInstagramService {
         recipient: {
           id: options.to,
         },
+        ...messaging,
         message,
         metadata: options.metadata ? JSON.stringify(options.metadata) : undefined,
       };
@@ -160,11 +220,18 @@ export class InstagramService implements IInstagramService {
 
       if (response.status === 200) {
         const data = (await response.json()) as { message_id?: string; attachment_id?: string };
-        return {
-          success: true,
-          messageId: data.message_id,
-          attachmentId: data.attachment_id,
-        };
+        if (reference && !cachedId && data.attachment_id) {
+          await this.deps.attachmentCache?.set(reference, data.attachment_id);
+        }
+        return this.trackOutbound(
+          {
+            success: true,
+            messageId: data.message_id,
+            attachmentId: data.attachment_id ?? cachedId,
+          },
+          options.to,
+          instagramAccountId
+        );
       }
 
       throw new MessageMeshError(
@@ -173,6 +240,10 @@ export class InstagramService implements IInstagramService {
         `Failed to send media: ${response.status}`
       );
     } catch (error) {
+      // Graph rejected the cached attachment ID; the next send uploads the URL again
+      if (cachedReference && AttachmentCache.isInvalidAttachmentError(error)) {
+        await this.deps.attachmentCache?.delete(cachedReference);
+      }
       return this.handleError(error);
     }
   }
@@ -182,10 +253,17 @@ export class InstagramService implements IInstagramService {
       this.validateReplyOptions(options);
 
       const instagramAccountId = await this.extractInstagramAccountId(options.accessToken);
+      const messaging = await this.resolveMessagingType(
+        options.to,
+        instagramAccountId,
+        options.messagingType,
+        options.tag
+      );
       const payload = {
         recipient: {
           id: options.to,
         },
+        ...messaging,
         message: {
           text: options.message,
           reply_to: {
@@ -207,16 +285,465 @@ export class InstagramService implements IInstagramService {
 
       if (response.status === 200) {
         const data = (await response.json()) as { message_id?: string };
+        return this.trackOutbound(
+          { success: true, messageId: data.message_id },
+          options.to,
+          instagramAccountId
+        );
+      }
+
+      throw new MessageMeshError(
+        "SEND_FAILED",
+        "instagram",
+        `Failed to send reply: ${response.status}`
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Reply privately to a public comment. Each comment accepts one private reply,
+   * sent within 7 days of the comment; the 24-hour window does not apply
+   */
+  async sendPrivateReply(options: InstagramPrivateReplyOptions): Promise<SendMessageResponse> {
+    try {
+      this.validatePrivateReplyOptions(options);
+
+      const instagramAccountId = await this.extractInstagramAccountId(options.accessToken);
+      const payload = {
+        recipient: {
+          comment_id: options.commentId,
+        },
+        message: {
+          text: options.message,
+        },
+        metadata: options.metadata ? JSON.stringify(options.metadata) : undefined,
+      };
+
+      const response = await this.httpClient.post(
+        `${InstagramService.BASE_URL}/${instagramAccountId}/messages`,
+        JSON.stringify(payload),
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        "instagram"
+      );
+
+      if (response.status === 200) {
+        const data = (await response.json()) as { message_id?: string; recipient_id?: string };
+        return this.trackOutbound(
+          { success: true, messageId: data.message_id },
+          data.recipient_id ?? options.commentId,
+          instagramAccountId
+        );
+      }
+
+      throw new MessageMeshError(
+        "SEND_FAILED",
+        "instagram",
+        `Failed to send private reply: ${response.status}`
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Send a generic template; several elements are shown as a horizontal carousel
+   */
+  async sendGenericTemplate(
+    options: InstagramGenericTemplateOptions
+  ): Promise<SendMessageResponse> {
+    try {
+      this.validateGenericTemplateOptions(options);
+
+      return await this.sendAttachment(
+        options,
+        {
+          type: "template",
+          payload: {
+            template_type: "generic",
+            elements: options.elements.map((element) => ({
+              title: element.title,
+              ...(element.subtitle && { subtitle: element.subtitle }),
+              ...(element.imageUrl && { image_url: element.imageUrl }),
+              ...(element.defaultActionUrl && {
+                default_action: { type: "web_url", url: element.defaultActionUrl },
+              }),
+              ...(element.buttons && {
+                buttons: element.buttons.map((button) => ({
+                  type: button.type,
+                  title: button.title,
+                  ...(button.url && { url: button.url }),
+                  ...(button.payload && { payload: button.payload }),
+                })),
+              }),
+            })),
+          },
+        },
+        "generic template"
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Share a post published by the sending Instagram account
+   */
+  async sendMediaShare(options: InstagramMediaShareOptions): Promise<SendMessageResponse> {
+    try {
+      this.validateMediaShareOptions(options);
+
+      return await this.sendAttachment(
+        options,
+        {
+          type: "MEDIA_SHARE",
+          payload: { id: options.postId },
+        },
+        "media share"
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * React to a message. Reactions are sender actions and are not subject to the
+   * messaging window
+   */
+  async sendReaction(options: InstagramReactionOptions): Promise<SendMessageResponse> {
+    if (!options.messageId?.trim()) {
+      return this.handleError(
+        new MessageMeshError("INVALID_MESSAGE_ID", "instagram", "Message ID is required")
+      );
+    }
+    return this.sendSenderAction(options.accessToken, options.to, "react", {
+      message_id: options.messageId,
+      reaction: options.reaction ?? "love",
+    });
+  }
+
+  /**
+   * Remove a reaction previously sent to a message
+   */
+  async removeReaction(options: InstagramRemoveReactionOptions): Promise<SendMessageResponse> {
+    if (!options.messageId?.trim()) {
+      return this.handleError(
+        new MessageMeshError("INVALID_MESSAGE_ID", "instagram", "Message ID is required")
+      );
+    }
+    return this.sendSenderAction(options.accessToken, options.to, "unreact", {
+      message_id: options.messageId,
+    });
+  }
+
+  /**
+   * Upload an attachment from a URL or a file and return its reusable attachment ID.
+   * Uploads of a URL or file contents seen before return the cached ID instead.
+   */
+  async uploadAttachment(
+    options: InstagramAttachmentUploadOptions
+  ): Promise<AttachmentUploadResponse> {
+    try {
+      this.validateAttachmentUploadOptions(options);
+
+      const instagramAccountId = await this.extractInstagramAccountId(options.accessToken);
+      const cache = options.cache === false ? undefined : this.deps.attachmentCache;
+      const blob = options.file
+        ? await readMediaSource(options.file, options.mimeType ?? "", "instagram")
+        : undefined;
+
+      if (blob) {
+        const maxBytes = PlatformCapabilitiesManager.getMaxMediaSize("instagram") * 1024 * 1024;
+        if (blob.size > maxBytes) {
+          throw new MessageMeshError(
+            "MEDIA_TOO_LARGE",
+            "instagram",
+            `Media size of ${blob.size} bytes exceeds the Instagram limit of ${maxBytes} bytes`
+          );
+        }
+      }
+
+      const reference: AttachmentReference = {
+        platform: "instagram",
+        ownerId: instagramAccountId,
+        type: options.type,
+        url: options.url,
+        contentHash: blob && cache ? await AttachmentCache.hashContent(blob) : undefined,
+      };
+      const cachedId = await cache?.get(reference);
+      if (cachedId) {
+        return { success: true, attachmentId: cachedId, cached: true };
+      }
+
+      const attachment = {
+        type: options.type,
+        payload: { ...(options.url && { url: options.url }), is_reusable: true },
+      };
+      const headers: Record<string, string> = { Authorization: `Bearer ${options.accessToken}` };
+      let body: string | FormData;
+      if (blob && options.file) {
+        const formData = new FormData();
+        formData.append("platform", "instagram");
+        formData.append("message", JSON.stringify({ attachment }));
+        formData.append("filedata", blob, options.filename ?? getMediaSourceFilename(options.file));
+        body = formData;
+      } else {
+        headers["Content-Type"] = "application/json";
+        body = JSON.stringify({ platform: "instagram", message: { attachment } });
+      }
+
+      const response = await this.httpClient.post(
+        `${InstagramService.BASE_URL}/${instagramAccountId}/message_attachments`,
+        body,
+        headers,
+        "instagram"
+      );
+
+      if (response.status === 200) {
+        const data = (await response.json()) as { attachment_id?: string };
+        if (data.attachment_id) {
+          await cache?.set(reference, data.attachment_id);
+          return { success: true, attachmentId: data.attachment_id, cached: false };
+        }
+      }
+
+      throw new MessageMeshError(
+        "ATTACHMENT_UPLOAD_FAILED",
+        "instagram",
+        `Failed to upload attachment: ${response.status}`
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async markAsRead(options: InstagramMarkAsReadOptions): Promise<SendMessageResponse> {
+    return this.sendSenderAction(options.accessToken, options.to, "mark_seen");
+  }
+
+  async sendTypingIndicator(
+    options: InstagramTypingIndicatorOptions
+  ): Promise<SendMessageResponse> {
+    return this.sendSenderAction(
+      options.accessToken,
+      options.to,
+      options.isTyping ? "typing_on" : "typing_off"
+    );
+  }
+
+  private async sendSenderAction(
+    accessToken: string,
+    to: string,
+    action: "mark_seen" | "typing_on" | "typing_off" | "react" | "unreact",
+    actionPayload?: { message_id: string; reaction?: string }
+  ): Promise<SendMessageResponse> {
+    try {
+      this.validateSenderActionOptions(accessToken, to);
+
+      const instagramAccountId = await this.extractInstagramAccountId(accessToken);
+      const payload = {
+        recipient: {
+          id: to,
+        },
+        sender_action: action,
+        ...(actionPayload && { payload: actionPayload }),
+      };
+
+      const response = await this.httpClient.post(
+        `${InstagramService.BASE_URL}/${instagramAccountId}/messages`,
+        JSON.stringify(payload),
+        {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        "instagram"
+      );
+
+      if (response.status === 200) {
         return {
           success: true,
-          messageId: data.message_id,
         };
       }
 
       throw new MessageMeshError(
-        "SEND_FAILED",
+        "SENDER_ACTION_FAILED",
         "instagram",
-        `Failed to send reply: ${response.status}`
+        `Failed to send ${action} action: ${response.status}`
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  private async sendAttachment(
+    options: InstagramGenericTemplateOptions | InstagramMediaShareOptions,
+    attachment: { type: string; payload: Record<string, unknown> },
+    description: string
+  ): Promise<SendMessageResponse> {
+    const instagramAccountId = await this.extractInstagramAccountId(options.accessToken);
+    const messaging = await this.resolveMessagingType(
+      options.to,
+      instagramAccountId,
+      options.messagingType,
+      options.tag
+    );
+    const payload = {
+      recipient: {
+        id: options.to,
+      },
+      ...messaging,
+      message: {
+        attachment,
+      },
+      metadata: options.metadata ? JSON.stringify(options.metadata) : undefined,
+    };
+
+    const response = await this.httpClient.post(
+      `${InstagramService.BASE_URL}/${instagramAccountId}/messages`,
+      JSON.stringify(payload),
+      {
+        Authorization: `Bearer ${options.accessToken}`,
+        "Content-Type": "application/json",
+      },
+      "instagram"
+    );
+
+    if (response.status === 200) {
+      const data = (await response.json()) as { message_id?: string };
+      return this.trackOutbound(
+        { success: true, messageId: data.message_id },
+        options.to,
+        instagramAccountId
+      );
+    }
+
+    throw new MessageMeshError(
+      "SEND_FAILED",
+      "instagram",
+      `Failed to send ${description}: ${response.status}`
+    );
+  }
+
+  // Ice Breaker Methods
+
+  /**
+   * Set the questions shown when a user opens a new conversation. Replaces the ice
+   * breakers of every locale
+   */
+  async setIceBreakers(
+    options: InstagramIceBreakersOptions
+  ): Promise<InstagramIceBreakersResponse> {
+    try {
+      SecurityUtils.validateAccessToken(options.accessToken, "instagram");
+      this.validateIceBreakers(options.iceBreakers);
+
+      const response = await this.httpClient.post(
+        `${InstagramService.BASE_URL}/me/messenger_profile`,
+        JSON.stringify({
+          platform: "instagram",
+          ice_breakers: [
+            {
+              locale: options.locale ?? "default",
+              call_to_actions: options.iceBreakers.map((iceBreaker) => ({
+                question: iceBreaker.question,
+                payload: iceBreaker.payload,
+              })),
+            },
+          ],
+        }),
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        "instagram"
+      );
+
+      if (response.status === 200) {
+        return { success: true };
+      }
+
+      throw new MessageMeshError(
+        "ICE_BREAKERS_FAILED",
+        "instagram",
+        `Failed to set ice breakers: ${response.status}`
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Get the configured ice breakers, keyed by locale
+   */
+  async getIceBreakers(accessToken: string): Promise<InstagramIceBreakersResponse> {
+    try {
+      SecurityUtils.validateAccessToken(accessToken, "instagram");
+
+      const response = await this.httpClient.get(
+        `${InstagramService.BASE_URL}/me/messenger_profile?fields=ice_breakers&platform=instagram`,
+        {
+          Authorization: `Bearer ${accessToken}`,
+        },
+        "instagram"
+      );
+
+      if (response.status === 200) {
+        const data = (await response.json()) as {
+          data?: Array<{
+            ice_breakers?: Array<{ locale?: string; call_to_actions?: InstagramIceBreaker[] }>;
+          }>;
+        };
+        const iceBreakers: Record<string, InstagramIceBreaker[]> = {};
+        for (const localized of data.data?.[0]?.ice_breakers ?? []) {
+          iceBreakers[localized.locale ?? "default"] = (localized.call_to_actions ?? []).map(
+            (iceBreaker) => ({ question: iceBreaker.question, payload: iceBreaker.payload })
+          );
+        }
+        return { success: true, iceBreakers };
+      }
+
+      throw new MessageMeshError(
+        "ICE_BREAKERS_FAILED",
+        "instagram",
+        `Failed to get ice breakers: ${response.status}`
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Remove the ice breakers of every locale
+   */
+  async deleteIceBreakers(accessToken: string): Promise<InstagramIceBreakersResponse> {
+    try {
+      SecurityUtils.validateAccessToken(accessToken, "instagram");
+
+      const response = await this.httpClient.request(
+        `${InstagramService.BASE_URL}/me/messenger_profile`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ platform: "instagram", fields: ["ice_breakers"] }),
+        },
+        "instagram"
+      );
+
+      if (response.status === 200) {
+        return { success: true };
+      }
+
+      throw new MessageMeshError(
+        "ICE_BREAKERS_FAILED",
+        "instagram",
+        `Failed to delete ice breakers: ${response.status}`
       );
     } catch (error) {
       return this.handleError(error);
@@ -419,6 +946,11 @@ export class InstagramService implements IInstagramService {
   }
 
   private async extractInstagramAccountId(accessToken: string): Promise<string> {
+    const cached = this.accountIds.get(accessToken);
+    if (cached) {
+      return cached;
+    }
+
     try {
       const response = await this.httpClient.get(
         `${InstagramService.BASE_URL}/me`,
@@ -437,6 +969,7 @@ export class InstagramService implements IInstagramService {
             "Unable to extract Instagram account ID from access token"
           );
         }
+        this.accountIds.set(accessToken, data.id);
         return data.id;
       }
 
@@ -482,6 +1015,12 @@ export class InstagramService implements IInstagramService {
       );
     }
 
+    if (options.quickReplies) {
+      this.validateQuickReplies(options.quickReplies);
+    }
+
+    this.validateMessagingTag(options.messagingType, options.tag);
+
     // Validate and sanitize metadata if present
     if (options.metadata) {
       SecurityUtils.validateMetadata(options.metadata, "instagram");
@@ -491,6 +1030,181 @@ export class InstagramService implements IInstagramService {
     options.message = sanitizedMessage;
   }
 
+  private validateMessagingTag(
+    messagingType?: MessengerMessagingType,
+    tag?: InstagramMessageTag
+  ): void {
+    if (messagingType === "MESSAGE_TAG" && !tag) {
+      throw new MessageMeshError(
+        "INVALID_MESSAGING_TYPE",
+        "instagram",
+        "The HUMAN_AGENT tag is required when messagingType is MESSAGE_TAG"
+      );
+    }
+
+    if (tag && tag !== "HUMAN_AGENT") {
+      throw new MessageMeshError(
+        "INVALID_MESSAGE_TAG",
+        "instagram",
+        `Unsupported Instagram message tag: ${tag}. Only HUMAN_AGENT is allowed`
+      );
+    }
+
+    if (tag && messagingType && messagingType !== "MESSAGE_TAG") {
+      throw new MessageMeshError(
+        "INVALID_MESSAGING_TYPE",
+        "instagram",
+        "Message tags can only be used with messagingType MESSAGE_TAG"
+      );
+    }
+  }
+
+  private validateQuickReplies(quickReplies: InstagramQuickReply[]): void {
+    if (quickReplies.length === 0 || quickReplies.length > 13) {
+      throw new MessageMeshError(
+        "INVALID_QUICK_REPLIES",
+        "instagram",
+        "Quick replies must contain between 1 and 13 items"
+      );
+    }
+
+    for (const quickReply of quickReplies) {
+      if (!quickReply.title?.trim() || quickReply.title.length > 20) {
+        throw new MessageMeshError(
+          "INVALID_QUICK_REPLIES",
+          "instagram",
+          "Quick replies require a title of 1-20 characters"
+        );
+      }
+      if (!quickReply.payload?.trim() || quickReply.payload.length > 1000) {
+        throw new MessageMeshError(
+          "INVALID_QUICK_REPLIES",
+          "instagram",
+          "Quick replies require a payload of 1-1000 characters"
+        );
+      }
+    }
+  }
+
+  private validateGenericTemplateOptions(options: InstagramGenericTemplateOptions): void {
+    this.validateSenderActionOptions(options.accessToken, options.to);
+    this.validateMessagingTag(options.messagingType, options.tag);
+
+    if (!options.elements || options.elements.length === 0 || options.elements.length > 10) {
+      throw new MessageMeshError(
+        "INVALID_TEMPLATE_ELEMENTS",
+        "instagram",
+        "Generic templates must contain between 1 and 10 elements"
+      );
+    }
+
+    for (const element of options.elements) {
+      if (!element.title?.trim() || element.title.length > 80) {
+        throw new MessageMeshError(
+          "INVALID_TEMPLATE_ELEMENTS",
+          "instagram",
+          "Template elements require a title of 1-80 characters"
+        );
+      }
+      if (element.subtitle && element.subtitle.length > 80) {
+        throw new MessageMeshError(
+          "INVALID_TEMPLATE_ELEMENTS",
+          "instagram",
+          "Template element subtitles cannot exceed 80 characters"
+        );
+      }
+      if (element.imageUrl) {
+        SecurityUtils.validateUrl(element.imageUrl, "instagram");
+      }
+      if (element.defaultActionUrl) {
+        SecurityUtils.validateUrl(element.defaultActionUrl, "instagram");
+      }
+
+      const buttons = element.buttons ?? [];
+      if (buttons.length > 3) {
+        throw new MessageMeshError(
+          "TOO_MANY_BUTTONS",
+          "instagram",
+          "Template elements can have at most 3 buttons"
+        );
+      }
+      for (const button of buttons) {
+        if (!button.title?.trim() || button.title.length > 20) {
+          throw new MessageMeshError(
+            "INVALID_TEMPLATE_BUTTON",
+            "instagram",
+            "Template buttons require a title of 1-20 characters"
+          );
+        }
+        if (button.type === "web_url") {
+          SecurityUtils.validateUrl(button.url ?? "", "instagram");
+        } else if (button.type === "postback") {
+          if (!button.payload?.trim() || button.payload.length > 1000) {
+            throw new MessageMeshError(
+              "INVALID_TEMPLATE_BUTTON",
+              "instagram",
+              "Postback buttons require a payload of 1-1000 characters"
+            );
+          }
+        } else {
+          throw new MessageMeshError(
+            "INVALID_TEMPLATE_BUTTON",
+            "instagram",
+            `Invalid button type: ${String(button.type)}. Must be one of: web_url, postback`
+          );
+        }
+      }
+    }
+
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "instagram");
+    }
+  }
+
+  private validateMediaShareOptions(options: InstagramMediaShareOptions): void {
+    this.validateSenderActionOptions(options.accessToken, options.to);
+    this.validateMessagingTag(options.messagingType, options.tag);
+
+    if (!options.postId || !/^\d+$/.test(options.postId.trim())) {
+      throw new MessageMeshError(
+        "INVALID_POST_ID",
+        "instagram",
+        "Post ID must be the numeric ID of an Instagram media object"
+      );
+    }
+
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "instagram");
+    }
+  }
+
+  private validateIceBreakers(iceBreakers: InstagramIceBreaker[]): void {
+    if (!iceBreakers || iceBreakers.length === 0 || iceBreakers.length > 4) {
+      throw new MessageMeshError(
+        "INVALID_ICE_BREAKERS",
+        "instagram",
+        "Ice breakers must contain between 1 and 4 questions"
+      );
+    }
+
+    for (const iceBreaker of iceBreakers) {
+      if (!iceBreaker.question?.trim() || iceBreaker.question.length > 80) {
+        throw new MessageMeshError(
+          "INVALID_ICE_BREAKERS",
+          "instagram",
+          "Ice breaker questions must be 1-80 characters"
+        );
+      }
+      if (!iceBreaker.payload?.trim() || iceBreaker.payload.length > 1000) {
+        throw new MessageMeshError(
+          "INVALID_ICE_BREAKERS",
+          "instagram",
+          "Ice breakers require a payload of 1-1000 characters"
+        );
+      }
+    }
+  }
+
   private validateMediaOptions(options: InstagramMediaOptions): void {
     // Use security utilities for basic validation
     SecurityUtils.validateAccessToken(options.accessToken, "instagram");
@@ -548,6 +1262,8 @@ export class InstagramService implements IInstagramService {
       );
     }
 
+    this.validateMessagingTag(options.messagingType, options.tag);
+
     // Validate metadata if present
     if (options.metadata) {
       SecurityUtils.validateMetadata(options.metadata, "instagram");
@@ -560,6 +1276,8 @@ export class InstagramService implements IInstagramService {
       accessToken: options.accessToken,
       to: options.to,
       message: options.message,
+      messagingType: options.messagingType,
+      tag: options.tag,
       metadata: options.metadata,
     });
 
@@ -573,6 +1291,80 @@ export class InstagramService implements IInstagramService {
     }
   }
 
+  private validateAttachmentUploadOptions(options: InstagramAttachmentUploadOptions): void {
+    SecurityUtils.validateAccessToken(options.accessToken, "instagram");
+
+    const validTypes = ["image", "video", "audio"];
+    if (!validTypes.includes(options.type)) {
+      throw new MessageMeshError(
+        "INVALID_MEDIA_TYPE",
+        "instagram",
+        `Invalid media type: ${options.type}. Must be one of: ${validTypes.join(", ")}`
+      );
+    }
+
+    if (!options.url === !options.file) {
+      throw new MessageMeshError(
+        "MISSING_MEDIA_SOURCE",
+        "instagram",
+        "Exactly one of url or file must be provided"
+      );
+    }
+
+    if (options.url) {
+      SecurityUtils.validateUrl(options.url, "instagram");
+    }
+
+    if (options.file && !options.mimeType?.trim()) {
+      throw new MessageMeshError("INVALID_MEDIA_TYPE", "instagram", "MIME type is required");
+    }
+
+    if (options.filename) {
+      options.filename = SecurityUtils.sanitizeText(options.filename);
+    }
+  }
+
+  private validatePrivateReplyOptions(options: InstagramPrivateReplyOptions): void {
+    SecurityUtils.validateAccessToken(options.accessToken, "instagram");
+
+    // Comment IDs are numeric, or "{postId}_{commentId}" on Facebook
+    if (!options.commentId || !/^\d+(_\d+)*$/.test(options.commentId.trim())) {
+      throw new MessageMeshError(
+        "INVALID_COMMENT_ID",
+        "instagram",
+        "Comment ID must be a valid Instagram comment ID"
+      );
+    }
+
+    const sanitizedMessage = SecurityUtils.validateMessageContent(options.message, "instagram");
+    if (sanitizedMessage.length > 1000) {
+      throw new MessageMeshError(
+        "MESSAGE_TOO_LONG",
+        "instagram",
+        "Message content cannot exceed 1000 characters for Instagram"
+      );
+    }
+
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "instagram");
+    }
+
+    options.message = sanitizedMessage;
+  }
+
+  private validateSenderActionOptions(accessToken: string, to: string): void {
+    SecurityUtils.validateAccessToken(accessToken, "instagram");
+    SecurityUtils.validateUserId(to, "instagram");
+
+    if (!/^\d+$/.test(to.trim())) {
+      throw new MessageMeshError(
+        "INVALID_RECIPIENT",
+        "instagram",
+        "Recipient ID must be a valid Instagram Scoped User ID (IGSID)"
+      );
+    }
+  }
+
   private validateInstagramTemplateCreateOptions(options: InstagramTemplateCreateOptions): void {
     if (!options.accessToken) {
       throw new MessageMeshError("INVALID_ACCESS_TOKEN", "instagram", "Access token is required");
@@ -724,6 +1516,67 @@ export class InstagramService implements IInstagramService {
     };
   }
 
+  /**
+   * Resolve messaging_type and tag for a send. Untagged messages are checked
+   * against the 24-hour messaging window when a window tracker is configured
+   */
+  private async resolveMessagingType(
+    to: string,
+    instagramAccountId: string,
+    messagingType?: MessengerMessagingType,
+    tag?: InstagramMessageTag
+  ): Promise<{ messaging_type?: MessengerMessagingType; tag?: InstagramMessageTag }> {
+    if (tag || messagingType === "MESSAGE_TAG") {
+      return { messaging_type: "MESSAGE_TAG", tag };
+    }
+
+    const tracker = this.deps.windowTracker;
+    if (tracker) {
+      const decision = await tracker.evaluate("instagram", to, instagramAccountId);
+      if (decision.action === "block") {
+        throw new MessageMeshError(
+          "OUTSIDE_CONVERSATION_WINDOW",
+          "instagram",
+          "The 24-hour messaging window is closed. Send the message with the HUMAN_AGENT tag instead"
+        );
+      }
+      if (decision.action === "route" && decision.tag === "HUMAN_AGENT") {
+        return { messaging_type: "MESSAGE_TAG", tag: decision.tag };
+      }
+    }
+
+    return messagingType ? { messaging_type: messagingType } : {};
+  }
+
+  /**
+   * Record a successful send with the delivery tracker, if one is configured
+   */
+  private async trackOutbound(
+    response: SendMessageResponse,
+    to: string,
+    sender?: string
+  ): Promise<SendMessageResponse> {
+    const tracker = this.deps.deliveryTracker;
+    if (tracker && response.messageId) {
+      try {
+        await tracker.recordOutbound({
+          platform: "instagram",
+          messageId: response.messageId,
+          recipient: to,
+          sender,
+        });
+      } catch (error) {
+        (this.deps.logger ?? Logger.getInstance()).warn(
+          "Failed to record outbound message for delivery tracking",
+          "instagram",
+          { messageId: response.messageId },
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+    return response;
+  }
+
   private handleError(error: unknown): SendMessageResponse {
     if (error instanceof MessageMeshError) {
       return {
@@ -0,0 +1,228 @@
+import { describe, it, expect } from "bun:test";
+import { MessengerExtendedService, type MessengerProfileSettings } from "./messenger-extended.js";
+import { HttpClient } from "../http-client.js";
+import { FakeGraphApi } from "../fake-graph-api.js";
+import { Logger } from "../logger.js";
+
+const setup = (options: { appId?: string } = {}) => {
+  const graph = new FakeGraphApi({ appId: options.appId ?? "app_1" });
+  const logger = new Logger({ enableConsole: false });
+  const service = new MessengerExtendedService(
+    new HttpClient({ transport: graph.transport, logger }),
+    { appId: options.appId ?? "app_1", appSecret: "secret" },
+    { logger }
+  );
+  return { graph, logger, service };
+};
+
+describe("MessengerExtendedService", () => {
+  it("should send each Messenger profile field to /me/messenger_profile", async () => {
+    const { graph, service } = setup();
+    const token = "page_token";
+
+    await service.setGetStarted(token, "GET_STARTED");
+    await service.setGreeting(token, [
+      { locale: "default", text: "Hi {{user_first_name}}!" },
+      { locale: "fr_FR", text: "Bonjour {{user_first_name}} !" },
+    ]);
+    await service.setPersistentMenu(token, [
+      {
+        locale: "default",
+        composer_input_disabled: false,
+        call_to_actions: [
+          { type: "postback", title: "Orders", payload: "ORDERS" },
+          { type: "web_url", title: "Shop", url: "https://shop.example.com" },
+        ],
+      },
+    ]);
+    await service.setIceBreakers(token, [
+      { call_to_actions: [{ question: "Where is my order?", payload: "ORDER_STATUS" }] },
+    ]);
+    await service.setWhitelistedDomains(token, ["https://shop.example.com"]);
+
+    const posts = graph.getRequests({ method: "POST", path: "/me/messenger_profile" });
+    expect(posts.map((request) => request.headers.authorization)).toEqual(
+      Array(5).fill("Bearer page_token")
+    );
+    expect(posts.map((request) => request.body)).toEqual([
+      { get_started: { payload: "GET_STARTED" } },
+      {
+        greeting: [
+          { locale: "default", text: "Hi {{user_first_name}}!" },
+          { locale: "fr_FR", text: "Bonjour {{user_first_name}} !" },
+        ],
+      },
+      {
+        persistent_menu: [
+          {
+            locale: "default",
+            composer_input_disabled: false,
+            call_to_actions: [
+              { type: "postback", title: "Orders", payload: "ORDERS" },
+              { type: "web_url", title: "Shop", url: "https://shop.example.com" },
+            ],
+          },
+        ],
+      },
+      {
+        ice_breakers: [
+          { call_to_actions: [{ question: "Where is my order?", payload: "ORDER_STATUS" }] },
+        ],
+      },
+      { whitelisted_domains: ["https://shop.example.com"] },
+    ]);
+
+    await service.setGreeting(token, "Welcome!");
+    expect(graph.getRequests({ method: "POST" }).at(-1)?.body).toEqual({
+      greeting: [{ locale: "default", text: "Welcome!" }],
+    });
+  });
+
+  it("should fetch and delete Messenger profile fields", async () => {
+    const { graph, service } = setup();
+    const token = "page_token";
+    await service.setMessengerProfile(token, {
+      get_started: { payload: "GET_STARTED" },
+      greeting: [{ locale: "default", text: "Welcome!" }],
+      whitelisted_domains: ["https://shop.example.com"],
+    });
+
+    const profile = await service.getMessengerProfile(token, ["get_started", "greeting"]);
+    await service.deleteMessengerProfile(token, ["greeting", "whitelisted_domains"]);
+    const remaining = await service.getMessengerProfile(token);
+
+    const [firstGet, secondGet] = graph.getRequests({
+      method: "GET",
+      path: "/me/messenger_profile",
+    });
+    expect(firstGet?.query.fields).toBe("get_started,greeting");
+    expect(secondGet?.query.fields).toBe(
+      "get_started,greeting,persistent_menu,ice_breakers,whitelisted_domains"
+    );
+    expect(graph.getRequests({ method: "DELETE" }).map((request) => request.body)).toEqual([
+      { fields: ["greeting", "whitelisted_domains"] },
+    ]);
+    expect(profile.get_started).toEqual({ payload: "GET_STARTED" });
+    expect(profile.greeting).toEqual([{ locale: "default", text: "Welcome!" }]);
+    expect(remaining).toEqual({ get_started: { payload: "GET_STARTED" } });
+  });
+
+  it("should reject invalid Messenger profile settings before calling the API", async () => {
+    const { graph, service } = setup();
+    const token = "page_token";
+    const question = { question: "Hours?", payload: "HOURS" };
+    const item = { type: "postback" as const, title: "Orders", payload: "ORDERS" };
+    const invalid = async (settings: MessengerProfileSettings) => {
+      const error = await service.setMessengerProfile(token, settings).catch((e) => e);
+      return { code: error?.code, message: error?.message };
+    };
+
+    const failures = [
+      await invalid({}),
+      await invalid({ get_started: { payload: " " } }),
+      await invalid({ greeting: [{ locale: "fr_FR", text: "Bonjour" }] }),
+      await invalid({ greeting: [{ locale: "default", text: "x".repeat(161) }] }),
+      await invalid({ ice_breakers: [{ call_to_actions: Array(5).fill(question) }] }),
+      await invalid({ ice_breakers: [{ call_to_actions: [{ question: "Hours?", payload: "" }] }] }),
+      await invalid({
+        persistent_menu: [{ locale: "default", call_to_actions: Array(21).fill(item) }],
+      }),
+      await invalid({
+        persistent_menu: [
+          { locale: "default", call_to_actions: [{ ...item, title: "x".repeat(31) }] },
+        ],
+      }),
+      await invalid({
+        persistent_menu: [
+          {
+            locale: "default",
+            call_to_actions: [{ type: "web_url", title: "Shop", url: "http://shop.example.com" }],
+          },
+        ],
+      }),
+      await invalid({
+        persistent_menu: [
+          { locale: "default", composer_input_disabled: true, call_to_actions: [] },
+        ],
+      }),
+      await invalid({ whitelisted_domains: ["http://shop.example.com"] }),
+      await invalid({ whitelisted_domains: Array(51).fill("https://shop.example.com") }),
+    ];
+
+    expect(failures.every((failure) => failure.code === "INVALID_PROFILE_SETTINGS")).toBe(true);
+    expect(failures.map((failure) => failure.message)).toEqual([
+      "At least one Messenger profile setting is required",
+      "Get Started payload is required",
+      'Greeting must include a "default" locale',
+      "Greeting text for locale default must be 1-160 characters",
+      "Ice breakers support maximum 4 questions per locale",
+      "Ice breakers require a question and a payload",
+      "Persistent menu supports maximum 20 items per locale",
+      "Persistent menu item titles must be 1-30 characters",
+      "Persistent menu web_url items require an HTTPS url",
+      "Persistent menu needs items when composer input is disabled",
+      "Whitelisted domain must use HTTPS: http://shop.example.com",
+      "Whitelisted domains support maximum 50 entries",
+    ]);
+    await expect(service.deleteMessengerProfile(token, [])).rejects.toMatchObject({
+      code: "INVALID_PROFILE_FIELDS",
+    });
+    expect(graph.requests).toHaveLength(0);
+  });
+
+  it("should send the Instagram platform on every handover request", async () => {
+    const { graph, service } = setup();
+    const token = "page_token";
+    const options = { recipientId: "igsid_1", platform: "instagram" as const };
+
+    await service.passThreadControl(token, {
+      ...options,
+      targetAppId: MessengerExtendedService.PAGE_INBOX_APP_ID,
+      metadata: "escalated",
+    });
+    await service.takeThreadControl(token, options);
+    await service.requestThreadControl(token, options);
+    await service.releaseThreadControl(token, options);
+    await service.getThreadOwner(token, "igsid_1", "instagram");
+    await service.getSecondaryReceivers(token, "instagram");
+    await service.takeThreadControl(token, { recipientId: "psid_1" });
+
+    const requests = graph.getRequests({
+      path: /^\/me\/(\w+_thread_control|thread_owner|secondary_receivers)$/,
+    });
+    expect(
+      requests.map((request) => [request.method, request.path, request.query.platform])
+    ).toEqual([
+      ["POST", "/me/pass_thread_control", "instagram"],
+      ["POST", "/me/take_thread_control", "instagram"],
+      ["POST", "/me/request_thread_control", "instagram"],
+      ["POST", "/me/release_thread_control", "instagram"],
+      ["GET", "/me/thread_owner", "instagram"],
+      ["GET", "/me/secondary_receivers", "instagram"],
+      ["POST", "/me/take_thread_control", undefined],
+    ]);
+    expect(requests[0]?.body).toEqual({
+      recipient: { id: "igsid_1" },
+      target_app_id: MessengerExtendedService.PAGE_INBOX_APP_ID,
+      metadata: "escalated",
+    });
+  });
+
+  it("should log to its own logger instead of the process-wide one", async () => {
+    const tenantA = setup();
+    const tenantB = setup();
+    const global = Logger.getInstance();
+    const globalCount = global.getLogs(undefined, "messenger", 1000).length;
+
+    await tenantA.service.getMessengerProfile("page_token_a", ["greeting"]);
+    await tenantB.service.takeThreadControl("page_token_b", { recipientId: "psid_1" });
+
+    const messages = (logger: Logger) =>
+      logger.getLogs(undefined, "messenger").map((entry) => entry.message);
+    expect(messages(tenantA.logger)).toContain("Fetching Messenger profile fields: greeting");
+    expect(messages(tenantA.logger).some((m) => m.includes("take_thread_control"))).toBe(false);
+    expect(messages(tenantB.logger).some((m) => m.includes("take_thread_control"))).toBe(true);
+    expect(messages(tenantB.logger).some((m) => m.includes("Messenger profile"))).toBe(false);
+    expect(global.getLogs(undefined, "messenger", 1000)).toHaveLength(globalCount);
+  });
+});
@@ -1,4 +1,4 @@
-import type { IMessengerService } from "../interfaces.js";
+import type { IMessengerService, ServiceDependencies } from "../interfaces.js";
 import { HttpClient } from "../http-client.js";
 import { MessageMeshError } from "../types.js";
 import { MessengerService } from "./messenger.js";
@@ -13,21 +13,21 @@ const toLogMetadata = (data?: unknown): Record<string, any> | undefined => {
   return { data };
 };
 
-// Create a static logger wrapper to match the crm-be Logger API
-const Logger = {
+// Wrap the service's logger in the crm-be Logger API used throughout this file
+const createLogger = (getLogger: () => LoggerClass) => ({
   info: (message: string, metadata?: unknown) => {
-    LoggerClass.getInstance().info(message, "messenger", toLogMetadata(metadata));
+    getLogger().info(message, "messenger", toLogMetadata(metadata));
   },
   error: (message: string, metadata?: unknown, error?: Error) => {
-    LoggerClass.getInstance().error(message, "messenger", toLogMetadata(metadata), error);
+    getLogger().error(message, "messenger", toLogMetadata(metadata), error);
   },
   warn: (message: string, metadata?: unknown, error?: Error) => {
-    LoggerClass.getInstance().warn(message, "messenger", toLogMetadata(metadata), error);
+    getLogger().warn(message, "messenger", toLogMetadata(metadata), error);
   },
   debug: (message: string, metadata?: unknown) => {
-    LoggerClass.getInstance().debug(message, "messenger", toLogMetadata(metadata));
+    getLogger().debug(message, "messenger", toLogMetadata(metadata));
   }
-};
+});
 
 interface MessengerApiResponse {
   id?: string;
@@ -76,7 +76,7 @@ export interface MessengerConfig {
   page_access_token: string;
   webhook_verify_token: string;
   greeting_text?: string;
-  persistent_menu?: Record<string, unknown>;
+  persistent_menu?: MessengerPersistentMenu[] | Record<string, unknown>;
   auto_responses?: Record<string, unknown>[];
 }
 
@@ -97,6 +97,73 @@ export interface MessengerPageInfo {
   };
 }
 
+export type MessengerProfileField =
+  | "get_started"
+  | "greeting"
+  | "persistent_menu"
+  | "ice_breakers"
+  | "whitelisted_domains";
+
+export interface MessengerGreeting {
+  locale: string; // "default" or a supported locale such as "en_US"
+  text: string;
+}
+
+export interface MessengerMenuItem {
+  type: "postback" | "web_url";
+  title: string;
+  payload?: string;
+  url?: string;
+  webview_height_ratio?: "compact" | "tall" | "full";
+}
+
+export interface MessengerPersistentMenu {
+  locale: string;
+  composer_input_disabled?: boolean;
+  call_to_actions: MessengerMenuItem[];
+}
+
+export interface MessengerIceBreakers {
+  locale?: string;
+  call_to_actions: Array<{
+    question: string;
+    payload: string;
+  }>;
+}
+
+export interface MessengerProfileSettings {
+  get_started?: {
+    payload: string;
+  };
+  greeting?: MessengerGreeting[];
+  persistent_menu?: MessengerPersistentMenu[];
+  ice_breakers?: MessengerIceBreakers[];
+  whitelisted_domains?: string[];
+}
+
+export type HandoverPlatform = "messenger" | "instagram";
+
+export interface ThreadControlOptions {
+  recipientId: string; // PSID, or IGSID for Instagram
+  metadata?: string; // Passed to the other app in its webhook (max 1000 characters)
+  platform?: HandoverPlatform; // Default: "messenger"
+}
+
+export interface PassThreadControlOptions extends ThreadControlOptions {
+  targetAppId: string; // MessengerExtendedService.PAGE_INBOX_APP_ID for the Page Inbox
+}
+
+export interface SecondaryReceiver {
+  id: string;
+  name: string;
+}
+
+type ThreadControlAction =
+  | "pass_thread_control"
+  | "take_thread_control"
+  | "request_thread_control"
+  | "release_thread_control";
+
 interface ExtendedMessengerConfig {
   appId: string;
   appSecret: string;
@@ -105,13 +172,28 @@ interface ExtendedMessengerConfig {
 }
 
 export class MessengerExtendedService extends MessengerService implements IMessengerService {
+  static readonly PAGE_INBOX_APP_ID = "263902037430900";
   private static readonly FACEBOOK_GRAPH_BASE_URL = "https://graph.facebook.com";
+  private static readonly PROFILE_FIELDS: MessengerProfileField[] = [
+    "get_started",
+    "greeting",
+    "persistent_menu",
+    "ice_breakers",
+    "whitelisted_domains",
+  ];
   private readonly appId: string;
   private readonly appSecret: string;
   private readonly apiVersion: string;
 
-  constructor(httpClient: HttpClient, config: ExtendedMessengerConfig) {
-    super(httpClient);
+  // Logs to the injected logger, or the process-wide one when none was given
+  private readonly log = createLogger(() => this.deps.logger ?? LoggerClass.getInstance());
+
+  constructor(
+    httpClient: HttpClient,
+    config: ExtendedMessengerConfig,
+    deps: ServiceDependencies = {}
+  ) {
+    super(httpClient, deps);
     this.appId = config.appId;
     this.appSecret = config.appSecret;
     this.apiVersion = config.apiVersion || "v19.0";
@@ -129,9 +211,9 @@ export class MessengerExtendedService extends MessengerService implements IMesse
         access_token: userAccessToken,
       });
 
-      Logger.info("Fetching user's Facebook pages");
+      this.log.info("Fetching user's Facebook pages");
 
-      const response = await fetch(`${url}?${params.toString()}`, {
+      const response = await this.httpClient.send(`${url}?${params.toString()}`, {
         method: "GET",
         headers: {
           Accept: "application/json",
@@ -140,7 +222,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
 
       if (!response.ok) {
         const errorData = await response.json() as MessengerApiResponse;
-        Logger.error("Failed to fetch user's Facebook pages", errorData);
+        this.log.error("Failed to fetch user's Facebook pages", errorData);
         throw new MessageMeshError(
           "FACEBOOK_API_ERROR",
           "messenger",
@@ -149,14 +231,14 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       }
 
       const data = await response.json() as { data?: MessengerPageInfo[] };
-      Logger.info(`Successfully fetched ${data.data?.length || 0} pages`);
+      this.log.info(`Successfully fetched ${data.data?.length || 0} pages`);
 
       return data.data || [];
     } catch (error) {
       if (error instanceof MessageMeshError) {
         throw error;
       }
-      Logger.error("Error fetching user's Facebook pages", error);
+      this.log.error("Error fetching user's Facebook pages", error);
       throw new MessageMeshError(
         "FACEBOOK_API_ERROR",
         "messenger",
@@ -182,9 +264,9 @@ export class MessengerExtendedService extends MessengerService implements IMesse
         fb_exchange_token: shortLivedToken,
       });
 
-      Logger.info("Exchanging short-lived user token for long-lived token");
+      this.log.info("Exchanging short-lived user token for long-lived token");
 
-      const response = await fetch(`${url}?${params.toString()}`, {
+      const response = await this.httpClient.send(`${url}?${params.toString()}`, {
         method: "GET",
         headers: {
           Accept: "application/json",
@@ -193,7 +275,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
 
       if (!response.ok) {
         const errorData = await response.json() as MessengerApiResponse;
-        Logger.error("Failed to exchange for long-lived user token", errorData);
+        this.log.error("Failed to exchange for long-lived user token", errorData);
         throw new MessageMeshError(
           "TOKEN_EXCHANGE_FAILED",
           "messenger",
@@ -202,14 +284,14 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       }
 
       const data = await response.json() as { access_token: string; token_type: string; expires_in: number };
-      Logger.info("Successfully exchanged for long-lived user token");
+      this.log.info("Successfully exchanged for long-lived user token");
 
       return data;
     } catch (error) {
       if (error instanceof MessageMeshError) {
         throw error;
       }
-      Logger.error("Error exchanging for long-lived user token", error);
+      this.log.error("Error exchanging for long-lived user token", error);
       throw new MessageMeshError(
         "TOKEN_EXCHANGE_FAILED",
         "messenger",
@@ -230,7 +312,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
   }> {
     try {
       // Step 1: Exchange for long-lived user token
-      Logger.info(
+      this.log.info(
         `Getting never-expiring page access token for page ${pageId}`
       );
       const longLivedUserToken = await this.exchangeForLongLivedUserToken(
@@ -243,9 +325,9 @@ export class MessengerExtendedService extends MessengerService implements IMesse
         access_token: longLivedUserToken.access_token,
       });
 
-      Logger.info("Fetching page access tokens with long-lived user token");
+      this.log.info("Fetching page access tokens with long-lived user token");
 
-      const response = await fetch(`${url}?${params.toString()}`, {
+      const response = await this.httpClient.send(`${url}?${params.toString()}`, {
         method: "GET",
         headers: {
           Accept: "application/json",
@@ -254,7 +336,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
 
       if (!response.ok) {
         const errorData = await response.json() as MessengerApiResponse;
-        Logger.error("Failed to get page access tokens", errorData);
+        this.log.error("Failed to get page access tokens", errorData);
         throw new MessageMeshError(
           "PAGE_TOKEN_FETCH_FAILED",
           "messenger",
@@ -280,14 +362,14 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       const pageAccessToken = targetPage.access_token;
 
       // Step 4: Verify token expiration status
-      Logger.info("Verifying page access token expiration status");
+      this.log.info("Verifying page access token expiration status");
       const debugUrl = `${MessengerExtendedService.FACEBOOK_GRAPH_BASE_URL}/${this.apiVersion}/debug_token`;
       const debugParams = new URLSearchParams({
         input_token: pageAccessToken,
         access_token: `${this.appId}|${this.appSecret}`,
       });
 
-      const debugResponse = await fetch(
+      const debugResponse = await this.httpClient.send(
         `${debugUrl}?${debugParams.toString()}`,
         {
           method: "GET",
@@ -302,7 +384,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
         const tokenInfo = debugData.data || {};
         const expiresAt = tokenInfo.expires_at || 0;
 
-        Logger.info(
+        this.log.info(
           `Page access token expiration status: expires_at=${expiresAt} (0 = never expires)`
         );
 
@@ -311,7 +393,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
           expires_at: expiresAt,
         };
       } else {
-        Logger.warn(
+        this.log.warn(
           "Could not verify token expiration, but returning token anyway"
         );
         return {
@@ -323,7 +405,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       if (error instanceof MessageMeshError) {
         throw error;
       }
-      Logger.error(
+      this.log.error(
         `Error getting never-expiring page access token for ${pageId}`,
         error
       );
@@ -349,11 +431,11 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       );
 
       if (tokenData.expires_at === 0) {
-        Logger.info(
+        this.log.info(
           `Successfully obtained never-expiring page access token for ${pageId}`
         );
       } else {
-        Logger.warn(
+        this.log.warn(
           `Page access token for ${pageId} expires at ${new Date(
             tokenData.expires_at * 1000
           ).toISOString()}`
@@ -362,7 +444,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
 
       return tokenData.access_token;
     } catch (error) {
-      Logger.error(
+      this.log.error(
         `Error getting page access token for ${pageId}`,
         error
       );
@@ -384,11 +466,11 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       // The webhook URL is configured at the app level in Facebook Developer Console
       const url = `${MessengerExtendedService.FACEBOOK_GRAPH_BASE_URL}/${this.apiVersion}/${pageId}/subscribed_apps`;
 
-      Logger.info(
+      this.log.info(
         `Subscribing app to Messenger page ${pageId} for webhook events`
       );
 
-      const response = await fetch(url, {
+      const response = await this.httpClient.send(url, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${pageAccessToken}`,
@@ -401,13 +483,15 @@ export class MessengerExtendedService extends MessengerService implements IMesse
             "messaging_optins",
             "message_deliveries",
             "message_reads",
+            "messaging_handovers",
+            "standby",
           ],
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json() as MessengerApiResponse;
-        Logger.error(
+        this.log.error(
           `Failed to subscribe app to page ${pageId}`,
           errorData
         );
@@ -419,7 +503,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       }
 
       const responseData = await response.json() as Record<string, unknown>;
-      Logger.info(
+      this.log.info(
         `Successfully subscribed app to page ${pageId}. Response: ${JSON.stringify(
           responseData
         )}`
@@ -428,7 +512,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       if (error instanceof MessageMeshError) {
         throw error;
       }
-      Logger.error(
+      this.log.error(
         `Error subscribing app to page ${pageId}`,
         error
       );
@@ -454,9 +538,9 @@ export class MessengerExtendedService extends MessengerService implements IMesse
         access_token: `${this.appId}|${this.appSecret}`,
       });
 
-      Logger.info(`Validating page access token for page ${pageId}`);
+      this.log.info(`Validating page access token for page ${pageId}`);
 
-      const response = await fetch(`${url}?${params.toString()}`, {
+      const response = await this.httpClient.send(`${url}?${params.toString()}`, {
         method: "GET",
         headers: {
           Accept: "application/json",
@@ -465,7 +549,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
 
       if (!response.ok) {
         const errorData = await response.json();
-        Logger.error(
+        this.log.error(
           `Token validation failed: ${response.status}`,
           errorData
         );
@@ -475,13 +559,13 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       const data = await response.json() as { data?: { is_valid: boolean; app_id: string; type: string; scopes?: string[] } };
       const tokenData = data.data || { is_valid: false };
 
-      Logger.info(
+      this.log.info(
         `Token validation response: is_valid=${tokenData.is_valid}, app_id=${'app_id' in tokenData ? tokenData.app_id : 'N/A'}, type=${'type' in tokenData ? tokenData.type : 'N/A'}`
       );
 
       // Check if token is valid
       if (!tokenData.is_valid) {
-        Logger.warn("Page access token is not valid");
+        this.log.warn("Page access token is not valid");
         return false;
       }
 
@@ -493,7 +577,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       ) : false;
 
       if (!hasRequiredPermissions) {
-        Logger.warn(
+        this.log.warn(
           `Token missing required permissions. Has: ${scopes?.join(
             ", "
           ) || 'none'}, Needs: ${requiredPermissions.join(", ")}`
@@ -502,7 +586,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
 
       return hasRequiredPermissions;
     } catch (error) {
-      Logger.error(
+      this.log.error(
         `Error validating page access token for ${pageId}`,
         error
       );
@@ -525,7 +609,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
         access_token: pageAccessToken,
       });
 
-      const response = await fetch(`${url}?${params.toString()}`, {
+      const response = await this.httpClient.send(`${url}?${params.toString()}`, {
         method: "GET",
         headers: {
           Accept: "application/json",
@@ -534,7 +618,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
 
       if (!response.ok) {
         const errorData = await response.json() as MessengerApiResponse;
-        Logger.error(
+        this.log.error(
           `Failed to get page profile for ${pageId}`,
           errorData
         );
@@ -551,7 +635,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       if (error instanceof MessageMeshError) {
         throw error;
       }
-      Logger.error(
+      this.log.error(
         `Error getting page profile for ${pageId}`,
         error
       );
@@ -573,9 +657,9 @@ export class MessengerExtendedService extends MessengerService implements IMesse
     try {
       const url = `${MessengerExtendedService.FACEBOOK_GRAPH_BASE_URL}/${this.apiVersion}/${pageId}/subscribed_apps`;
 
-      Logger.info(`Checking app subscription for Messenger page ${pageId}`);
+      this.log.info(`Checking app subscription for Messenger page ${pageId}`);
 
-      const response = await fetch(url, {
+      const response = await this.httpClient.send(url, {
         method: "GET",
         headers: {
           Authorization: `Bearer ${pageAccessToken}`,
@@ -585,7 +669,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
 
       if (!response.ok) {
         const errorData = await response.json();
-        Logger.warn(
+        this.log.warn(
           `App subscription check failed: ${response.status}`,
           errorData
         );
@@ -593,7 +677,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       }
 
       const data = await response.json() as { data?: Array<{ id: string }> };
-      Logger.info(`App subscription response: ${JSON.stringify(data)}`);
+      this.log.info(`App subscription response: ${JSON.stringify(data)}`);
 
       // Check if our app is in the subscribed apps list
       const apps = data.data || [];
@@ -601,7 +685,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
         (app: { id: string }) => app.id === this.appId
       );
 
-      Logger.info(
+      this.log.info(
         `Our app (${this.appId}) subscription status for page ${pageId}: ${
           isOurAppSubscribed ? "subscribed" : "not subscribed"
         }`
@@ -611,7 +695,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
         // Check which fields we're subscribed to
         const ourApp = apps.find((app: { id: string }) => app.id === this.appId);
         if (ourApp) {
-          Logger.info(
+          this.log.info(
             `Subscribed fields for our app: ${JSON.stringify(ourApp)}`
           );
         }
@@ -619,7 +703,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
 
       return isOurAppSubscribed;
     } catch (error) {
-      Logger.error(
+      this.log.error(
         `Error checking app subscription for page ${pageId}`,
         error
       );
@@ -627,6 +711,542 @@ export class MessengerExtendedService extends MessengerService implements IMesse
     }
   }
 
+  /**
+   * Get Messenger Profile settings (get started, greeting, menu, ice breakers, domains)
+   */
+  async getMessengerProfile(
+    pageAccessToken: string,
+    fields: MessengerProfileField[] = MessengerExtendedService.PROFILE_FIELDS
+  ): Promise<MessengerProfileSettings> {
+    try {
+      const url = `${MessengerExtendedService.FACEBOOK_GRAPH_BASE_URL}/${this.apiVersion}/me/messenger_profile`;
+      const params = new URLSearchParams({
+        fields: fields.join(","),
+      });
+
+      this.log.info(`Fetching Messenger profile fields: ${fields.join(", ")}`);
+
+      const response = await this.httpClient.send(`${url}?${params.toString()}`, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${pageAccessToken}`,
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as MessengerApiResponse;
+        this.log.error("Failed to fetch Messenger profile", errorData);
+        throw new MessageMeshError(
+          "MESSENGER_PROFILE_FAILED",
+          "messenger",
+          errorData.error?.message || "Failed to fetch Messenger profile"
+        );
+      }
+
+      const data = await response.json() as { data?: MessengerProfileSettings[] };
+      return data.data?.[0] || {};
+    } catch (error) {
+      if (error instanceof MessageMeshError) {
+        throw error;
+      }
+      this.log.error("Error fetching Messenger profile", error);
+      throw new MessageMeshError(
+        "MESSENGER_PROFILE_FAILED",
+        "messenger",
+        error instanceof Error ? error.message : "Failed to fetch Messenger profile"
+      );
+    }
+  }
+
+  /**
+   * Set Messenger Profile settings. Only the provided fields are changed.
+   */
+  async setMessengerProfile(
+    pageAccessToken: string,
+    settings: MessengerProfileSettings
+  ): Promise<void> {
+    try {
+      this.validateMessengerProfileSettings(settings);
+
+      const url = `${MessengerExtendedService.FACEBOOK_GRAPH_BASE_URL}/${this.apiVersion}/me/messenger_profile`;
+      const fields = Object.keys(settings);
+
+      this.log.info(`Updating Messenger profile fields: ${fields.join(", ")}`);
+
+      const response = await this.httpClient.send(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${pageAccessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(settings),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as MessengerApiResponse;
+        this.log.error("Failed to update Messenger profile", errorData);
+        throw new MessageMeshError(
+          "MESSENGER_PROFILE_FAILED",
+          "messenger",
+          errorData.error?.message || "Failed to update Messenger profile"
+        );
+      }
+
+      this.log.info(`Successfully updated Messenger profile fields: ${fields.join(", ")}`);
+    } catch (error) {
+      if (error instanceof MessageMeshError) {
+        throw error;
+      }
+      this.log.error("Error updating Messenger profile", error);
+      throw new MessageMeshError(
+        "MESSENGER_PROFILE_FAILED",
+        "messenger",
+        error instanceof Error ? error.message : "Failed to update Messenger profile"
+      );
+    }
+  }
+
+  /**
+   * Delete Messenger Profile settings
+   */
+  async deleteMessengerProfile(
+    pageAccessToken: string,
+    fields: MessengerProfileField[]
+  ): Promise<void> {
+    try {
+      if (fields.length === 0) {
+        throw new MessageMeshError(
+          "INVALID_PROFILE_FIELDS",
+          "messenger",
+          "At least one Messenger profile field is required"
+        );
+      }
+
+      const url = `${MessengerExtendedService.FACEBOOK_GRAPH_BASE_URL}/${this.apiVersion}/me/messenger_profile`;
+
+      this.log.info(`Deleting Messenger profile fields: ${fields.join(", ")}`);
+
+      const response = await this.httpClient.send(url, {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${pageAccessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ fields }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as MessengerApiResponse;
+        this.log.error("Failed to delete Messenger profile fields", errorData);
+        throw new MessageMeshError(
+          "MESSENGER_PROFILE_FAILED",
+          "messenger",
+          errorData.error?.message || "Failed to delete Messenger profile fields"
+        );
+      }
+
+      this.log.info(`Successfully deleted Messenger profile fields: ${fields.join(", ")}`);
+    } catch (error) {
+      if (error instanceof MessageMeshError) {
+        throw error;
+      }
+      this.log.error("Error deleting Messenger profile fields", error);
+      throw new MessageMeshError(
+        "MESSENGER_PROFILE_FAILED",
+        "messenger",
+        error instanceof Error ? error.message : "Failed to delete Messenger profile fields"
+      );
+    }
+  }
+
+  /**
+   * Set the Get Started button payload
+   */
+  async setGetStarted(pageAccessToken: string, payload: string): Promise<void> {
+    await this.setMessengerProfile(pageAccessToken, { get_started: { payload } });
+  }
+
+  /**
+   * Set the greeting text. A plain string is used as the default locale.
+   */
+  async setGreeting(
+    pageAccessToken: string,
+    greeting: string | MessengerGreeting[]
+  ): Promise<void> {
+    const greetings =
+      typeof greeting === "string" ? [{ locale: "default", text: greeting }] : greeting;
+    await this.setMessengerProfile(pageAccessToken, { greeting: greetings });
+  }
+
+  /**
+   * Set the persistent menu. Requires a Get Started button on the page.
+   */
+  async setPersistentMenu(
+    pageAccessToken: string,
+    menus: MessengerPersistentMenu[]
+  ): Promise<void> {
+    await this.setMessengerProfile(pageAccessToken, { persistent_menu: menus });
+  }
+
+  /**
+   * Set ice breaker questions shown when a conversation starts
+   */
+  async setIceBreakers(
+    pageAccessToken: string,
+    iceBreakers: MessengerIceBreakers[]
+  ): Promise<void> {
+    await this.setMessengerProfile(pageAccessToken, { ice_breakers: iceBreakers });
+  }
+
+  /**
+   * Set the domains allowed for webviews and plugins
+   */
+  async setWhitelistedDomains(pageAccessToken: string, domains: string[]): Promise<void> {
+    await this.setMessengerProfile(pageAccessToken, { whitelisted_domains: domains });
+  }
+
+  /**
+   * Apply the greeting text and persistent menu declared in a page's MessengerConfig
+   */
+  async applyMessengerConfig(config: MessengerConfig): Promise<void> {
+    const settings: MessengerProfileSettings = {};
+
+    if (config.greeting_text) {
+      settings.greeting = [{ locale: "default", text: config.greeting_text }];
+    }
+    if (config.persistent_menu) {
+      settings.persistent_menu = (
+        Array.isArray(config.persistent_menu) ? config.persistent_menu : [config.persistent_menu]
+      ) as MessengerPersistentMenu[];
+    }
+
+    if (Object.keys(settings).length === 0) {
+      this.log.debug(`No Messenger profile settings to apply for page ${config.page_id}`);
+      return;
+    }
+
+    await this.setMessengerProfile(config.page_access_token, settings);
+  }
+
+  /**
+   * Pass thread control to another app, e.g. from a bot to a live-agent inbox
+   */
+  async passThreadControl(
+    pageAccessToken: string,
+    options: PassThreadControlOptions
+  ): Promise<void> {
+    if (!options.targetAppId?.trim()) {
+      throw new MessageMeshError(
+        "INVALID_HANDOVER_OPTIONS",
+        "messenger",
+        "Target app ID is required"
+      );
+    }
+    await this.postThreadControl("pass_thread_control", pageAccessToken, options, {
+      target_app_id: options.targetAppId,
+    });
+  }
+
+  /**
+   * Take thread control from the app that owns the thread. Only the primary receiver
+   * can take control.
+   */
+  async takeThreadControl(
+    pageAccessToken: string,
+    options: ThreadControlOptions
+  ): Promise<void> {
+    await this.postThreadControl("take_thread_control", pageAccessToken, options);
+  }
+
+  /**
+   * Ask the app that owns the thread to pass control to this app
+   */
+  async requestThreadControl(
+    pageAccessToken: string,
+    options: ThreadControlOptions
+  ): Promise<void> {
+    await this.postThreadControl("request_thread_control", pageAccessToken, options);
+  }
+
+  /**
+   * Give up thread control without choosing the next owner
+   */
+  async releaseThreadControl(
+    pageAccessToken: string,
+    options: ThreadControlOptions
+  ): Promise<void> {
+    await this.postThreadControl("release_thread_control", pageAccessToken, options);
+  }
+
+  /**
+   * Get the ID of the app that currently controls a thread
+   */
+  async getThreadOwner(
+    pageAccessToken: string,
+    recipientId: string,
+    platform: HandoverPlatform = "messenger"
+  ): Promise<string | undefined> {
+    const params = new URLSearchParams({ recipient: recipientId });
+    if (platform === "instagram") {
+      params.set("platform", "instagram");
+    }
+
+    const data = await this.getHandoverResource<{
+      data?: Array<{ thread_owner?: { app_id?: string } }>;
+    }>(pageAccessToken, "thread_owner", params, "Failed to fetch thread owner");
+    return data.data?.[0]?.thread_owner?.app_id;
+  }
+
+  /**
+   * Get the apps that can receive events for the page as secondary receivers
+   */
+  async getSecondaryReceivers(
+    pageAccessToken: string,
+    platform: HandoverPlatform = "messenger"
+  ): Promise<SecondaryReceiver[]> {
+    const params = new URLSearchParams({ fields: "id,name" });
+    if (platform === "instagram") {
+      params.set("platform", "instagram");
+    }
+
+    const data = await this.getHandoverResource<{ data?: SecondaryReceiver[] }>(
+      pageAccessToken,
+      "secondary_receivers",
+      params,
+      "Failed to fetch secondary receivers"
+    );
+    return data.data || [];
+  }
+
+  private async postThreadControl(
+    action: ThreadControlAction,
+    pageAccessToken: string,
+    options: ThreadControlOptions,
+    body: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      if (!options.recipientId?.trim()) {
+        throw new MessageMeshError(
+          "INVALID_HANDOVER_OPTIONS",
+          "messenger",
+          "Recipient ID is required"
+        );
+      }
+      if (options.metadata && options.metadata.length > 1000) {
+        throw new MessageMeshError(
+          "INVALID_HANDOVER_OPTIONS",
+          "messenger",
+          "Handover metadata cannot exceed 1000 characters"
+        );
+      }
+
+      const url = `${MessengerExtendedService.FACEBOOK_GRAPH_BASE_URL}/${this.apiVersion}/me/${action}`;
+      // Instagram threads are addressed by IGSID and need the platform on the request
+      const query = options.platform === "instagram" ? "?platform=instagram" : "";
+
+      this.log.info(`Calling ${action} for recipient ${options.recipientId}`, {
+        platform: options.platform || "messenger",
+      });
+
+      const response = await this.httpClient.send(`${url}${query}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${pageAccessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          recipient: { id: options.recipientId },
+          ...body,
+          ...(options.metadata ? { metadata: options.metadata } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as MessengerApiResponse;
+        this.log.error(`Failed to call ${action}`, errorData);
+        throw new MessageMeshError(
+          "HANDOVER_FAILED",
+          "messenger",
+          errorData.error?.message || `Failed to call ${action}`
+        );
+      }
+    } catch (error) {
+      if (error instanceof MessageMeshError) {
+        throw error;
+      }
+      this.log.error(`Error calling ${action}`, error);
+      throw new MessageMeshError(
+        "HANDOVER_FAILED",
+        "messenger",
+        error instanceof Error ? error.message : `Failed to call ${action}`
+      );
+    }
+  }
+
+  private async getHandoverResource<T>(
+    pageAccessToken: string,
+    resource: "thread_owner" | "secondary_receivers",
+    params: URLSearchParams,
+    failureMessage: string
+  ): Promise<T> {
+    try {
+      const url = `${MessengerExtendedService.FACEBOOK_GRAPH_BASE_URL}/${this.apiVersion}/me/${resource}`;
+
+      const response = await this.httpClient.send(`${url}?${params.toString()}`, {
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${pageAccessToken}`,
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json() as MessengerApiResponse;
+        this.log.error(failureMessage, errorData);
+        throw new MessageMeshError(
+          "HANDOVER_FAILED",
+          "messenger",
+          errorData.error?.message || failureMessage
+        );
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      if (error instanceof MessageMeshError) {
+        throw error;
+      }
+      this.log.error(failureMessage, error);
+      throw new MessageMeshError(
+        "HANDOVER_FAILED",
+        "messenger",
+        error instanceof Error ? error.message : failureMessage
+      );
+    }
+  }
+
+  private validateMessengerProfileSettings(settings: MessengerProfileSettings): void {
+    if (Object.keys(settings).length === 0) {
+      throw new MessageMeshError(
+        "INVALID_PROFILE_SETTINGS",
+        "messenger",
+        "At least one Messenger profile setting is required"
+      );
+    }
+
+    if (settings.get_started && !settings.get_started.payload?.trim()) {
+      throw new MessageMeshError(
+        "INVALID_PROFILE_SETTINGS",
+        "messenger",
+        "Get Started payload is required"
+      );
+    }
+
+    if (settings.greeting) {
+      if (!settings.greeting.some((greeting) => greeting.locale === "default")) {
+        throw new MessageMeshError(
+          "INVALID_PROFILE_SETTINGS",
+          "messenger",
+          "Greeting must include a \"default\" locale"
+        );
+      }
+      for (const greeting of settings.greeting) {
+        if (!greeting.text?.trim() || greeting.text.length > 160) {
+          throw new MessageMeshError(
+            "INVALID_PROFILE_SETTINGS",
+            "messenger",
+            `Greeting text for locale ${greeting.locale} must be 1-160 characters`
+          );
+        }
+      }
+    }
+
+    if (settings.persistent_menu) {
+      for (const menu of settings.persistent_menu) {
+        if (!menu.call_to_actions || menu.call_to_actions.length === 0) {
+          if (menu.composer_input_disabled) {
+            throw new MessageMeshError(
+              "INVALID_PROFILE_SETTINGS",
+              "messenger",
+              "Persistent menu needs items when composer input is disabled"
+            );
+          }
+          continue;
+        }
+        if (menu.call_to_actions.length > 20) {
+          throw new MessageMeshError(
+            "INVALID_PROFILE_SETTINGS",
+            "messenger",
+            "Persistent menu supports maximum 20 items per locale"
+          );
+        }
+        for (const item of menu.call_to_actions) {
+          if (!item.title?.trim() || item.title.length > 30) {
+            throw new MessageMeshError(
+              "INVALID_PROFILE_SETTINGS",
+              "messenger",
+              "Persistent menu item titles must be 1-30 characters"
+            );
+          }
+          if (item.type === "web_url" && !item.url?.startsWith("https://")) {
+            throw new MessageMeshError(
+              "INVALID_PROFILE_SETTINGS",
+              "messenger",
+              "Persistent menu web_url items require an HTTPS url"
+            );
+          }
+          if (item.type === "postback" && !item.payload) {
+            throw new MessageMeshError(
+              "INVALID_PROFILE_SETTINGS",
+              "messenger",
+              "Persistent menu postback items require a payload"
+            );
+          }
+        }
+      }
+    }
+
+    if (settings.ice_breakers) {
+      for (const iceBreakers of settings.ice_breakers) {
+        if (iceBreakers.call_to_actions.length > 4) {
+          throw new MessageMeshError(
+            "INVALID_PROFILE_SETTINGS",
+            "messenger",
+            "Ice breakers support maximum 4 questions per locale"
+          );
+        }
+        for (const iceBreaker of iceBreakers.call_to_actions) {
+          if (!iceBreaker.question?.trim() || !iceBreaker.payload?.trim()) {
+            throw new MessageMeshError(
+              "INVALID_PROFILE_SETTINGS",
+              "messenger",
+              "Ice breakers require a question and a payload"
+            );
+          }
+        }
+      }
+    }
+
+    if (settings.whitelisted_domains) {
+      if (settings.whitelisted_domains.length > 50) {
+        throw new MessageMeshError(
+          "INVALID_PROFILE_SETTINGS",
+          "messenger",
+          "Whitelisted domains support maximum 50 entries"
+        );
+      }
+      for (const domain of settings.whitelisted_domains) {
+        if (!domain.startsWith("https://")) {
+          throw new MessageMeshError(
+            "INVALID_PROFILE_SETTINGS",
+            "messenger",
+            `Whitelisted domain must use HTTPS: ${domain}`
+          );
+        }
+      }
+    }
+  }
+
   /**
    * Send test message to verify connection
    */
@@ -643,7 +1263,7 @@ export class MessengerExtendedService extends MessengerService implements IMesse
       });
       return true;
     } catch (error) {
-      Logger.error(
+      this.log.error(
         "Error sending test message",
         error
       );
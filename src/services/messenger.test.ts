@@ -0,0 +1,244 @@
+import { describe, it, expect } from "bun:test";
+import { MessengerService } from "./messenger.js";
+import { HttpClient } from "../http-client.js";
+import { FakeGraphApi } from "../fake-graph-api.js";
+import { Logger } from "../logger.js";
+import { AttachmentCache } from "../attachment-cache.js";
+import type { MessengerMessageTag, MessengerMessagingType, MessengerQuickReply } from "../types.js";
+
+const setup = () => {
+  const graph = new FakeGraphApi({ meId: "100000000000001" });
+  const logger = new Logger({ enableConsole: false });
+  const service = new MessengerService(new HttpClient({ transport: graph.transport, logger }), {
+    attachmentCache: new AttachmentCache({ logger }),
+    logger,
+  });
+  return { graph, service };
+};
+
+const baseOptions = {
+  accessToken: "test_token",
+  to: "2000000001",
+};
+
+describe("MessengerService", () => {
+  it("should apply messaging type, tag and notification type to every send method", async () => {
+    const { graph, service } = setup();
+
+    // Sequential, so the sent messages are recorded in call order
+    const results = [
+      await service.sendMessage({
+        ...baseOptions,
+        message: "Your order has shipped",
+        tag: "POST_PURCHASE_UPDATE",
+        notificationType: "SILENT_PUSH",
+      }),
+      await service.sendMedia({
+        ...baseOptions,
+        type: "image",
+        mediaUrl: "https://example.com/receipt.png",
+        messagingType: "UPDATE",
+      }),
+      await service.sendTemplate({
+        ...baseOptions,
+        templateType: "button",
+        text: "Your event starts in an hour",
+        buttons: [{ type: "postback", title: "Remind me", payload: "REMIND" }],
+        messagingType: "MESSAGE_TAG",
+        tag: "CONFIRMED_EVENT_UPDATE",
+        notificationType: "NO_PUSH",
+      }),
+      await service.replyMessage({
+        ...baseOptions,
+        message: "An agent will follow up",
+        replyToMessageId: "m_1",
+        tag: "HUMAN_AGENT",
+      }),
+    ];
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(
+      graph.sentMessages.map(({ payload }) => ({
+        messaging_type: payload.messaging_type,
+        tag: payload.tag,
+        notification_type: payload.notification_type,
+      }))
+    ).toEqual([
+      {
+        messaging_type: "MESSAGE_TAG",
+        tag: "POST_PURCHASE_UPDATE",
+        notification_type: "SILENT_PUSH",
+      },
+      { messaging_type: "UPDATE", tag: undefined, notification_type: undefined },
+      {
+        messaging_type: "MESSAGE_TAG",
+        tag: "CONFIRMED_EVENT_UPDATE",
+        notification_type: "NO_PUSH",
+      },
+      { messaging_type: "MESSAGE_TAG", tag: "HUMAN_AGENT", notification_type: undefined },
+    ]);
+  });
+
+  it("should reject invalid messaging type and tag combinations before calling the API", async () => {
+    const { graph, service } = setup();
+    const media = { ...baseOptions, type: "image" as const, mediaUrl: "https://example.com/a.png" };
+
+    const results = await Promise.all([
+      service.sendMessage({ ...baseOptions, message: "Hi", messagingType: "MESSAGE_TAG" }),
+      service.sendMedia({ ...media, messagingType: "RESPONSE", tag: "ACCOUNT_UPDATE" }),
+      service.sendMedia({ ...media, tag: "GAME_EVENT" as MessengerMessageTag }),
+      service.sendMessage({
+        ...baseOptions,
+        message: "Hi",
+        messagingType: "NON_PROMOTIONAL_SUBSCRIPTION" as MessengerMessagingType,
+      }),
+      service.replyMessage({
+        ...baseOptions,
+        message: "Hi",
+        replyToMessageId: "m_1",
+        notificationType: "LOUD" as "REGULAR",
+      }),
+    ]);
+
+    expect(results.map((result) => result.error?.code)).toEqual([
+      "INVALID_MESSAGING_TYPE",
+      "INVALID_MESSAGING_TYPE",
+      "INVALID_MESSAGE_TAG",
+      "INVALID_MESSAGING_TYPE",
+      "INVALID_NOTIFICATION_TYPE",
+    ]);
+    expect(graph.requests).toHaveLength(0);
+  });
+
+  it("should send mark_seen, typing_on and typing_off sender actions", async () => {
+    const { graph, service } = setup();
+
+    const results = [
+      await service.markAsRead(baseOptions),
+      await service.sendTypingIndicator({ ...baseOptions, isTyping: true }),
+      await service.sendTypingIndicator({ ...baseOptions, isTyping: false }),
+    ];
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(
+      graph.getRequests({ method: "POST", path: "/100000000000001/messages" }).map((r) => r.body)
+    ).toEqual([
+      { recipient: { id: "2000000001" }, sender_action: "mark_seen" },
+      { recipient: { id: "2000000001" }, sender_action: "typing_on" },
+      { recipient: { id: "2000000001" }, sender_action: "typing_off" },
+    ]);
+    expect(graph.sentMessages).toHaveLength(0);
+  });
+
+  it("should send text, phone number and email quick replies", async () => {
+    const { graph, service } = setup();
+
+    const result = await service.sendMessage({
+      ...baseOptions,
+      message: "How should we reach you?",
+      quickReplies: [
+        {
+          contentType: "text",
+          title: "Call me later",
+          payload: "CALL_LATER",
+          imageUrl: "https://example.com/phone.png",
+        },
+        { contentType: "user_phone_number" },
+        { contentType: "user_email" },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(graph.sentMessages[0]?.payload.message).toEqual({
+      text: "How should we reach you?",
+      quick_replies: [
+        {
+          content_type: "text",
+          title: "Call me later",
+          payload: "CALL_LATER",
+          image_url: "https://example.com/phone.png",
+        },
+        { content_type: "user_phone_number" },
+        { content_type: "user_email" },
+      ],
+    });
+  });
+
+  it("should reject quick replies over the count and title limits", async () => {
+    const { graph, service } = setup();
+    const reply = { contentType: "text" as const, title: "Yes", payload: "YES" };
+    const send = (quickReplies: MessengerQuickReply[]) =>
+      service.sendMessage({ ...baseOptions, message: "Continue?", quickReplies });
+
+    const results = [
+      await send([]),
+      await send(Array(14).fill(reply)),
+      await send([{ ...reply, title: "x".repeat(21) }]),
+      await send([{ contentType: "text", payload: "YES" }]),
+      await send([{ ...reply, payload: "x".repeat(1001) }]),
+      await send([{ contentType: "location" as "text" }]),
+    ];
+
+    expect(results.map((result) => result.error?.code)).toEqual(
+      Array(6).fill("INVALID_QUICK_REPLIES")
+    );
+    expect(results.map((result) => result.error?.message)).toEqual([
+      "Quick replies must contain between 1 and 13 items",
+      "Quick replies must contain between 1 and 13 items",
+      "Text quick replies require a title of 1-20 characters",
+      "Text quick replies require a title of 1-20 characters",
+      "Text quick replies require a payload of 1-1000 characters",
+      "Invalid quick reply content type: location. Must be one of: text, user_phone_number, user_email",
+    ]);
+    expect((await send(Array(13).fill({ ...reply, title: "x".repeat(20) }))).success).toBe(true);
+    expect(graph.sentMessages).toHaveLength(1);
+  });
+
+  it("should upload attachments once and reuse their IDs", async () => {
+    const { graph, service } = setup();
+    const brochure = new Uint8Array([37, 80, 68, 70]);
+    const upload = {
+      accessToken: "test_token",
+      type: "file" as const,
+      file: brochure,
+      mimeType: "application/pdf",
+      filename: "brochure.pdf",
+    };
+
+    const first = await service.uploadAttachment(upload);
+    const second = await service.uploadAttachment({ ...upload, file: new Blob([brochure]) });
+    const media = { ...baseOptions, type: "image" as const, mediaUrl: "https://example.com/a.png" };
+    const firstSend = await service.sendMedia(media);
+    await service.sendMedia(media);
+
+    expect(first).toMatchObject({ success: true, cached: false });
+    expect(second).toEqual({ success: true, attachmentId: first.attachmentId, cached: true });
+    expect(graph.getRequests({ path: "/100000000000001/message_attachments" })).toHaveLength(1);
+    expect(graph.sentMessages.map(({ payload }) => payload.message.attachment.payload)).toEqual([
+      { url: "https://example.com/a.png", is_reusable: true },
+      { attachment_id: firstSend.attachmentId },
+    ]);
+  });
+
+  it("should drop a cached attachment ID only when Graph rejects it", async () => {
+    const { graph, service } = setup();
+    const media = { ...baseOptions, type: "image" as const, mediaUrl: "https://example.com/a.png" };
+    const path = "/100000000000001/messages";
+
+    const firstSend = await service.sendMedia(media);
+    graph.failNext({ path, status: 400, code: 10, message: "(#10) Outside of allowed window" });
+    const blocked = await service.sendMedia(media);
+    await service.sendMedia(media);
+    graph.failNext({ path, status: 400, code: 100, message: "(#100) Invalid attachment_id" });
+    const rejected = await service.sendMedia(media);
+    await service.sendMedia(media);
+
+    expect(blocked.success).toBe(false);
+    expect(rejected.success).toBe(false);
+    expect(graph.sentMessages.map(({ payload }) => payload.message.attachment.payload)).toEqual([
+      { url: "https://example.com/a.png", is_reusable: true },
+      { attachment_id: firstSend.attachmentId },
+      { url: "https://example.com/a.png", is_reusable: true },
+    ]);
+  });
+});
@@ -1,10 +1,17 @@
-import type { IMessengerService } from "../interfaces.js";
+import type { IMessengerService, ServiceDependencies } from "../interfaces.js";
 import type {
   SendMessageResponse,
   MessengerMessageOptions,
+  MessengerQuickReply,
+  MessengerMessagingType,
+  MessengerMessageTag,
+  MessengerNotificationType,
   MessengerMediaOptions,
   MessengerTemplateOptions,
   MessengerReplyOptions,
+  MessengerPrivateReplyOptions,
+  MessengerMarkAsReadOptions,
+  MessengerTypingIndicatorOptions,
   MessengerUserProfileOptions,
   MessengerUserProfileResponse,
   MessengerUserProfile,
@@ -17,10 +24,16 @@ import type {
   MessengerTemplateListResponse,
   MessengerTemplate,
   MessengerTemplateComponent,
+  MessengerAttachmentUploadOptions,
+  AttachmentUploadResponse,
 } from "../types.js";
 import { HttpClient } from "../http-client.js";
 import { MessageMeshError } from "../types.js";
 import { SecurityUtils } from "../security.js";
+import { Logger } from "../logger.js";
+import { PlatformCapabilitiesManager } from "../platform-capabilities.js";
+import { AttachmentCache, type AttachmentReference } from "../attachment-cache.js";
+import { readMediaSource, getMediaSourceFilename } from "../media-source.js";
 
 interface MessengerApiResponse {
   id?: string;
@@ -44,8 +57,13 @@ interface MessengerApiResponse {
 
 export class MessengerService implements IMessengerService {
   private static readonly BASE_URL = "https://graph.facebook.com/v23.0";
+  // Page ID per access token, so sends skip the /me lookup after the first one
+  private readonly pageIds = new Map<string, string>();
 
-  constructor(private httpClient: HttpClient) {}
+  constructor(
+    protected httpClient: HttpClient,
+    protected deps: ServiceDependencies = {}
+  ) {}
 
   async validateAccessToken(accessToken: string): Promise<boolean> {
     try {
@@ -67,13 +85,22 @@ export class MessengerService implements IMessengerService {
       this.validateMessageOptions(options);
 
       const pageId = await this.extractPageId(options.accessToken);
+      const messaging = await this.resolveMessagingType(options.to, pageId, options);
       const payload = {
         recipient: {
           id: options.to,
         },
-        messaging_type: "RESPONSE",
+        ...messaging,
         message: {
           text: options.message,
+          ...(options.quickReplies && {
+            quick_replies: options.quickReplies.map((quickReply) => ({
+              content_type: quickReply.contentType,
+              ...(quickReply.title && { title: quickReply.title }),
+              ...(quickReply.payload && { payload: quickReply.payload }),
+              ...(quickReply.imageUrl && { image_url: quickReply.imageUrl }),
+            })),
+          }),
         },
         metadata: options.metadata ? JSON.stringify(options.metadata) : undefined,
       };
@@ -90,10 +117,11 @@ export class MessengerService implements IMessengerService {
 
       if (response.status === 200) {
         const data = (await response.json()) as { message_id?: string };
-        return {
-          success: true,
-          messageId: data.message_id,
-        };
+        return this.trackOutbound(
+          { success: true, messageId: data.message_id },
+          options.to,
+          pageId
+        );
       }
 
       throw new MessageMeshError(
@@ -107,10 +135,17 @@ export class MessengerService implements IMessengerService {
   }
 
   async sendMedia(options: MessengerMediaOptions): Promise<SendMessageResponse> {
+    let cachedReference: AttachmentReference | undefined;
+
     try {
       this.validateMediaOptions(options);
 
       const pageId = await this.extractPageId(options.accessToken);
+      const messaging = await this.resolveMessagingType(options.to, pageId, options);
+      const reference: AttachmentReference | undefined = options.mediaUrl
+        ? { platform: "messenger", ownerId: pageId, type: options.type, url: options.mediaUrl }
+        : undefined;
+      const cachedId = reference && (await this.deps.attachmentCache?.get(reference));
 
       // Build attachment object based on media type
       const attachment: {
@@ -125,8 +160,11 @@ export class MessengerService implements IMessengerService {
         payload: {},
       };
 
-      // Use media URL or media ID
-      if (options.mediaUrl) {
+      // Use a cached attachment ID for a URL sent before, else the media URL or media ID
+      if (cachedId) {
+        attachment.payload.attachment_id = cachedId;
+        cachedReference = reference;
+      } else if (options.mediaUrl) {
         attachment.payload.url = options.mediaUrl;
         attachment.payload.is_reusable = true;
       } else if (options.mediaId) {
@@ -149,7 +187,7 @@ export class MessengerService implements IMessengerService {
         recipient: {
           id: options.to,
         },
-        messaging_type: "RESPONSE",
+        ...messaging,
         message,
         metadata: options.metadata ? JSON.stringify(options.metadata) : undefined,
       };
@@ -166,11 +204,18 @@ export class MessengerService implements IMessengerService {
 
       if (response.status === 200) {
         const data = (await response.json()) as { message_id?: string; attachment_id?: string };
-        return {
-          success: true,
-          messageId: data.message_id,
-          attachmentId: data.attachment_id,
-        };
+        if (reference && !cachedId && data.attachment_id) {
+          await this.deps.attachmentCache?.set(reference, data.attachment_id);
+        }
+        return this.trackOutbound(
+          {
+            success: true,
+            messageId: data.message_id,
+            attachmentId: data.attachment_id ?? cachedId,
+          },
+          options.to,
+          pageId
+        );
       }
 
       throw new MessageMeshError(
@@ -179,6 +224,10 @@ export class MessengerService implements IMessengerService {
         `Failed to send media: ${response.status}`
       );
     } catch (error) {
+      // Graph rejected the cached attachment ID; the next send uploads the URL again
+      if (cachedReference && AttachmentCache.isInvalidAttachmentError(error)) {
+        await this.deps.attachmentCache?.delete(cachedReference);
+      }
       return this.handleError(error);
     }
   }
@@ -188,6 +237,7 @@ export class MessengerService implements IMessengerService {
       this.validateTemplateOptions(options);
 
       const pageId = await this.extractPageId(options.accessToken);
+      const messaging = await this.resolveMessagingType(options.to, pageId, options);
 
       let template: {
         type: string;
@@ -249,7 +299,7 @@ export class MessengerService implements IMessengerService {
         recipient: {
           id: options.to,
         },
-        messaging_type: "RESPONSE",
+        ...messaging,
         message: {
           attachment: template,
         },
@@ -268,10 +318,11 @@ export class MessengerService implements IMessengerService {
 
       if (response.status === 200) {
         const data = (await response.json()) as { message_id?: string };
-        return {
-          success: true,
-          messageId: data.message_id,
-        };
+        return this.trackOutbound(
+          { success: true, messageId: data.message_id },
+          options.to,
+          pageId
+        );
       }
 
       throw new MessageMeshError(
@@ -293,11 +344,12 @@ export class MessengerService implements IMessengerService {
       // So we'll send a regular message instead and add context to indicate it's a reply
       
       const pageId = await this.extractPageId(options.accessToken);
+      const messaging = await this.resolveMessagingType(options.to, pageId, options);
       const payload = {
         recipient: {
           id: options.to,
         },
-        messaging_type: "RESPONSE",
+        ...messaging,
         message: {
           text: options.message,
         },
@@ -323,10 +375,11 @@ export class MessengerService implements IMessengerService {
 
       if (response.status === 200) {
         const data = (await response.json()) as { message_id?: string };
-        return {
-          success: true,
-          messageId: data.message_id,
-        };
+        return this.trackOutbound(
+          { success: true, messageId: data.message_id },
+          options.to,
+          pageId
+        );
       }
 
       // Get detailed error information from Facebook API
@@ -352,6 +405,190 @@ export class MessengerService implements IMessengerService {
     }
   }
 
+  /**
+   * Reply privately to a public comment. Each comment accepts one private reply,
+   * sent within 7 days of the comment; the 24-hour window does not apply
+   */
+  async sendPrivateReply(options: MessengerPrivateReplyOptions): Promise<SendMessageResponse> {
+    try {
+      this.validatePrivateReplyOptions(options);
+
+      const pageId = await this.extractPageId(options.accessToken);
+      const payload = {
+        recipient: {
+          comment_id: options.commentId,
+        },
+        message: {
+          text: options.message,
+        },
+        metadata: options.metadata ? JSON.stringify(options.metadata) : undefined,
+      };
+
+      const response = await this.httpClient.post(
+        `${MessengerService.BASE_URL}/${pageId}/messages`,
+        JSON.stringify(payload),
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        "messenger"
+      );
+
+      if (response.status === 200) {
+        const data = (await response.json()) as { message_id?: string; recipient_id?: string };
+        return this.trackOutbound(
+          { success: true, messageId: data.message_id },
+          data.recipient_id ?? options.commentId,
+          pageId
+        );
+      }
+
+      throw new MessageMeshError(
+        "SEND_FAILED",
+        "messenger",
+        `Failed to send private reply: ${response.status}`
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Upload an attachment from a URL or a file and return its reusable attachment ID.
+   * Uploads of a URL or file contents seen before return the cached ID instead.
+   */
+  async uploadAttachment(
+    options: MessengerAttachmentUploadOptions
+  ): Promise<AttachmentUploadResponse> {
+    try {
+      this.validateAttachmentUploadOptions(options);
+
+      const pageId = await this.extractPageId(options.accessToken);
+      const cache = options.cache === false ? undefined : this.deps.attachmentCache;
+      const blob = options.file
+        ? await readMediaSource(options.file, options.mimeType ?? "", "messenger")
+        : undefined;
+
+      if (blob) {
+        const maxBytes = PlatformCapabilitiesManager.getMaxMediaSize("messenger") * 1024 * 1024;
+        if (blob.size > maxBytes) {
+          throw new MessageMeshError(
+            "MEDIA_TOO_LARGE",
+            "messenger",
+            `Media size of ${blob.size} bytes exceeds the Messenger limit of ${maxBytes} bytes`
+          );
+        }
+      }
+
+      const reference: AttachmentReference = {
+        platform: "messenger",
+        ownerId: pageId,
+        type: options.type,
+        url: options.url,
+        contentHash: blob && cache ? await AttachmentCache.hashContent(blob) : undefined,
+      };
+      const cachedId = await cache?.get(reference);
+      if (cachedId) {
+        return { success: true, attachmentId: cachedId, cached: true };
+      }
+
+      const attachment = {
+        type: options.type,
+        payload: { ...(options.url && { url: options.url }), is_reusable: true },
+      };
+      const headers: Record<string, string> = { Authorization: `Bearer ${options.accessToken}` };
+      let body: string | FormData;
+      if (blob && options.file) {
+        const formData = new FormData();
+        formData.append("message", JSON.stringify({ attachment }));
+        formData.append("filedata", blob, options.filename ?? getMediaSourceFilename(options.file));
+        body = formData;
+      } else {
+        headers["Content-Type"] = "application/json";
+        body = JSON.stringify({ message: { attachment } });
+      }
+
+      const response = await this.httpClient.post(
+        `${MessengerService.BASE_URL}/${pageId}/message_attachments`,
+        body,
+        headers,
+        "messenger"
+      );
+
+      if (response.status === 200) {
+        const data = (await response.json()) as { attachment_id?: string };
+        if (data.attachment_id) {
+          await cache?.set(reference, data.attachment_id);
+          return { success: true, attachmentId: data.attachment_id, cached: false };
+        }
+      }
+
+      throw new MessageMeshError(
+        "ATTACHMENT_UPLOAD_FAILED",
+        "messenger",
+        `Failed to upload attachment: ${response.status}`
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async markAsRead(options: MessengerMarkAsReadOptions): Promise<SendMessageResponse> {
+    return this.sendSenderAction(options.accessToken, options.to, "mark_seen");
+  }
+
+  async sendTypingIndicator(
+    options: MessengerTypingIndicatorOptions
+  ): Promise<SendMessageResponse> {
+    return this.sendSenderAction(
+      options.accessToken,
+      options.to,
+      options.isTyping ? "typing_on" : "typing_off"
+    );
+  }
+
+  private async sendSenderAction(
+    accessToken: string,
+    to: string,
+    action: "mark_seen" | "typing_on" | "typing_off"
+  ): Promise<SendMessageResponse> {
+    try {
+      this.validateSenderActionOptions(accessToken, to);
+
+      const pageId = await this.extractPageId(accessToken);
+      const payload = {
+        recipient: {
+          id: to,
+        },
+        sender_action: action,
+      };
+
+      const response = await this.httpClient.post(
+        `${MessengerService.BASE_URL}/${pageId}/messages`,
+        JSON.stringify(payload),
+        {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        "messenger"
+      );
+
+      if (response.status === 200) {
+        return {
+          success: true,
+        };
+      }
+
+      throw new MessageMeshError(
+        "SENDER_ACTION_FAILED",
+        "messenger",
+        `Failed to send ${action} action: ${response.status}`
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
   /**
    * Get user profile information
    */
@@ -585,6 +822,11 @@ export class MessengerService implements IMessengerService {
   }
 
   private async extractPageId(accessToken: string): Promise<string> {
+    const cached = this.pageIds.get(accessToken);
+    if (cached) {
+      return cached;
+    }
+
     try {
       const response = await this.httpClient.get(
         `${MessengerService.BASE_URL}/me`,
@@ -603,6 +845,7 @@ export class MessengerService implements IMessengerService {
             "Unable to extract page ID from access token"
           );
         }
+        this.pageIds.set(accessToken, data.id);
         return data.id;
       }
 
@@ -648,6 +891,12 @@ export class MessengerService implements IMessengerService {
       );
     }
 
+    if (options.quickReplies) {
+      this.validateQuickReplies(options.quickReplies);
+    }
+
+    this.validateMessagingOptions(options);
+
     // Validate and sanitize metadata if present
     if (options.metadata) {
       SecurityUtils.validateMetadata(options.metadata, "messenger");
@@ -657,6 +906,106 @@ export class MessengerService implements IMessengerService {
     options.message = sanitizedMessage;
   }
 
+  private validateMessagingOptions(options: {
+    messagingType?: MessengerMessagingType;
+    tag?: MessengerMessageTag;
+    notificationType?: MessengerNotificationType;
+  }): void {
+    const validTypes: MessengerMessagingType[] = ["RESPONSE", "UPDATE", "MESSAGE_TAG"];
+    if (options.messagingType && !validTypes.includes(options.messagingType)) {
+      throw new MessageMeshError(
+        "INVALID_MESSAGING_TYPE",
+        "messenger",
+        `Invalid messaging type: ${options.messagingType}. Must be one of: ${validTypes.join(", ")}`
+      );
+    }
+
+    if (options.messagingType === "MESSAGE_TAG" && !options.tag) {
+      throw new MessageMeshError(
+        "INVALID_MESSAGING_TYPE",
+        "messenger",
+        "A message tag is required when messagingType is MESSAGE_TAG"
+      );
+    }
+
+    if (options.tag && options.messagingType && options.messagingType !== "MESSAGE_TAG") {
+      throw new MessageMeshError(
+        "INVALID_MESSAGING_TYPE",
+        "messenger",
+        "Message tags can only be used with messagingType MESSAGE_TAG"
+      );
+    }
+
+    const validTags: MessengerMessageTag[] = [
+      "CONFIRMED_EVENT_UPDATE",
+      "POST_PURCHASE_UPDATE",
+      "ACCOUNT_UPDATE",
+      "HUMAN_AGENT",
+    ];
+    if (options.tag && !validTags.includes(options.tag)) {
+      throw new MessageMeshError(
+        "INVALID_MESSAGE_TAG",
+        "messenger",
+        `Invalid message tag: ${options.tag}. Must be one of: ${validTags.join(", ")}`
+      );
+    }
+
+    const validNotificationTypes: MessengerNotificationType[] = [
+      "REGULAR",
+      "SILENT_PUSH",
+      "NO_PUSH",
+    ];
+    if (options.notificationType && !validNotificationTypes.includes(options.notificationType)) {
+      throw new MessageMeshError(
+        "INVALID_NOTIFICATION_TYPE",
+        "messenger",
+        `Invalid notification type: ${options.notificationType}. Must be one of: ${validNotificationTypes.join(", ")}`
+      );
+    }
+  }
+
+  private validateQuickReplies(quickReplies: MessengerQuickReply[]): void {
+    if (quickReplies.length === 0 || quickReplies.length > 13) {
+      throw new MessageMeshError(
+        "INVALID_QUICK_REPLIES",
+        "messenger",
+        "Quick replies must contain between 1 and 13 items"
+      );
+    }
+
+    const validContentTypes = ["text", "user_phone_number", "user_email"];
+    for (const quickReply of quickReplies) {
+      if (!validContentTypes.includes(quickReply.contentType)) {
+        throw new MessageMeshError(
+          "INVALID_QUICK_REPLIES",
+          "messenger",
+          `Invalid quick reply content type: ${quickReply.contentType}. Must be one of: ${validContentTypes.join(", ")}`
+        );
+      }
+
+      if (quickReply.contentType === "text") {
+        if (!quickReply.title?.trim() || quickReply.title.length > 20) {
+          throw new MessageMeshError(
+            "INVALID_QUICK_REPLIES",
+            "messenger",
+            "Text quick replies require a title of 1-20 characters"
+          );
+        }
+        if (!quickReply.payload?.trim() || quickReply.payload.length > 1000) {
+          throw new MessageMeshError(
+            "INVALID_QUICK_REPLIES",
+            "messenger",
+            "Text quick replies require a payload of 1-1000 characters"
+          );
+        }
+      }
+
+      if (quickReply.imageUrl) {
+        SecurityUtils.validateUrl(quickReply.imageUrl, "messenger");
+      }
+    }
+  }
+
   private validateMediaOptions(options: MessengerMediaOptions): void {
     // Use security utilities for basic validation
     SecurityUtils.validateAccessToken(options.accessToken, "messenger");
@@ -706,6 +1055,8 @@ export class MessengerService implements IMessengerService {
       );
     }
 
+    this.validateMessagingOptions(options);
+
     // Validate metadata if present
     if (options.metadata) {
       SecurityUtils.validateMetadata(options.metadata, "messenger");
@@ -771,6 +1122,8 @@ export class MessengerService implements IMessengerService {
         break;
     }
 
+    this.validateMessagingOptions(options);
+
     // Validate metadata if present
     if (options.metadata) {
       SecurityUtils.validateMetadata(options.metadata, "messenger");
@@ -783,6 +1136,9 @@ export class MessengerService implements IMessengerService {
       accessToken: options.accessToken,
       to: options.to,
       message: options.message,
+      messagingType: options.messagingType,
+      tag: options.tag,
+      notificationType: options.notificationType,
       metadata: options.metadata,
     });
 
@@ -796,6 +1152,80 @@ export class MessengerService implements IMessengerService {
     }
   }
 
+  private validateAttachmentUploadOptions(options: MessengerAttachmentUploadOptions): void {
+    SecurityUtils.validateAccessToken(options.accessToken, "messenger");
+
+    const validTypes = ["image", "video", "audio", "file"];
+    if (!validTypes.includes(options.type)) {
+      throw new MessageMeshError(
+        "INVALID_MEDIA_TYPE",
+        "messenger",
+        `Invalid media type: ${options.type}. Must be one of: ${validTypes.join(", ")}`
+      );
+    }
+
+    if (!options.url === !options.file) {
+      throw new MessageMeshError(
+        "MISSING_MEDIA_SOURCE",
+        "messenger",
+        "Exactly one of url or file must be provided"
+      );
+    }
+
+    if (options.url) {
+      SecurityUtils.validateUrl(options.url, "messenger");
+    }
+
+    if (options.file && !options.mimeType?.trim()) {
+      throw new MessageMeshError("INVALID_MEDIA_TYPE", "messenger", "MIME type is required");
+    }
+
+    if (options.filename) {
+      options.filename = SecurityUtils.sanitizeText(options.filename);
+    }
+  }
+
+  private validatePrivateReplyOptions(options: MessengerPrivateReplyOptions): void {
+    SecurityUtils.validateAccessToken(options.accessToken, "messenger");
+
+    // Comment IDs are numeric, or "{postId}_{commentId}" on Facebook
+    if (!options.commentId || !/^\d+(_\d+)*$/.test(options.commentId.trim())) {
+      throw new MessageMeshError(
+        "INVALID_COMMENT_ID",
+        "messenger",
+        "Comment ID must be a valid Facebook comment ID"
+      );
+    }
+
+    const sanitizedMessage = SecurityUtils.validateMessageContent(options.message, "messenger");
+    if (sanitizedMessage.length > 2000) {
+      throw new MessageMeshError(
+        "MESSAGE_TOO_LONG",
+        "messenger",
+        "Message content cannot exceed 2000 characters for Messenger"
+      );
+    }
+
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "messenger");
+    }
+
+    options.message = sanitizedMessage;
+  }
+
+  private validateSenderActionOptions(accessToken: string, to: string): void {
+    SecurityUtils.validateAccessToken(accessToken, "messenger");
+    SecurityUtils.validateUserId(to, "messenger");
+
+    if (!/^\d+$/.test(to.trim())) {
+      throw new MessageMeshError(
+        "INVALID_RECIPIENT",
+        "messenger",
+        "Recipient ID must be a valid Facebook user ID (numeric)"
+      );
+    }
+  }
+
   private validateMessengerTemplateCreateOptions(options: MessengerTemplateCreateOptions): void {
     if (!options.accessToken) {
       throw new MessageMeshError("INVALID_ACCESS_TOKEN", "messenger", "Access token is required");
@@ -1048,6 +1478,77 @@ export class MessengerService implements IMessengerService {
     };
   }
 
+  /**
+   * Resolve messaging_type, tag and notification_type for a send. Untagged messages are checked
+   * against the 24-hour customer service window when a window tracker is configured
+   */
+  private async resolveMessagingType(
+    to: string,
+    pageId: string,
+    options: {
+      messagingType?: MessengerMessagingType;
+      tag?: MessengerMessageTag;
+      notificationType?: MessengerNotificationType;
+    } = {}
+  ): Promise<{
+    messaging_type: MessengerMessagingType;
+    tag?: MessengerMessageTag;
+    notification_type?: MessengerNotificationType;
+  }> {
+    const { messagingType, tag, notificationType } = options;
+    const notification = notificationType ? { notification_type: notificationType } : {};
+    const type = messagingType ?? (tag ? "MESSAGE_TAG" : "RESPONSE");
+    if (type === "MESSAGE_TAG") {
+      return { messaging_type: type, tag, ...notification };
+    }
+
+    const tracker = this.deps.windowTracker;
+    if (tracker) {
+      const decision = await tracker.evaluate("messenger", to, pageId);
+      if (decision.action === "block") {
+        throw new MessageMeshError(
+          "OUTSIDE_CONVERSATION_WINDOW",
+          "messenger",
+          "The 24-hour messaging window is closed. Send the message with a message tag instead"
+        );
+      }
+      if (decision.action === "route" && decision.tag) {
+        return { messaging_type: "MESSAGE_TAG", tag: decision.tag, ...notification };
+      }
+    }
+
+    return { messaging_type: type, ...notification };
+  }
+
+  /**
+   * Record a successful send with the delivery tracker, if one is configured
+   */
+  private async trackOutbound(
+    response: SendMessageResponse,
+    to: string,
+    sender?: string
+  ): Promise<SendMessageResponse> {
+    const tracker = this.deps.deliveryTracker;
+    if (tracker && response.messageId) {
+      try {
+        await tracker.recordOutbound({
+          platform: "messenger",
+          messageId: response.messageId,
+          recipient: to,
+          sender,
+        });
+      } catch (error) {
+        (this.deps.logger ?? Logger.getInstance()).warn(
+          "Failed to record outbound message for delivery tracking",
+          "messenger",
+          { messageId: response.messageId },
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+    return response;
+  }
+
   private handleError(error: unknown): SendMessageResponse {
     if (error instanceof MessageMeshError) {
       return {
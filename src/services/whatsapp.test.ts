@@ -0,0 +1,482 @@
+import { describe, it, expect } from "bun:test";
+import { WhatsAppService } from "./whatsapp.js";
+import { HttpClient } from "../http-client.js";
+import { FakeGraphApi } from "../fake-graph-api.js";
+import { Logger } from "../logger.js";
+
+const baseOptions = {
+  accessToken: "test_token",
+  to: "+1234567890",
+  phoneNumberId: "123456789",
+};
+
+const setup = () => {
+  const graph = new FakeGraphApi();
+  const logger = new Logger({ enableConsole: false });
+  const service = new WhatsAppService(new HttpClient({ transport: graph.transport, logger }), {
+    logger,
+  });
+  return { graph, service };
+};
+
+describe("WhatsAppService.sendInteractive", () => {
+  const service = new WhatsAppService(new HttpClient());
+
+  it("should reject reply button messages with more than 3 buttons", async () => {
+    const result = await service.sendInteractive({
+      ...baseOptions,
+      interactiveType: "button",
+      body: "Pick one",
+      buttons: [
+        { id: "a", title: "A" },
+        { id: "b", title: "B" },
+        { id: "c", title: "C" },
+        { id: "d", title: "D" },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("TOO_MANY_BUTTONS");
+  });
+
+  it("should reject button titles longer than 20 characters", async () => {
+    const result = await service.sendInteractive({
+      ...baseOptions,
+      interactiveType: "button",
+      body: "Pick one",
+      buttons: [{ id: "a", title: "This title is far too long" }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("INTERACTIVE_TEXT_TOO_LONG");
+  });
+
+  it("should reject list messages with more than 10 rows", async () => {
+    const rows = Array.from({ length: 11 }, (_, i) => ({ id: `row_${i}`, title: `Row ${i}` }));
+    const result = await service.sendInteractive({
+      ...baseOptions,
+      interactiveType: "list",
+      body: "Choose a slot",
+      listButtonText: "Slots",
+      sections: [{ rows }],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("TOO_MANY_ROWS");
+  });
+
+  it("should require section titles when a list has several sections", async () => {
+    const result = await service.sendInteractive({
+      ...baseOptions,
+      interactiveType: "list",
+      body: "Choose a slot",
+      listButtonText: "Slots",
+      sections: [
+        { rows: [{ id: "1", title: "Morning" }] },
+        { rows: [{ id: "2", title: "Evening" }] },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("INVALID_LIST_SECTION");
+  });
+
+  it("should require an HTTPS URL for CTA URL messages", async () => {
+    const result = await service.sendInteractive({
+      ...baseOptions,
+      interactiveType: "cta_url",
+      body: "Track your order",
+      ctaDisplayText: "Track",
+      ctaUrl: "http://example.com/track",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("INSECURE_URL");
+  });
+});
+
+describe("WhatsAppService product and catalog messages", () => {
+  it("should send single product, product list and catalog payloads", async () => {
+    const { graph, service } = setup();
+
+    const results = [
+      await service.sendInteractive({
+        ...baseOptions,
+        interactiveType: "product",
+        catalogId: "catalog_1",
+        productRetailerId: "sku_1",
+      }),
+      await service.sendInteractive({
+        ...baseOptions,
+        interactiveType: "product_list",
+        catalogId: "catalog_1",
+        header: { type: "text", text: "Summer sale" },
+        body: "Pick your favourites",
+        productSections: [
+          { title: "Shirts", productRetailerIds: ["sku_1", "sku_2"] },
+          { title: "Shoes", productRetailerIds: ["sku_3"] },
+        ],
+      }),
+      await service.sendInteractive({
+        ...baseOptions,
+        interactiveType: "catalog_message",
+        body: "Browse our catalog",
+        thumbnailProductRetailerId: "sku_2",
+      }),
+    ];
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(graph.sentMessages.map(({ payload }) => payload.interactive)).toEqual([
+      {
+        type: "product",
+        action: { catalog_id: "catalog_1", product_retailer_id: "sku_1" },
+      },
+      {
+        type: "product_list",
+        header: { type: "text", text: "Summer sale" },
+        body: { text: "Pick your favourites" },
+        action: {
+          catalog_id: "catalog_1",
+          sections: [
+            {
+              title: "Shirts",
+              product_items: [{ product_retailer_id: "sku_1" }, { product_retailer_id: "sku_2" }],
+            },
+            { title: "Shoes", product_items: [{ product_retailer_id: "sku_3" }] },
+          ],
+        },
+      },
+      {
+        type: "catalog_message",
+        body: { text: "Browse our catalog" },
+        action: {
+          name: "catalog_message",
+          parameters: { thumbnail_product_retailer_id: "sku_2" },
+        },
+      },
+    ]);
+  });
+
+  it("should enforce product and section limits", async () => {
+    const { graph, service } = setup();
+    const productList = {
+      ...baseOptions,
+      interactiveType: "product_list" as const,
+      catalogId: "catalog_1",
+      header: { type: "text" as const, text: "Catalog" },
+      body: "Pick one",
+    };
+    const skus = (count: number, prefix: string) =>
+      Array.from({ length: count }, (_, i) => `${prefix}_${i}`);
+
+    const results = await Promise.all([
+      service.sendInteractive({
+        ...productList,
+        productSections: [
+          { title: "A", productRetailerIds: skus(20, "a") },
+          { title: "B", productRetailerIds: skus(11, "b") },
+        ],
+      }),
+      service.sendInteractive({
+        ...productList,
+        productSections: skus(11, "s").map((title) => ({ title, productRetailerIds: ["sku"] })),
+      }),
+      service.sendInteractive({
+        ...baseOptions,
+        interactiveType: "product",
+        productRetailerId: "sku_1",
+      }),
+    ]);
+
+    expect(results.map((result) => result.error?.code)).toEqual([
+      "TOO_MANY_PRODUCTS",
+      "TOO_MANY_SECTIONS",
+      "INVALID_INTERACTIVE",
+    ]);
+    expect(graph.requests).toHaveLength(0);
+  });
+});
+
+describe("WhatsAppService.sendFlow", () => {
+  it("should send a flow message with its first screen and initial data", async () => {
+    const { graph, service } = setup();
+
+    const result = await service.sendFlow({
+      ...baseOptions,
+      flowId: "flow_1",
+      flowCta: "Book now",
+      body: "Book your next appointment",
+      flowToken: "booking_42",
+      mode: "draft",
+      screen: "APPOINTMENT",
+      data: { location: "Berlin" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(graph.sentMessages[0]?.payload.interactive).toEqual({
+      type: "flow",
+      body: { text: "Book your next appointment" },
+      action: {
+        name: "flow",
+        parameters: {
+          flow_message_version: "3",
+          flow_id: "flow_1",
+          flow_cta: "Book now",
+          flow_token: "booking_42",
+          mode: "draft",
+          flow_action: "navigate",
+          flow_action_payload: { screen: "APPOINTMENT", data: { location: "Berlin" } },
+        },
+      },
+    });
+  });
+
+  it("should reject incomplete flow messages before calling the API", async () => {
+    const { graph, service } = setup();
+    const flow = { ...baseOptions, flowId: "flow_1", flowCta: "Book now", body: "Book" };
+
+    const results = await Promise.all([
+      service.sendFlow({ ...flow, flowId: "" }),
+      service.sendFlow(flow),
+      service.sendFlow({ ...flow, flowAction: "data_exchange", screen: "APPOINTMENT" }),
+      service.sendFlow({ ...flow, screen: "APPOINTMENT", flowCta: "Book your appointment now" }),
+    ]);
+
+    expect(results.map((result) => result.error?.code)).toEqual([
+      "INVALID_FLOW",
+      "INVALID_FLOW",
+      "INVALID_FLOW",
+      "INTERACTIVE_TEXT_TOO_LONG",
+    ]);
+    expect(graph.requests).toHaveLength(0);
+  });
+});
+
+describe("WhatsAppService.uploadMedia", () => {
+  const service = new WhatsAppService(new HttpClient());
+
+  it("should reject MIME types WhatsApp does not support", async () => {
+    const result = await service.uploadMedia({
+      accessToken: "test_token",
+      phoneNumberId: "123456789",
+      file: new Uint8Array([1, 2, 3]),
+      mimeType: "image/gif",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("UNSUPPORTED_MEDIA_TYPE");
+  });
+
+  it("should report unreadable file paths", async () => {
+    const result = await service.uploadMedia({
+      accessToken: "test_token",
+      phoneNumberId: "123456789",
+      file: "/nonexistent/brochure.pdf",
+      mimeType: "application/pdf",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("MEDIA_READ_FAILED");
+  });
+});
+
+describe("WhatsAppService read receipts and typing indicators", () => {
+  it("should send read receipts with and without the typing indicator", async () => {
+    const { graph, service } = setup();
+    const { accessToken, phoneNumberId } = baseOptions;
+
+    const read = await service.markAsRead({ accessToken, phoneNumberId, messageId: "wamid.in1" });
+    const typing = await service.sendTypingIndicator({
+      accessToken,
+      phoneNumberId,
+      messageId: "wamid.in2",
+    });
+
+    expect(read).toMatchObject({ success: true, messageId: "wamid.in1" });
+    expect(typing).toMatchObject({ success: true, messageId: "wamid.in2" });
+    expect(
+      graph.getRequests({ method: "POST", path: "/123456789/messages" }).map((r) => r.body)
+    ).toEqual([
+      { messaging_product: "whatsapp", status: "read", message_id: "wamid.in1" },
+      {
+        messaging_product: "whatsapp",
+        status: "read",
+        message_id: "wamid.in2",
+        typing_indicator: { type: "text" },
+      },
+    ]);
+    expect(graph.sentMessages).toHaveLength(0);
+  });
+});
+
+describe("WhatsAppService location and contacts messages", () => {
+  it("should send location, contacts and location request payloads", async () => {
+    const { graph, service } = setup();
+
+    const results = [
+      await service.sendLocation({
+        ...baseOptions,
+        latitude: 52.52,
+        longitude: 13.405,
+        name: "Main Store",
+        address: "Alexanderplatz 1, Berlin",
+      }),
+      await service.sendContacts({
+        ...baseOptions,
+        contacts: [
+          {
+            name: { formattedName: "Ada Lovelace", firstName: "Ada", lastName: "Lovelace" },
+            phones: [{ phone: "+44 20 7946 0000", type: "WORK", waId: "442079460000" }],
+            emails: [{ email: "ada@example.com", type: "WORK" }],
+            addresses: [{ city: "London", countryCode: "GB", type: "WORK" }],
+            birthday: "1815-12-10",
+          },
+        ],
+      }),
+      await service.sendLocationRequest({ ...baseOptions, body: "Where should we deliver?" }),
+    ];
+
+    expect(results.every((result) => result.success)).toBe(true);
+    const [location, contacts, request] = graph.sentMessages.map(({ payload }) => payload);
+    expect(location?.location).toEqual({
+      latitude: 52.52,
+      longitude: 13.405,
+      name: "Main Store",
+      address: "Alexanderplatz 1, Berlin",
+    });
+    expect(contacts?.contacts).toEqual([
+      {
+        name: { formatted_name: "Ada Lovelace", first_name: "Ada", last_name: "Lovelace" },
+        phones: [{ phone: "+44 20 7946 0000", type: "WORK", wa_id: "442079460000" }],
+        emails: [{ email: "ada@example.com", type: "WORK" }],
+        addresses: [{ city: "London", type: "WORK", country_code: "GB" }],
+        birthday: "1815-12-10",
+      },
+    ]);
+    expect(request?.interactive).toEqual({
+      type: "location_request_message",
+      body: { text: "Where should we deliver?" },
+      action: { name: "send_location" },
+    });
+  });
+
+  it("should reject invalid coordinates and contacts before calling the API", async () => {
+    const { graph, service } = setup();
+    const name = { formattedName: "Ada Lovelace", firstName: "Ada" };
+
+    const results = await Promise.all([
+      service.sendLocation({ ...baseOptions, latitude: 91, longitude: 0 }),
+      service.sendLocation({ ...baseOptions, latitude: 0, longitude: Number.NaN }),
+      service.sendContacts({ ...baseOptions, contacts: [] }),
+      service.sendContacts({ ...baseOptions, contacts: [{ name: { formattedName: "Ada" } }] }),
+      service.sendContacts({ ...baseOptions, contacts: [{ name, phones: [{ type: "HOME" }] }] }),
+      service.sendContacts({ ...baseOptions, contacts: [{ name, emails: [{ email: "ada" }] }] }),
+      service.sendContacts({ ...baseOptions, contacts: [{ name, birthday: "10/12/1815" }] }),
+      service.sendLocationRequest({ ...baseOptions, body: " " }),
+    ]);
+
+    expect(results.map((result) => result.error?.code)).toEqual([
+      "INVALID_COORDINATES",
+      "INVALID_COORDINATES",
+      "INVALID_CONTACTS",
+      "INVALID_CONTACTS",
+      "INVALID_CONTACTS",
+      "INVALID_CONTACTS",
+      "INVALID_CONTACTS",
+      "INVALID_INTERACTIVE",
+    ]);
+    expect(graph.requests).toHaveLength(0);
+  });
+});
+
+describe("WhatsAppService phone number and business profile management", () => {
+  it("should onboard a phone number end to end", async () => {
+    const { graph, service } = setup();
+    graph.addPhoneNumber("waba_1", {
+      id: "123456789",
+      display_phone_number: "+1 555-0100",
+      verified_name: "Acme",
+      code_verification_status: "UNVERIFIED",
+      status: "PENDING",
+      quality_rating: "GREEN",
+      platform: "WHATSAPP",
+      messaging_limit_tier: "TIER_1K",
+      name_status: "APPROVED",
+    });
+    const phone = { accessToken: "test_token", phoneNumberId: "123456789" };
+
+    const results = [
+      await service.requestVerificationCode({ ...phone, codeMethod: "SMS" }),
+      await service.verifyCode({ ...phone, code: "123-456" }),
+      await service.registerPhoneNumber({ ...phone, pin: "246810" }),
+      await service.updateBusinessProfile({
+        ...phone,
+        about: "Hardware for everyone",
+        email: "hello@acme.example",
+        websites: ["https://acme.example"],
+        vertical: "RETAIL",
+        profilePictureHandle: "4::aW1hZ2U=",
+      }),
+    ];
+    const phoneNumber = await service.getPhoneNumber(phone);
+    const profile = await service.getBusinessProfile(phone);
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(graph.getRequests({ path: "/123456789/request_code" })[0]?.body).toEqual({
+      code_method: "SMS",
+      language: "en_US",
+    });
+    expect(graph.getRequests({ path: "/123456789/verify_code" })[0]?.body).toEqual({
+      code: "123456",
+    });
+    expect(phoneNumber.phoneNumber).toMatchObject({
+      codeVerificationStatus: "VERIFIED",
+      status: "CONNECTED",
+      qualityRating: "GREEN",
+      messagingLimitTier: "TIER_1K",
+      nameStatus: "APPROVED",
+    });
+    expect(profile.profile).toEqual({
+      about: "Hardware for everyone",
+      address: undefined,
+      description: undefined,
+      email: "hello@acme.example",
+      profilePictureUrl: "https://pps.whatsapp.net/4::aW1hZ2U=",
+      websites: ["https://acme.example"],
+      vertical: "RETAIL",
+    });
+  });
+
+  it("should validate PINs, verification codes and business profile fields", async () => {
+    const { graph, service } = setup();
+    const phone = { accessToken: "test_token", phoneNumberId: "123456789" };
+
+    const results = await Promise.all([
+      service.registerPhoneNumber({ ...phone, pin: "1234" }),
+      service.setTwoStepPin({ ...phone, pin: "abcdef" }),
+      service.verifyCode({ ...phone, code: "12345" }),
+      service.requestVerificationCode({ ...phone, codeMethod: "EMAIL" as "SMS" }),
+      service.updateBusinessProfile({ ...phone, about: "a".repeat(140) }),
+      service.updateBusinessProfile({
+        ...phone,
+        websites: ["https://a.example", "https://b.example", "https://c.example"],
+      }),
+      service.updateBusinessProfile({ ...phone, websites: ["ftp://acme.example"] }),
+      service.updateBusinessProfile({ ...phone, vertical: "SPACE" as "RETAIL" }),
+      service.getBusinessProfile({ ...phone, phoneNumberId: "" }),
+    ]);
+
+    expect(results.map((result) => result.error?.code)).toEqual([
+      "INVALID_PIN",
+      "INVALID_PIN",
+      "INVALID_VERIFICATION_CODE",
+      "INVALID_CODE_METHOD",
+      "INVALID_BUSINESS_PROFILE",
+      "INVALID_BUSINESS_PROFILE",
+      "INVALID_BUSINESS_PROFILE",
+      "INVALID_BUSINESS_PROFILE",
+      "INVALID_PHONE_NUMBER_ID",
+    ]);
+    expect(graph.requests).toHaveLength(0);
+  });
+});
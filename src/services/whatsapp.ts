@@ -1,5 +1,6 @@
-import type { IWhatsAppService } from "../interfaces.js";
+import type { IWhatsAppService, ServiceDependencies } from "../interfaces.js";
 import type {
+  Platform,
   SendMessageResponse,
   WhatsAppMessageOptions,
   WhatsAppTemplateOptions,
@@ -7,6 +8,24 @@ import type {
   WhatsAppReactionOptions,
   WhatsAppMediaOptions,
   WhatsAppEmojiOptions,
+  WhatsAppInteractiveOptions,
+  WhatsAppReplyButton,
+  WhatsAppListSection,
+  WhatsAppProductSection,
+  WhatsAppInteractiveHeader,
+  WhatsAppLocationOptions,
+  WhatsAppContact,
+  WhatsAppContactsOptions,
+  WhatsAppLocationRequestOptions,
+  WhatsAppFlowOptions,
+  WhatsAppMarkAsReadOptions,
+  WhatsAppTypingIndicatorOptions,
+  WhatsAppMediaUploadOptions,
+  WhatsAppMediaUploadResponse,
+  WhatsAppMediaOperationOptions,
+  WhatsAppMediaUrlResponse,
+  WhatsAppMediaDownloadResponse,
+  WhatsAppMediaDeleteResponse,
   TemplateCreateOptions,
   TemplateUpdateOptions,
   TemplateDeleteOptions,
@@ -19,14 +38,32 @@ import type {
   PhoneNumberListOptions,
   PhoneNumberListResponse,
   PhoneNumber,
+  PhoneNumberMessagingLimitTier,
+  DisplayNameStatus,
+  PhoneNumberOptions,
+  PhoneNumberResponse,
+  PhoneNumberRegisterOptions,
+  PhoneNumberTwoStepPinOptions,
+  PhoneNumberDeregisterOptions,
+  VerificationCodeRequestOptions,
+  VerificationCodeOptions,
+  PhoneNumberOperationResponse,
+  WhatsAppBusinessVertical,
+  BusinessProfileOptions,
+  BusinessProfileUpdateOptions,
+  BusinessProfileResponse,
 } from "../types.js";
 import { HttpClient } from "../http-client.js";
 import { MessageMeshError } from "../types.js";
 import { SecurityUtils } from "../security.js";
+import { PlatformCapabilitiesManager } from "../platform-capabilities.js";
+import { Logger } from "../logger.js";
+import { readMediaSource, getMediaSourceFilename } from "../media-source.js";
 
 interface WhatsAppApiResponse {
   messages?: Array<{ id: string }>;
   id?: string;
+  success?: boolean;
   data?: unknown[];
   paging?: {
     cursors?: {
@@ -45,10 +82,108 @@ interface WhatsAppApiResponse {
   };
 }
 
+// GET /{phoneNumberId}/whatsapp_business_profile
+interface WhatsAppBusinessProfileApiResponse {
+  data?: Array<{
+    about?: string;
+    address?: string;
+    description?: string;
+    email?: string;
+    profile_picture_url?: string;
+    websites?: string[];
+    vertical?: WhatsAppBusinessVertical;
+  }>;
+}
+
+// Interactive options narrowed by validateInteractiveOptions to the lists each type requires
+type ValidatedInteractive =
+  | { interactiveType: "button"; buttons: WhatsAppReplyButton[] }
+  | { interactiveType: "list"; sections: WhatsAppListSection[] }
+  | { interactiveType: "product_list"; productSections: WhatsAppProductSection[] }
+  | {
+      interactiveType: Exclude<
+        WhatsAppInteractiveOptions["interactiveType"],
+        "button" | "list" | "product_list"
+      >;
+    };
+
 export class WhatsAppService implements IWhatsAppService {
   private static readonly BASE_URL = "https://graph.facebook.com/v23.0";
 
-  constructor(private httpClient: HttpClient) {}
+  // Limits documented for interactive messages on the Cloud API
+  private static readonly INTERACTIVE_LIMITS = {
+    bodyLength: 1024,
+    headerLength: 60,
+    footerLength: 60,
+    maxButtons: 3,
+    buttonIdLength: 256,
+    buttonTitleLength: 20,
+    listButtonLength: 20,
+    maxSections: 10,
+    maxRows: 10,
+    sectionTitleLength: 24,
+    rowIdLength: 200,
+    rowTitleLength: 24,
+    rowDescriptionLength: 72,
+    ctaDisplayTextLength: 20,
+    maxProducts: 30,
+    maxProductSections: 10,
+  };
+
+  private static readonly PHONE_NUMBER_FIELDS = [
+    "id",
+    "display_phone_number",
+    "verified_name",
+    "code_verification_status",
+    "status",
+    "quality_rating",
+    "platform",
+    "throughput",
+    "webhook_configuration",
+    "messaging_limit_tier",
+    "name_status",
+    "new_name_status",
+  ].join(",");
+
+  private static readonly BUSINESS_PROFILE_FIELDS =
+    "about,address,description,email,profile_picture_url,websites,vertical";
+
+  // Limits documented for the business profile on the Cloud API
+  private static readonly BUSINESS_PROFILE_LIMITS = {
+    aboutLength: 139,
+    addressLength: 256,
+    descriptionLength: 512,
+    emailLength: 128,
+    maxWebsites: 2,
+    websiteLength: 256,
+  };
+
+  private static readonly BUSINESS_VERTICALS: WhatsAppBusinessVertical[] = [
+    "UNDEFINED",
+    "OTHER",
+    "AUTO",
+    "BEAUTY",
+    "APPAREL",
+    "EDU",
+    "ENTERTAIN",
+    "EVENT_PLAN",
+    "FINANCE",
+    "GROCERY",
+    "GOVT",
+    "HOTEL",
+    "HEALTH",
+    "NONPROFIT",
+    "PROF_SERVICES",
+    "RETAIL",
+    "TRAVEL",
+    "RESTAURANT",
+    "NOT_A_BIZ",
+  ];
+
+  constructor(
+    private httpClient: HttpClient,
+    private deps: ServiceDependencies = {}
+  ) {}
 
   async validateAccessToken(accessToken: string): Promise<boolean> {
     try {
@@ -72,6 +207,11 @@ export class WhatsAppService implements IWhatsAppService {
       );
       this.validateMessageOptions(options);
 
+      const routed = await this.applyConversationWindow(options, true);
+      if (routed) {
+        return routed;
+      }
+
       const payload = {
         messaging_product: "whatsapp",
         to: options.to,
@@ -98,10 +238,11 @@ export class WhatsAppService implements IWhatsAppService {
 
       const result = (await response.json()) as WhatsAppApiResponse;
 
-      return {
-        success: true,
-        messageId: result.messages?.[0]?.id,
-      };
+      return this.trackOutbound(
+        { success: true, messageId: result.messages?.[0]?.id },
+        options.to,
+        options.phoneNumberId
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -146,10 +287,11 @@ export class WhatsAppService implements IWhatsAppService {
 
       const result = (await response.json()) as WhatsAppApiResponse;
 
-      return {
-        success: true,
-        messageId: result.messages?.[0]?.id,
-      };
+      return this.trackOutbound(
+        { success: true, messageId: result.messages?.[0]?.id },
+        options.to,
+        options.phoneNumberId
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -162,6 +304,11 @@ export class WhatsAppService implements IWhatsAppService {
       );
       this.validateReplyOptions(options);
 
+      const routed = await this.applyConversationWindow(options);
+      if (routed) {
+        return routed;
+      }
+
       const payload = {
         messaging_product: "whatsapp",
         to: options.to,
@@ -187,10 +334,11 @@ export class WhatsAppService implements IWhatsAppService {
 
       const result = (await response.json()) as WhatsAppApiResponse;
 
-      return {
-        success: true,
-        messageId: result.messages?.[0]?.id,
-      };
+      return this.trackOutbound(
+        { success: true, messageId: result.messages?.[0]?.id },
+        options.to,
+        options.phoneNumberId
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -222,10 +370,11 @@ export class WhatsAppService implements IWhatsAppService {
 
       const result = (await response.json()) as WhatsAppApiResponse;
 
-      return {
-        success: true,
-        messageId: result.messages?.[0]?.id,
-      };
+      return this.trackOutbound(
+        { success: true, messageId: result.messages?.[0]?.id },
+        options.to,
+        options.phoneNumberId
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -235,13 +384,20 @@ export class WhatsAppService implements IWhatsAppService {
     try {
       this.validateMediaOptions(options);
 
+      const routed = await this.applyConversationWindow(options, true);
+      if (routed) {
+        return routed;
+      }
+
       const payload: Record<string, unknown> = {
         messaging_product: "whatsapp",
         to: options.to,
         type: options.mediaType,
         [options.mediaType]: {
           ...(options.mediaUrl && { link: options.mediaUrl }),
-          ...(options.mediaPath && { id: options.mediaPath }), // For uploaded media
+          ...((options.mediaId || options.mediaPath) && {
+            id: options.mediaId ?? options.mediaPath, // For uploaded media
+          }),
           ...(options.caption && { caption: options.caption }),
           ...(options.filename && { filename: options.filename }),
         },
@@ -260,10 +416,11 @@ export class WhatsAppService implements IWhatsAppService {
 
       const result = (await response.json()) as WhatsAppApiResponse;
 
-      return {
-        success: true,
-        messageId: result.messages?.[0]?.id,
-      };
+      return this.trackOutbound(
+        { success: true, messageId: result.messages?.[0]?.id },
+        options.to,
+        options.phoneNumberId
+      );
     } catch (error) {
       return this.handleError(error);
     }
@@ -273,6 +430,11 @@ export class WhatsAppService implements IWhatsAppService {
     try {
       this.validateEmojiOptions(options);
 
+      const routed = await this.applyConversationWindow(options);
+      if (routed) {
+        return routed;
+      }
+
       const payload = {
         messaging_product: "whatsapp",
         to: options.to,
@@ -295,15 +457,330 @@ export class WhatsAppService implements IWhatsAppService {
 
       const result = (await response.json()) as WhatsAppApiResponse;
 
-      return {
-        success: true,
-        messageId: result.messages?.[0]?.id,
+      return this.trackOutbound(
+        { success: true, messageId: result.messages?.[0]?.id },
+        options.to,
+        options.phoneNumberId
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async sendInteractive(options: WhatsAppInteractiveOptions): Promise<SendMessageResponse> {
+    try {
+      const validated = this.validateInteractiveOptions(options);
+
+      const routed = await this.applyConversationWindow(options);
+      if (routed) {
+        return routed;
+      }
+
+      const interactive: Record<string, unknown> = {
+        type: options.interactiveType,
+        ...(options.header && { header: this.buildInteractiveHeader(options.header) }),
+        ...(options.body && {
+          body: {
+            text: options.body,
+          },
+        }),
+        ...(options.footer && { footer: { text: options.footer } }),
+      };
+
+      switch (validated.interactiveType) {
+        case "button":
+          interactive.action = {
+            buttons: validated.buttons.map((button) => ({
+              type: "reply",
+              reply: {
+                id: button.id,
+                title: button.title,
+              },
+            })),
+          };
+          break;
+
+        case "list":
+          interactive.action = {
+            button: options.listButtonText,
+            sections: validated.sections.map((section) => ({
+              ...(section.title && { title: section.title }),
+              rows: section.rows.map((row) => ({
+                id: row.id,
+                title: row.title,
+                ...(row.description && { description: row.description }),
+              })),
+            })),
+          };
+          break;
+
+        case "cta_url":
+          interactive.action = {
+            name: "cta_url",
+            parameters: {
+              display_text: options.ctaDisplayText,
+              url: options.ctaUrl,
+            },
+          };
+          break;
+
+        case "product":
+          interactive.action = {
+            catalog_id: options.catalogId,
+            product_retailer_id: options.productRetailerId,
+          };
+          break;
+
+        case "product_list":
+          interactive.action = {
+            catalog_id: options.catalogId,
+            sections: validated.productSections.map((section) => ({
+              ...(section.title && { title: section.title }),
+              product_items: section.productRetailerIds.map((id) => ({
+                product_retailer_id: id,
+              })),
+            })),
+          };
+          break;
+
+        case "catalog_message":
+          interactive.action = {
+            name: "catalog_message",
+            ...(options.thumbnailProductRetailerId && {
+              parameters: {
+                thumbnail_product_retailer_id: options.thumbnailProductRetailerId,
+              },
+            }),
+          };
+          break;
+      }
+
+      const payload = {
+        messaging_product: "whatsapp",
+        recipient_type: "individual",
+        to: options.to,
+        type: "interactive",
+        ...(options.replyToMessageId && {
+          context: {
+            message_id: options.replyToMessageId,
+          },
+        }),
+        interactive,
+        ...(options.metadata && { metadata: options.metadata }),
+      };
+
+      const response = await this.httpClient.post(
+        `${WhatsAppService.BASE_URL}/${options.phoneNumberId}/messages`,
+        JSON.stringify(payload),
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        "whatsapp"
+      );
+
+      const result = (await response.json()) as WhatsAppApiResponse;
+
+      return this.trackOutbound(
+        { success: true, messageId: result.messages?.[0]?.id },
+        options.to,
+        options.phoneNumberId
+      );
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async sendLocation(options: WhatsAppLocationOptions): Promise<SendMessageResponse> {
+    try {
+      this.validateLocationOptions(options);
+
+      const routed = await this.applyConversationWindow(options);
+      if (routed) {
+        return routed;
+      }
+
+      return await this.sendMessagePayload(options, {
+        type: "location",
+        location: {
+          latitude: options.latitude,
+          longitude: options.longitude,
+          ...(options.name && { name: options.name }),
+          ...(options.address && { address: options.address }),
+        },
+      });
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async sendContacts(options: WhatsAppContactsOptions): Promise<SendMessageResponse> {
+    try {
+      this.validateContactsOptions(options);
+
+      const routed = await this.applyConversationWindow(options);
+      if (routed) {
+        return routed;
+      }
+
+      return await this.sendMessagePayload(options, {
+        type: "contacts",
+        contacts: options.contacts.map((contact) => this.buildContact(contact)),
+      });
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Ask the user to share their location. The reply arrives as an inbound location message.
+   */
+  async sendLocationRequest(
+    options: WhatsAppLocationRequestOptions
+  ): Promise<SendMessageResponse> {
+    try {
+      this.validateLocationRequestOptions(options);
+
+      const routed = await this.applyConversationWindow(options);
+      if (routed) {
+        return routed;
+      }
+
+      return await this.sendMessagePayload(options, {
+        type: "interactive",
+        interactive: {
+          type: "location_request_message",
+          body: {
+            text: options.body,
+          },
+          action: {
+            name: "send_location",
+          },
+        },
+      });
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  /**
+   * Send a WhatsApp Flow. Flows with a data exchange endpoint are served by
+   * MessageMesh.createFlowEndpoint().
+   */
+  async sendFlow(options: WhatsAppFlowOptions): Promise<SendMessageResponse> {
+    try {
+      this.validateFlowOptions(options);
+
+      const routed = await this.applyConversationWindow(options);
+      if (routed) {
+        return routed;
+      }
+
+      const flowAction = options.flowAction ?? "navigate";
+      return await this.sendMessagePayload(options, {
+        type: "interactive",
+        interactive: {
+          type: "flow",
+          ...(options.header && { header: { type: "text", text: options.header } }),
+          body: {
+            text: options.body,
+          },
+          ...(options.footer && { footer: { text: options.footer } }),
+          action: {
+            name: "flow",
+            parameters: {
+              flow_message_version: "3",
+              flow_id: options.flowId,
+              flow_cta: options.flowCta,
+              flow_token: options.flowToken ?? "unused",
+              ...(options.mode && { mode: options.mode }),
+              flow_action: flowAction,
+              ...(flowAction === "navigate" && {
+                flow_action_payload: {
+                  screen: options.screen,
+                  ...(options.data && { data: options.data }),
+                },
+              }),
+            },
+          },
+        },
+      });
+    } catch (error) {
+      return this.handleError(error);
+    }
+  }
+
+  async markAsRead(options: WhatsAppMarkAsReadOptions): Promise<SendMessageResponse> {
+    try {
+      this.validateReadReceiptOptions(options);
+
+      const payload = {
+        messaging_product: "whatsapp",
+        status: "read",
+        message_id: options.messageId,
+        ...(options.showTypingIndicator && {
+          typing_indicator: {
+            type: "text",
+          },
+        }),
       };
+
+      const response = await this.httpClient.post(
+        `${WhatsAppService.BASE_URL}/${options.phoneNumberId}/messages`,
+        JSON.stringify(payload),
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+          "Content-Type": "application/json",
+        },
+        "whatsapp"
+      );
+
+      const result = (await response.json()) as WhatsAppApiResponse;
+
+      if (result.success) {
+        return {
+          success: true,
+          messageId: options.messageId,
+        };
+      }
+
+      throw new MessageMeshError(
+        "MARK_AS_READ_FAILED",
+        "whatsapp",
+        result.error?.message || `Failed to mark message ${options.messageId} as read`
+      );
     } catch (error) {
       return this.handleError(error);
     }
   }
 
+  /**
+   * Show the typing indicator while preparing a reply. WhatsApp only supports
+   * the indicator together with a read receipt; it is dismissed when the reply
+   * is sent or after 25 seconds.
+   */
+  async sendTypingIndicator(options: WhatsAppTypingIndicatorOptions): Promise<SendMessageResponse> {
+    return this.markAsRead({
+      ...options,
+      showTypingIndicator: true,
+    });
+  }
+
+  private buildInteractiveHeader(header: WhatsAppInteractiveHeader): Record<string, unknown> {
+    if (header.type === "text") {
+      return { type: "text", text: header.text };
+    }
+
+    return {
+      type: header.type,
+      [header.type]: {
+        ...(header.mediaUrl && { link: header.mediaUrl }),
+        ...(header.mediaId && { id: header.mediaId }),
+        ...(header.type === "document" && header.filename && { filename: header.filename }),
+      },
+    };
+  }
+
   private validateMessageOptions(options: WhatsAppMessageOptions): void {
     // Use security utilities for enhanced validation
     SecurityUtils.validateAccessToken(options.accessToken, "whatsapp");
@@ -387,76 +864,970 @@ export class WhatsAppService implements IWhatsAppService {
     // Note: emoji can be empty string to remove reactions in WhatsApp API
     if (options.emoji === undefined || options.emoji === null) {
       throw new MessageMeshError(
-        "INVALID_EMOJI",
+        "INVALID_EMOJI",
+        "whatsapp",
+        "Emoji parameter is required (use empty string to remove reactions)"
+      );
+    }
+  }
+
+  private validateMediaOptions(options: WhatsAppMediaOptions): void {
+    SecurityUtils.validateAccessToken(options.accessToken, "whatsapp");
+    SecurityUtils.validateUserId(options.to, "whatsapp");
+
+    // Validate WhatsApp phone number format
+    if (!/^\+\d{1,15}$/.test(options.to.trim())) {
+      throw new MessageMeshError(
+        "INVALID_RECIPIENT",
+        "whatsapp",
+        "Recipient must be a valid WhatsApp phone number in E.164 format"
+      );
+    }
+
+    if (!options.mediaUrl && !options.mediaId && !options.mediaPath) {
+      throw new MessageMeshError(
+        "INVALID_MEDIA",
+        "whatsapp",
+        "Either media URL or media ID is required"
+      );
+    }
+
+    // Validate media URL if provided
+    if (options.mediaUrl) {
+      SecurityUtils.validateUrl(options.mediaUrl, "whatsapp");
+    }
+
+    const validTypes = ["image", "video", "audio", "document"];
+    if (!validTypes.includes(options.mediaType)) {
+      throw new MessageMeshError(
+        "INVALID_MEDIA_TYPE",
+        "whatsapp",
+        `Invalid media type. Must be one of: ${validTypes.join(", ")}`
+      );
+    }
+
+    // Sanitize optional fields
+    if (options.caption) {
+      options.caption = SecurityUtils.sanitizeText(options.caption);
+    }
+    if (options.filename) {
+      options.filename = SecurityUtils.sanitizeText(options.filename);
+    }
+
+    // Validate metadata if present
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "whatsapp");
+    }
+  }
+
+  private validateEmojiOptions(options: WhatsAppEmojiOptions): void {
+    if (!options.accessToken?.trim()) {
+      throw new MessageMeshError("INVALID_ACCESS_TOKEN", "whatsapp", "Access token is required");
+    }
+    if (!options.to?.trim()) {
+      throw new MessageMeshError(
+        "INVALID_RECIPIENT",
+        "whatsapp",
+        "Recipient phone number is required"
+      );
+    }
+    if (!options.emoji?.trim()) {
+      throw new MessageMeshError("INVALID_EMOJI", "whatsapp", "Emoji is required");
+    }
+  }
+
+  private validateLocationOptions(options: WhatsAppLocationOptions): void {
+    this.validateRecipientOptions(options);
+
+    const { latitude, longitude } = options;
+    if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+      throw new MessageMeshError(
+        "INVALID_COORDINATES",
+        "whatsapp",
+        "Latitude must be a number between -90 and 90"
+      );
+    }
+    if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+      throw new MessageMeshError(
+        "INVALID_COORDINATES",
+        "whatsapp",
+        "Longitude must be a number between -180 and 180"
+      );
+    }
+
+    if (options.name) {
+      options.name = SecurityUtils.sanitizeText(options.name);
+    }
+    if (options.address) {
+      options.address = SecurityUtils.sanitizeText(options.address);
+    }
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "whatsapp");
+    }
+  }
+
+  private validateContactsOptions(options: WhatsAppContactsOptions): void {
+    this.validateRecipientOptions(options);
+
+    if (!Array.isArray(options.contacts) || options.contacts.length === 0) {
+      throw new MessageMeshError(
+        "INVALID_CONTACTS",
+        "whatsapp",
+        "At least one contact is required"
+      );
+    }
+
+    for (const contact of options.contacts) {
+      const name = contact.name;
+      if (!name?.formattedName?.trim()) {
+        throw new MessageMeshError(
+          "INVALID_CONTACTS",
+          "whatsapp",
+          "Each contact requires name.formattedName"
+        );
+      }
+      if (!name.firstName && !name.lastName && !name.middleName && !name.prefix && !name.suffix) {
+        throw new MessageMeshError(
+          "INVALID_CONTACTS",
+          "whatsapp",
+          "Each contact name requires a first, last or middle name, prefix or suffix"
+        );
+      }
+
+      for (const phone of contact.phones ?? []) {
+        if (!phone.phone?.trim() && !phone.waId?.trim()) {
+          throw new MessageMeshError(
+            "INVALID_CONTACTS",
+            "whatsapp",
+            "Contact phones require a phone number or a WhatsApp ID"
+          );
+        }
+        if (phone.waId && !/^\d{1,15}$/.test(phone.waId)) {
+          throw new MessageMeshError(
+            "INVALID_CONTACTS",
+            "whatsapp",
+            `Invalid WhatsApp ID for contact ${name.formattedName}: ${phone.waId}`
+          );
+        }
+      }
+
+      for (const email of contact.emails ?? []) {
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.email ?? "")) {
+          throw new MessageMeshError(
+            "INVALID_CONTACTS",
+            "whatsapp",
+            `Invalid email address for contact ${name.formattedName}: ${email.email}`
+          );
+        }
+      }
+
+      for (const url of contact.urls ?? []) {
+        try {
+          new URL(url.url);
+        } catch {
+          throw new MessageMeshError(
+            "INVALID_CONTACTS",
+            "whatsapp",
+            `Invalid URL for contact ${name.formattedName}: ${url.url}`
+          );
+        }
+      }
+
+      for (const address of contact.addresses ?? []) {
+        if (address.countryCode && !/^[A-Za-z]{2}$/.test(address.countryCode)) {
+          throw new MessageMeshError(
+            "INVALID_CONTACTS",
+            "whatsapp",
+            "Contact address countryCode must be a two-letter ISO 3166-1 code"
+          );
+        }
+      }
+
+      if (contact.birthday && !/^\d{4}-\d{2}-\d{2}$/.test(contact.birthday)) {
+        throw new MessageMeshError(
+          "INVALID_CONTACTS",
+          "whatsapp",
+          "Contact birthday must use the YYYY-MM-DD format"
+        );
+      }
+    }
+
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "whatsapp");
+    }
+  }
+
+  private validateLocationRequestOptions(options: WhatsAppLocationRequestOptions): void {
+    this.validateRecipientOptions(options);
+
+    options.body = SecurityUtils.sanitizeText(options.body ?? "");
+    if (!options.body) {
+      throw new MessageMeshError(
+        "INVALID_INTERACTIVE",
+        "whatsapp",
+        "Location request body text is required"
+      );
+    }
+    if (options.body.length > WhatsAppService.INTERACTIVE_LIMITS.bodyLength) {
+      throw new MessageMeshError(
+        "INTERACTIVE_TEXT_TOO_LONG",
+        "whatsapp",
+        `Location request body text cannot exceed ${WhatsAppService.INTERACTIVE_LIMITS.bodyLength} characters`
+      );
+    }
+
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "whatsapp");
+    }
+  }
+
+  private validateFlowOptions(options: WhatsAppFlowOptions): void {
+    this.validateRecipientOptions(options);
+
+    const limits = WhatsAppService.INTERACTIVE_LIMITS;
+
+    if (!options.flowId?.trim()) {
+      throw new MessageMeshError("INVALID_FLOW", "whatsapp", "Flow ID is required");
+    }
+    options.flowCta = this.validateInteractiveTitle(
+      options.flowCta ?? "",
+      limits.ctaDisplayTextLength,
+      "Flow CTA"
+    );
+
+    options.body = SecurityUtils.sanitizeText(options.body ?? "");
+    if (!options.body) {
+      throw new MessageMeshError("INVALID_INTERACTIVE", "whatsapp", "Flow body text is required");
+    }
+    if (options.body.length > limits.bodyLength) {
+      throw new MessageMeshError(
+        "INTERACTIVE_TEXT_TOO_LONG",
+        "whatsapp",
+        `Flow body text cannot exceed ${limits.bodyLength} characters`
+      );
+    }
+    if (options.header) {
+      options.header = SecurityUtils.sanitizeText(options.header);
+      if (options.header.length > limits.headerLength) {
+        throw new MessageMeshError(
+          "INTERACTIVE_TEXT_TOO_LONG",
+          "whatsapp",
+          `Flow header text cannot exceed ${limits.headerLength} characters`
+        );
+      }
+    }
+    if (options.footer) {
+      options.footer = SecurityUtils.sanitizeText(options.footer);
+      if (options.footer.length > limits.footerLength) {
+        throw new MessageMeshError(
+          "INTERACTIVE_TEXT_TOO_LONG",
+          "whatsapp",
+          `Flow footer text cannot exceed ${limits.footerLength} characters`
+        );
+      }
+    }
+
+    if (options.mode && !["draft", "published"].includes(options.mode)) {
+      throw new MessageMeshError(
+        "INVALID_FLOW",
+        "whatsapp",
+        `Invalid flow mode: ${options.mode}. Must be one of: draft, published`
+      );
+    }
+
+    switch (options.flowAction ?? "navigate") {
+      case "navigate":
+        if (!options.screen?.trim()) {
+          throw new MessageMeshError(
+            "INVALID_FLOW",
+            "whatsapp",
+            "Flows opened with the navigate action require a first screen"
+          );
+        }
+        if (
+          options.data !== undefined &&
+          (typeof options.data !== "object" || options.data === null || Array.isArray(options.data))
+        ) {
+          throw new MessageMeshError(
+            "INVALID_FLOW",
+            "whatsapp",
+            "Flow screen data must be an object"
+          );
+        }
+        break;
+
+      case "data_exchange":
+        if (options.screen || options.data) {
+          throw new MessageMeshError(
+            "INVALID_FLOW",
+            "whatsapp",
+            "Flows opened with the data_exchange action get their first screen from the endpoint"
+          );
+        }
+        break;
+
+      default:
+        throw new MessageMeshError(
+          "INVALID_FLOW",
+          "whatsapp",
+          `Invalid flow action: ${options.flowAction}. Must be one of: navigate, data_exchange`
+        );
+    }
+
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "whatsapp");
+    }
+  }
+
+  private validateRecipientOptions(options: {
+    accessToken: string;
+    to: string;
+    phoneNumberId: string;
+  }): void {
+    SecurityUtils.validateAccessToken(options.accessToken, "whatsapp");
+    SecurityUtils.validateUserId(options.to, "whatsapp");
+
+    // Validate WhatsApp phone number format
+    if (!/^\+\d{1,15}$/.test(options.to.trim())) {
+      throw new MessageMeshError(
+        "INVALID_RECIPIENT",
+        "whatsapp",
+        "Recipient must be a valid WhatsApp phone number in E.164 format"
+      );
+    }
+
+    if (!options.phoneNumberId?.trim()) {
+      throw new MessageMeshError(
+        "INVALID_PHONE_NUMBER_ID",
+        "whatsapp",
+        "Phone number ID is required"
+      );
+    }
+  }
+
+  private validateReadReceiptOptions(options: WhatsAppMarkAsReadOptions): void {
+    SecurityUtils.validateAccessToken(options.accessToken, "whatsapp");
+
+    if (!options.phoneNumberId?.trim()) {
+      throw new MessageMeshError(
+        "INVALID_PHONE_NUMBER_ID",
+        "whatsapp",
+        "Phone number ID is required"
+      );
+    }
+    if (!options.messageId?.trim()) {
+      throw new MessageMeshError("INVALID_MESSAGE_ID", "whatsapp", "Message ID is required");
+    }
+  }
+
+  private validateInteractiveOptions(options: WhatsAppInteractiveOptions): ValidatedInteractive {
+    SecurityUtils.validateAccessToken(options.accessToken, "whatsapp");
+    SecurityUtils.validateUserId(options.to, "whatsapp");
+
+    // Validate WhatsApp phone number format
+    if (!/^\+\d{1,15}$/.test(options.to.trim())) {
+      throw new MessageMeshError(
+        "INVALID_RECIPIENT",
+        "whatsapp",
+        "Recipient must be a valid WhatsApp phone number in E.164 format"
+      );
+    }
+
+    const limits = WhatsAppService.INTERACTIVE_LIMITS;
+
+    // Validate body text (optional for single product messages)
+    const sanitizedBody = SecurityUtils.sanitizeText(options.body ?? "");
+    if (!sanitizedBody && options.interactiveType !== "product") {
+      throw new MessageMeshError(
+        "INVALID_INTERACTIVE",
+        "whatsapp",
+        "Interactive body text is required"
+      );
+    }
+    if (sanitizedBody.length > limits.bodyLength) {
+      throw new MessageMeshError(
+        "INTERACTIVE_TEXT_TOO_LONG",
+        "whatsapp",
+        `Interactive body text cannot exceed ${limits.bodyLength} characters`
+      );
+    }
+
+    // Validate footer text
+    if (options.footer) {
+      options.footer = SecurityUtils.sanitizeText(options.footer);
+      if (options.footer.length > limits.footerLength) {
+        throw new MessageMeshError(
+          "INTERACTIVE_TEXT_TOO_LONG",
+          "whatsapp",
+          `Interactive footer text cannot exceed ${limits.footerLength} characters`
+        );
+      }
+    }
+
+    // Validate header
+    if (options.header) {
+      if (options.header.type === "text") {
+        const headerText = SecurityUtils.sanitizeText(options.header.text ?? "");
+        if (!headerText) {
+          throw new MessageMeshError(
+            "INVALID_INTERACTIVE",
+            "whatsapp",
+            "Text header requires text"
+          );
+        }
+        if (headerText.length > limits.headerLength) {
+          throw new MessageMeshError(
+            "INTERACTIVE_TEXT_TOO_LONG",
+            "whatsapp",
+            `Interactive header text cannot exceed ${limits.headerLength} characters`
+          );
+        }
+        options.header.text = headerText;
+      } else {
+        if (!options.header.mediaUrl && !options.header.mediaId) {
+          throw new MessageMeshError(
+            "INVALID_INTERACTIVE",
+            "whatsapp",
+            "Media header requires either mediaUrl or mediaId"
+          );
+        }
+        if (options.header.mediaUrl) {
+          SecurityUtils.validateUrl(options.header.mediaUrl, "whatsapp");
+        }
+      }
+    }
+
+    // Type-specific validations
+    let validated: ValidatedInteractive;
+    switch (options.interactiveType) {
+      case "button": {
+        if (!options.buttons || options.buttons.length === 0) {
+          throw new MessageMeshError(
+            "MISSING_INTERACTIVE_BUTTONS",
+            "whatsapp",
+            "Reply button message requires at least one button"
+          );
+        }
+        if (options.buttons.length > limits.maxButtons) {
+          throw new MessageMeshError(
+            "TOO_MANY_BUTTONS",
+            "whatsapp",
+            `Reply button message supports maximum ${limits.maxButtons} buttons`
+          );
+        }
+        const buttonIds = new Set<string>();
+        for (const button of options.buttons) {
+          this.validateInteractiveId(button.id, limits.buttonIdLength);
+          button.title = this.validateInteractiveTitle(
+            button.title,
+            limits.buttonTitleLength,
+            "Button"
+          );
+          if (buttonIds.has(button.id)) {
+            throw new MessageMeshError(
+              "DUPLICATE_INTERACTIVE_ID",
+              "whatsapp",
+              `Button IDs must be unique: ${button.id}`
+            );
+          }
+          buttonIds.add(button.id);
+        }
+        validated = { interactiveType: "button", buttons: options.buttons };
+        break;
+      }
+
+      case "list": {
+        options.listButtonText = this.validateInteractiveTitle(
+          options.listButtonText ?? "",
+          limits.listButtonLength,
+          "List button"
+        );
+        if (!options.sections || options.sections.length === 0) {
+          throw new MessageMeshError(
+            "MISSING_LIST_SECTIONS",
+            "whatsapp",
+            "List message requires at least one section"
+          );
+        }
+        if (options.sections.length > limits.maxSections) {
+          throw new MessageMeshError(
+            "TOO_MANY_SECTIONS",
+            "whatsapp",
+            `List message supports maximum ${limits.maxSections} sections`
+          );
+        }
+        if (options.header && options.header.type !== "text") {
+          throw new MessageMeshError(
+            "INVALID_INTERACTIVE",
+            "whatsapp",
+            "List messages only support text headers"
+          );
+        }
+
+        let totalRows = 0;
+        const rowIds = new Set<string>();
+        for (const section of options.sections) {
+          if (options.sections.length > 1 && !section.title?.trim()) {
+            throw new MessageMeshError(
+              "INVALID_LIST_SECTION",
+              "whatsapp",
+              "Section title is required when a list has more than one section"
+            );
+          }
+          if (section.title) {
+            section.title = this.validateInteractiveTitle(
+              section.title,
+              limits.sectionTitleLength,
+              "Section"
+            );
+          }
+          if (!section.rows || section.rows.length === 0) {
+            throw new MessageMeshError(
+              "INVALID_LIST_SECTION",
+              "whatsapp",
+              "Each list section requires at least one row"
+            );
+          }
+          for (const row of section.rows) {
+            this.validateInteractiveId(row.id, limits.rowIdLength);
+            row.title = this.validateInteractiveTitle(row.title, limits.rowTitleLength, "Row");
+            if (row.description) {
+              row.description = SecurityUtils.sanitizeText(row.description);
+              if (row.description.length > limits.rowDescriptionLength) {
+                throw new MessageMeshError(
+                  "INTERACTIVE_TEXT_TOO_LONG",
+                  "whatsapp",
+                  `Row description cannot exceed ${limits.rowDescriptionLength} characters`
+                );
+              }
+            }
+            if (rowIds.has(row.id)) {
+              throw new MessageMeshError(
+                "DUPLICATE_INTERACTIVE_ID",
+                "whatsapp",
+                `Row IDs must be unique: ${row.id}`
+              );
+            }
+            rowIds.add(row.id);
+          }
+          totalRows += section.rows.length;
+        }
+        if (totalRows > limits.maxRows) {
+          throw new MessageMeshError(
+            "TOO_MANY_ROWS",
+            "whatsapp",
+            `List message supports maximum ${limits.maxRows} rows across all sections`
+          );
+        }
+        validated = { interactiveType: "list", sections: options.sections };
+        break;
+      }
+
+      case "cta_url":
+        options.ctaDisplayText = this.validateInteractiveTitle(
+          options.ctaDisplayText ?? "",
+          limits.ctaDisplayTextLength,
+          "CTA display text"
+        );
+        if (!options.ctaUrl) {
+          throw new MessageMeshError("INVALID_INTERACTIVE", "whatsapp", "CTA URL is required");
+        }
+        SecurityUtils.validateUrl(options.ctaUrl, "whatsapp");
+        validated = { interactiveType: "cta_url" };
+        break;
+
+      case "product":
+        this.validateCatalogId(options.catalogId);
+        if (options.header) {
+          throw new MessageMeshError(
+            "INVALID_INTERACTIVE",
+            "whatsapp",
+            "Single product messages do not support headers"
+          );
+        }
+        if (!options.productRetailerId?.trim()) {
+          throw new MessageMeshError(
+            "INVALID_INTERACTIVE",
+            "whatsapp",
+            "Single product message requires a product retailer ID"
+          );
+        }
+        validated = { interactiveType: "product" };
+        break;
+
+      case "product_list": {
+        this.validateCatalogId(options.catalogId);
+        if (options.header?.type !== "text") {
+          throw new MessageMeshError(
+            "INVALID_INTERACTIVE",
+            "whatsapp",
+            "Product list messages require a text header"
+          );
+        }
+        if (!options.productSections || options.productSections.length === 0) {
+          throw new MessageMeshError(
+            "MISSING_LIST_SECTIONS",
+            "whatsapp",
+            "Product list message requires at least one section"
+          );
+        }
+        if (options.productSections.length > limits.maxProductSections) {
+          throw new MessageMeshError(
+            "TOO_MANY_SECTIONS",
+            "whatsapp",
+            `Product list message supports maximum ${limits.maxProductSections} sections`
+          );
+        }
+
+        let totalProducts = 0;
+        for (const section of options.productSections) {
+          if (options.productSections.length > 1 && !section.title?.trim()) {
+            throw new MessageMeshError(
+              "INVALID_LIST_SECTION",
+              "whatsapp",
+              "Section title is required when a product list has more than one section"
+            );
+          }
+          if (section.title) {
+            section.title = this.validateInteractiveTitle(
+              section.title,
+              limits.sectionTitleLength,
+              "Section"
+            );
+          }
+          if (!section.productRetailerIds || section.productRetailerIds.length === 0) {
+            throw new MessageMeshError(
+              "INVALID_LIST_SECTION",
+              "whatsapp",
+              "Each product list section requires at least one product"
+            );
+          }
+          if (section.productRetailerIds.some((id) => !id?.trim())) {
+            throw new MessageMeshError(
+              "INVALID_INTERACTIVE",
+              "whatsapp",
+              "Product retailer IDs cannot be empty"
+            );
+          }
+          totalProducts += section.productRetailerIds.length;
+        }
+        if (totalProducts > limits.maxProducts) {
+          throw new MessageMeshError(
+            "TOO_MANY_PRODUCTS",
+            "whatsapp",
+            `Product list message supports maximum ${limits.maxProducts} products across all sections`
+          );
+        }
+        validated = {
+          interactiveType: "product_list",
+          productSections: options.productSections,
+        };
+        break;
+      }
+
+      case "catalog_message":
+        if (options.header) {
+          throw new MessageMeshError(
+            "INVALID_INTERACTIVE",
+            "whatsapp",
+            "Catalog messages do not support headers"
+          );
+        }
+        validated = { interactiveType: "catalog_message" };
+        break;
+
+      default:
+        throw new MessageMeshError(
+          "INVALID_INTERACTIVE_TYPE",
+          "whatsapp",
+          `Invalid interactive type: ${options.interactiveType}. Must be one of: button, list, cta_url, product, product_list, catalog_message`
+        );
+    }
+
+    // Validate metadata if present
+    if (options.metadata) {
+      SecurityUtils.validateMetadata(options.metadata, "whatsapp");
+    }
+
+    // Update with sanitized values
+    options.body = sanitizedBody;
+    return validated;
+  }
+
+  private validateCatalogId(catalogId?: string): void {
+    if (!catalogId?.trim()) {
+      throw new MessageMeshError(
+        "INVALID_INTERACTIVE",
+        "whatsapp",
+        "Catalog ID is required for product messages"
+      );
+    }
+  }
+
+  private validateInteractiveId(id: string, maxLength: number): void {
+    if (!id?.trim()) {
+      throw new MessageMeshError(
+        "INVALID_INTERACTIVE",
+        "whatsapp",
+        "Interactive item ID is required"
+      );
+    }
+    if (id.length > maxLength) {
+      throw new MessageMeshError(
+        "INVALID_INTERACTIVE",
+        "whatsapp",
+        `Interactive item ID cannot exceed ${maxLength} characters`
+      );
+    }
+  }
+
+  private validateInteractiveTitle(title: string, maxLength: number, label: string): string {
+    const sanitized = SecurityUtils.sanitizeText(title ?? "");
+    if (!sanitized) {
+      throw new MessageMeshError("INVALID_INTERACTIVE", "whatsapp", `${label} title is required`);
+    }
+    if (sanitized.length > maxLength) {
+      throw new MessageMeshError(
+        "INTERACTIVE_TEXT_TOO_LONG",
+        "whatsapp",
+        `${label} title cannot exceed ${maxLength} characters`
+      );
+    }
+    return sanitized;
+  }
+
+  // Media Management Methods
+
+  async uploadMedia(options: WhatsAppMediaUploadOptions): Promise<WhatsAppMediaUploadResponse> {
+    try {
+      this.validateMediaUploadOptions(options);
+
+      const blob = await readMediaSource(options.file, options.mimeType, "whatsapp");
+
+      const maxBytes = PlatformCapabilitiesManager.getMaxMediaSize("whatsapp") * 1024 * 1024;
+      if (blob.size > maxBytes) {
+        throw new MessageMeshError(
+          "MEDIA_TOO_LARGE",
+          "whatsapp",
+          `Media size of ${blob.size} bytes exceeds the WhatsApp limit of ${maxBytes} bytes`
+        );
+      }
+
+      const formData = new FormData();
+      formData.append("messaging_product", "whatsapp");
+      formData.append("type", options.mimeType);
+      formData.append("file", blob, options.filename ?? getMediaSourceFilename(options.file));
+
+      const response = await this.httpClient.post(
+        `${WhatsAppService.BASE_URL}/${options.phoneNumberId}/media`,
+        formData,
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+        },
+        "whatsapp"
+      );
+
+      const result = (await response.json()) as WhatsAppApiResponse;
+
+      if (result.id) {
+        return {
+          success: true,
+          mediaId: result.id,
+        };
+      }
+
+      throw new MessageMeshError(
+        "MEDIA_UPLOAD_FAILED",
+        "whatsapp",
+        result.error?.message || "Media upload did not return a media ID"
+      );
+    } catch (error) {
+      return this.handleMediaError(error, "MEDIA_UPLOAD_ERROR");
+    }
+  }
+
+  async getMediaUrl(options: WhatsAppMediaOperationOptions): Promise<WhatsAppMediaUrlResponse> {
+    try {
+      this.validateMediaOperationOptions(options);
+
+      const params = new URLSearchParams();
+      if (options.phoneNumberId) params.append("phone_number_id", options.phoneNumberId);
+      const query = params.toString();
+
+      const response = await this.httpClient.get(
+        `${WhatsAppService.BASE_URL}/${options.mediaId}${query ? `?${query}` : ""}`,
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+        },
+        "whatsapp"
+      );
+
+      const result = (await response.json()) as {
+        id?: string;
+        url?: string;
+        mime_type?: string;
+        sha256?: string;
+        file_size?: number | string;
+        error?: { message: string };
+      };
+
+      if (result.url) {
+        return {
+          success: true,
+          mediaId: result.id ?? options.mediaId,
+          url: result.url,
+          mimeType: result.mime_type,
+          sha256: result.sha256,
+          fileSize: result.file_size !== undefined ? Number(result.file_size) : undefined,
+        };
+      }
+
+      throw new MessageMeshError(
+        "MEDIA_NOT_FOUND",
+        "whatsapp",
+        result.error?.message || `No download URL returned for media ${options.mediaId}`
+      );
+    } catch (error) {
+      return this.handleMediaError(error, "MEDIA_URL_ERROR");
+    }
+  }
+
+  async downloadMedia(
+    options: WhatsAppMediaOperationOptions
+  ): Promise<WhatsAppMediaDownloadResponse> {
+    try {
+      const mediaInfo = await this.getMediaUrl(options);
+      if (!mediaInfo.success || !mediaInfo.url) {
+        return {
+          success: false,
+          error: mediaInfo.error,
+        };
+      }
+
+      // Media URLs are only accessible with the same access token
+      const response = await this.httpClient.get(
+        mediaInfo.url,
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+        },
+        "whatsapp"
+      );
+
+      const data = await response.arrayBuffer();
+
+      return {
+        success: true,
+        data,
+        mimeType: mediaInfo.mimeType ?? response.headers.get("content-type") ?? undefined,
+        sha256: mediaInfo.sha256,
+        fileSize: mediaInfo.fileSize ?? data.byteLength,
+      };
+    } catch (error) {
+      return this.handleMediaError(error, "MEDIA_DOWNLOAD_ERROR");
+    }
+  }
+
+  async deleteMedia(options: WhatsAppMediaOperationOptions): Promise<WhatsAppMediaDeleteResponse> {
+    try {
+      this.validateMediaOperationOptions(options);
+
+      const params = new URLSearchParams();
+      if (options.phoneNumberId) params.append("phone_number_id", options.phoneNumberId);
+      const query = params.toString();
+
+      const response = await this.httpClient.delete(
+        `${WhatsAppService.BASE_URL}/${options.mediaId}${query ? `?${query}` : ""}`,
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+        },
+        "whatsapp"
+      );
+
+      const result = (await response.json()) as WhatsAppApiResponse;
+
+      if (result.success) {
+        return {
+          success: true,
+        };
+      }
+
+      throw new MessageMeshError(
+        "MEDIA_DELETE_FAILED",
         "whatsapp",
-        "Emoji parameter is required (use empty string to remove reactions)"
+        result.error?.message || `Failed to delete media ${options.mediaId}`
       );
+    } catch (error) {
+      return this.handleMediaError(error, "MEDIA_DELETE_ERROR");
     }
   }
 
-  private validateMediaOptions(options: WhatsAppMediaOptions): void {
+  private validateMediaUploadOptions(options: WhatsAppMediaUploadOptions): void {
     SecurityUtils.validateAccessToken(options.accessToken, "whatsapp");
-    SecurityUtils.validateUserId(options.to, "whatsapp");
 
-    // Validate WhatsApp phone number format
-    if (!/^\+\d{1,15}$/.test(options.to.trim())) {
+    if (!options.phoneNumberId?.trim()) {
       throw new MessageMeshError(
-        "INVALID_RECIPIENT",
+        "INVALID_PHONE_NUMBER_ID",
         "whatsapp",
-        "Recipient must be a valid WhatsApp phone number in E.164 format"
+        "Phone number ID is required"
       );
     }
 
-    if (!options.mediaUrl && !options.mediaPath) {
-      throw new MessageMeshError(
-        "INVALID_MEDIA",
-        "whatsapp",
-        "Either media URL or media path is required"
-      );
+    if (!options.file) {
+      throw new MessageMeshError("INVALID_MEDIA", "whatsapp", "A file to upload is required");
     }
 
-    // Validate media URL if provided
-    if (options.mediaUrl) {
-      SecurityUtils.validateUrl(options.mediaUrl, "whatsapp");
+    if (!options.mimeType?.trim()) {
+      throw new MessageMeshError("INVALID_MEDIA_TYPE", "whatsapp", "MIME type is required");
     }
 
-    const validTypes = ["image", "video", "audio", "document"];
-    if (!validTypes.includes(options.mediaType)) {
+    if (!PlatformCapabilitiesManager.isFileTypeSupported("whatsapp", options.mimeType)) {
       throw new MessageMeshError(
-        "INVALID_MEDIA_TYPE",
+        "UNSUPPORTED_MEDIA_TYPE",
         "whatsapp",
-        `Invalid media type. Must be one of: ${validTypes.join(", ")}`
+        `MIME type ${options.mimeType} is not supported by WhatsApp`
       );
     }
 
-    // Sanitize optional fields
-    if (options.caption) {
-      options.caption = SecurityUtils.sanitizeText(options.caption);
-    }
     if (options.filename) {
       options.filename = SecurityUtils.sanitizeText(options.filename);
     }
-
-    // Validate metadata if present
-    if (options.metadata) {
-      SecurityUtils.validateMetadata(options.metadata, "whatsapp");
-    }
   }
 
-  private validateEmojiOptions(options: WhatsAppEmojiOptions): void {
-    if (!options.accessToken?.trim()) {
-      throw new MessageMeshError("INVALID_ACCESS_TOKEN", "whatsapp", "Access token is required");
+  private validateMediaOperationOptions(options: WhatsAppMediaOperationOptions): void {
+    SecurityUtils.validateAccessToken(options.accessToken, "whatsapp");
+
+    if (!options.mediaId?.trim()) {
+      throw new MessageMeshError("INVALID_MEDIA_ID", "whatsapp", "Media ID is required");
     }
-    if (!options.to?.trim()) {
-      throw new MessageMeshError(
-        "INVALID_RECIPIENT",
-        "whatsapp",
-        "Recipient phone number is required"
-      );
+
+    if (!/^\d+$/.test(options.mediaId.trim())) {
+      throw new MessageMeshError("INVALID_MEDIA_ID", "whatsapp", "Media ID must be numeric");
     }
-    if (!options.emoji?.trim()) {
-      throw new MessageMeshError("INVALID_EMOJI", "whatsapp", "Emoji is required");
+  }
+
+  private handleMediaError(
+    error: unknown,
+    fallbackCode: string
+  ): { success: false; error: { code: string; message: string; platform: Platform } } {
+    if (error instanceof MessageMeshError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          platform: error.platform,
+        },
+      };
     }
+
+    return {
+      success: false,
+      error: {
+        code: fallbackCode,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        platform: "whatsapp",
+      },
+    };
   }
 
   // Template Management Methods
@@ -808,14 +2179,10 @@ export class WhatsAppService implements IWhatsAppService {
 
       const params = new URLSearchParams();
 
-      if (options.fields) {
-        params.append("fields", options.fields.join(","));
-      } else {
-        params.append(
-          "fields",
-          "id,display_phone_number,verified_name,code_verification_status,status,quality_rating,platform,throughput,webhook_configuration"
-        );
-      }
+      params.append(
+        "fields",
+        options.fields ? options.fields.join(",") : WhatsAppService.PHONE_NUMBER_FIELDS
+      );
 
       if (options.limit) params.append("limit", options.limit.toString());
 
@@ -845,6 +2212,325 @@ export class WhatsAppService implements IWhatsAppService {
     }
   }
 
+  /**
+   * Get a single phone number, including its quality rating, messaging limit tier
+   * and display name status
+   */
+  async getPhoneNumber(options: PhoneNumberOptions): Promise<PhoneNumberResponse> {
+    try {
+      this.validatePhoneNumberId(options);
+
+      const params = new URLSearchParams({
+        fields: options.fields ? options.fields.join(",") : WhatsAppService.PHONE_NUMBER_FIELDS,
+      });
+
+      const response = await this.httpClient.get(
+        `${WhatsAppService.BASE_URL}/${options.phoneNumberId}?${params.toString()}`,
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+        },
+        "whatsapp"
+      );
+
+      const result = (await response.json()) as Record<string, unknown>;
+
+      return {
+        success: true,
+        phoneNumber: this.formatPhoneNumber(result),
+      };
+    } catch (error) {
+      return this.handlePhoneNumberOperationError(error, "PHONE_NUMBER_ERROR");
+    }
+  }
+
+  /**
+   * Register a phone number for Cloud API use. The PIN becomes the number's two-step
+   * verification PIN when none is set yet.
+   */
+  async registerPhoneNumber(
+    options: PhoneNumberRegisterOptions
+  ): Promise<PhoneNumberOperationResponse> {
+    try {
+      this.validatePhoneNumberId(options);
+      this.validatePin(options.pin);
+      if (
+        options.dataLocalizationRegion &&
+        !/^[A-Z]{2}$/.test(options.dataLocalizationRegion)
+      ) {
+        throw new MessageMeshError(
+          "INVALID_DATA_LOCALIZATION_REGION",
+          "whatsapp",
+          "Data localization region must be a two-letter ISO 3166-1 code"
+        );
+      }
+
+      return await this.postPhoneNumberOperation(options, "register", {
+        messaging_product: "whatsapp",
+        pin: options.pin,
+        ...(options.dataLocalizationRegion && {
+          data_localization_region: options.dataLocalizationRegion,
+        }),
+      });
+    } catch (error) {
+      return this.handlePhoneNumberOperationError(error, "PHONE_NUMBER_REGISTER_ERROR");
+    }
+  }
+
+  async deregisterPhoneNumber(
+    options: PhoneNumberDeregisterOptions
+  ): Promise<PhoneNumberOperationResponse> {
+    try {
+      this.validatePhoneNumberId(options);
+
+      return await this.postPhoneNumberOperation(options, "deregister", {});
+    } catch (error) {
+      return this.handlePhoneNumberOperationError(error, "PHONE_NUMBER_DEREGISTER_ERROR");
+    }
+  }
+
+  /**
+   * Set or change the two-step verification PIN of a registered phone number
+   */
+  async setTwoStepPin(
+    options: PhoneNumberTwoStepPinOptions
+  ): Promise<PhoneNumberOperationResponse> {
+    try {
+      this.validatePhoneNumberId(options);
+      this.validatePin(options.pin);
+
+      return await this.postPhoneNumberOperation(options, undefined, { pin: options.pin });
+    } catch (error) {
+      return this.handlePhoneNumberOperationError(error, "TWO_STEP_PIN_ERROR");
+    }
+  }
+
+  /**
+   * Send a verification code to the phone number by SMS or voice call
+   */
+  async requestVerificationCode(
+    options: VerificationCodeRequestOptions
+  ): Promise<PhoneNumberOperationResponse> {
+    try {
+      this.validatePhoneNumberId(options);
+      if (!["SMS", "VOICE"].includes(options.codeMethod)) {
+        throw new MessageMeshError(
+          "INVALID_CODE_METHOD",
+          "whatsapp",
+          `Invalid code method: ${options.codeMethod}. Must be one of: SMS, VOICE`
+        );
+      }
+
+      return await this.postPhoneNumberOperation(options, "request_code", {
+        code_method: options.codeMethod,
+        language: options.language ?? "en_US",
+      });
+    } catch (error) {
+      return this.handlePhoneNumberOperationError(error, "VERIFICATION_CODE_ERROR");
+    }
+  }
+
+  async verifyCode(options: VerificationCodeOptions): Promise<PhoneNumberOperationResponse> {
+    try {
+      this.validatePhoneNumberId(options);
+      if (!/^\d{6}$/.test(options.code?.replace(/-/g, "") ?? "")) {
+        throw new MessageMeshError(
+          "INVALID_VERIFICATION_CODE",
+          "whatsapp",
+          "Verification code must be 6 digits"
+        );
+      }
+
+      return await this.postPhoneNumberOperation(options, "verify_code", {
+        code: options.code.replace(/-/g, ""),
+      });
+    } catch (error) {
+      return this.handlePhoneNumberOperationError(error, "VERIFICATION_CODE_ERROR");
+    }
+  }
+
+  // Business Profile Methods
+
+  async getBusinessProfile(options: BusinessProfileOptions): Promise<BusinessProfileResponse> {
+    try {
+      this.validatePhoneNumberId(options);
+
+      const params = new URLSearchParams({
+        fields: options.fields
+          ? options.fields.join(",")
+          : WhatsAppService.BUSINESS_PROFILE_FIELDS,
+      });
+
+      const response = await this.httpClient.get(
+        `${WhatsAppService.BASE_URL}/${options.phoneNumberId}/whatsapp_business_profile?${params.toString()}`,
+        {
+          Authorization: `Bearer ${options.accessToken}`,
+        },
+        "whatsapp"
+      );
+
+      const result = (await response.json()) as WhatsAppBusinessProfileApiResponse;
+      const profile = result.data?.[0] ?? {};
+
+      return {
+        success: true,
+        profile: {
+          about: profile.about,
+          address: profile.address,
+          description: profile.description,
+          email: profile.email,
+          profilePictureUrl: profile.profile_picture_url,
+          websites: profile.websites,
+          vertical: profile.vertical,
+        },
+      };
+    } catch (error) {
+      return this.handlePhoneNumberOperationError(error, "BUSINESS_PROFILE_ERROR");
+    }
+  }
+
+  /**
+   * Update the business profile. Only the given fields change; an empty string clears
+   * a text field.
+   */
+  async updateBusinessProfile(
+    options: BusinessProfileUpdateOptions
+  ): Promise<BusinessProfileResponse> {
+    try {
+      this.validatePhoneNumberId(options);
+      this.validateBusinessProfileUpdate(options);
+
+      return await this.postPhoneNumberOperation(options, "whatsapp_business_profile", {
+        messaging_product: "whatsapp",
+        ...(options.about !== undefined && { about: options.about }),
+        ...(options.address !== undefined && { address: options.address }),
+        ...(options.description !== undefined && { description: options.description }),
+        ...(options.email !== undefined && { email: options.email }),
+        ...(options.websites && { websites: options.websites }),
+        ...(options.vertical && { vertical: options.vertical }),
+        ...(options.profilePictureHandle && {
+          profile_picture_handle: options.profilePictureHandle,
+        }),
+      });
+    } catch (error) {
+      return this.handlePhoneNumberOperationError(error, "BUSINESS_PROFILE_ERROR");
+    }
+  }
+
+  /**
+   * POST to a phone number edge, or to the phone number itself when edge is undefined
+   */
+  private async postPhoneNumberOperation(
+    options: { accessToken: string; phoneNumberId: string },
+    edge: string | undefined,
+    body: Record<string, unknown>
+  ): Promise<PhoneNumberOperationResponse> {
+    const response = await this.httpClient.post(
+      `${WhatsAppService.BASE_URL}/${options.phoneNumberId}${edge ? `/${edge}` : ""}`,
+      JSON.stringify(body),
+      {
+        Authorization: `Bearer ${options.accessToken}`,
+        "Content-Type": "application/json",
+      },
+      "whatsapp"
+    );
+
+    const result = (await response.json()) as { success?: boolean };
+    if (result.success === false) {
+      throw new MessageMeshError(
+        "PHONE_NUMBER_OPERATION_FAILED",
+        "whatsapp",
+        `Graph API did not confirm the ${edge ?? "phone number update"} request`
+      );
+    }
+    return { success: true };
+  }
+
+  private validatePhoneNumberId(options: { accessToken: string; phoneNumberId: string }): void {
+    SecurityUtils.validateAccessToken(options.accessToken, "whatsapp");
+
+    if (!options.phoneNumberId?.trim()) {
+      throw new MessageMeshError(
+        "INVALID_PHONE_NUMBER_ID",
+        "whatsapp",
+        "Phone number ID is required"
+      );
+    }
+  }
+
+  private validatePin(pin: string): void {
+    if (!/^\d{6}$/.test(pin ?? "")) {
+      throw new MessageMeshError("INVALID_PIN", "whatsapp", "PIN must be 6 digits");
+    }
+  }
+
+  private validateBusinessProfileUpdate(options: BusinessProfileUpdateOptions): void {
+    const limits = WhatsAppService.BUSINESS_PROFILE_LIMITS;
+    const textFields = [
+      ["about", limits.aboutLength],
+      ["address", limits.addressLength],
+      ["description", limits.descriptionLength],
+      ["email", limits.emailLength],
+    ] as const;
+
+    for (const [field, maxLength] of textFields) {
+      const value = options[field];
+      if (value === undefined) {
+        continue;
+      }
+      const sanitized = SecurityUtils.sanitizeText(value);
+      if (sanitized.length > maxLength) {
+        throw new MessageMeshError(
+          "INVALID_BUSINESS_PROFILE",
+          "whatsapp",
+          `Business profile ${field} cannot exceed ${maxLength} characters`
+        );
+      }
+      options[field] = sanitized;
+    }
+
+    if (options.about === "") {
+      throw new MessageMeshError(
+        "INVALID_BUSINESS_PROFILE",
+        "whatsapp",
+        "Business profile about text cannot be empty"
+      );
+    }
+    if (options.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(options.email)) {
+      throw new MessageMeshError(
+        "INVALID_BUSINESS_PROFILE",
+        "whatsapp",
+        `Invalid business profile email: ${options.email}`
+      );
+    }
+
+    if (options.websites) {
+      if (options.websites.length > limits.maxWebsites) {
+        throw new MessageMeshError(
+          "INVALID_BUSINESS_PROFILE",
+          "whatsapp",
+          `Business profile supports maximum ${limits.maxWebsites} websites`
+        );
+      }
+      for (const website of options.websites) {
+        if (!/^https?:\/\//.test(website) || website.length > limits.websiteLength) {
+          throw new MessageMeshError(
+            "INVALID_BUSINESS_PROFILE",
+            "whatsapp",
+            `Business profile websites must be http(s) URLs of at most ${limits.websiteLength} characters`
+          );
+        }
+      }
+    }
+
+    if (options.vertical && !WhatsAppService.BUSINESS_VERTICALS.includes(options.vertical)) {
+      throw new MessageMeshError(
+        "INVALID_BUSINESS_PROFILE",
+        "whatsapp",
+        `Invalid business vertical: ${options.vertical}`
+      );
+    }
+  }
+
   private validatePhoneNumberListOptions(options: PhoneNumberListOptions): void {
     SecurityUtils.validateAccessToken(options.accessToken, "whatsapp");
 
@@ -886,6 +2572,36 @@ export class WhatsAppService implements IWhatsAppService {
               .webhook_url as string,
           }
         : undefined,
+      messagingLimitTier: phoneNumber.messaging_limit_tier as
+        | PhoneNumberMessagingLimitTier
+        | undefined,
+      nameStatus: phoneNumber.name_status as DisplayNameStatus | undefined,
+      newNameStatus: phoneNumber.new_name_status as DisplayNameStatus | undefined,
+    };
+  }
+
+  private handlePhoneNumberOperationError(
+    error: unknown,
+    fallbackCode: string
+  ): PhoneNumberOperationResponse {
+    if (error instanceof MessageMeshError) {
+      return {
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message,
+          platform: error.platform,
+        },
+      };
+    }
+
+    return {
+      success: false,
+      error: {
+        code: fallbackCode,
+        message: error instanceof Error ? error.message : "An unknown error occurred",
+        platform: "whatsapp",
+      },
     };
   }
 
@@ -911,6 +2627,155 @@ export class WhatsAppService implements IWhatsAppService {
     };
   }
 
+  /**
+   * Send a message of any type and record it with the delivery tracker
+   */
+  private async sendMessagePayload(
+    options: {
+      accessToken: string;
+      to: string;
+      phoneNumberId: string;
+      replyToMessageId?: string;
+      metadata?: Record<string, any>;
+    },
+    message: Record<string, unknown>
+  ): Promise<SendMessageResponse> {
+    const payload = {
+      messaging_product: "whatsapp",
+      recipient_type: "individual",
+      to: options.to,
+      ...(options.replyToMessageId && {
+        context: {
+          message_id: options.replyToMessageId,
+        },
+      }),
+      ...message,
+      ...(options.metadata && { metadata: options.metadata }),
+    };
+
+    const response = await this.httpClient.post(
+      `${WhatsAppService.BASE_URL}/${options.phoneNumberId}/messages`,
+      JSON.stringify(payload),
+      {
+        Authorization: `Bearer ${options.accessToken}`,
+        "Content-Type": "application/json",
+      },
+      "whatsapp"
+    );
+
+    const result = (await response.json()) as WhatsAppApiResponse;
+
+    return this.trackOutbound(
+      { success: true, messageId: result.messages?.[0]?.id },
+      options.to,
+      options.phoneNumberId
+    );
+  }
+
+  /**
+   * Convert a contact to the Cloud API's snake_case contact object
+   */
+  private buildContact(contact: WhatsAppContact): Record<string, unknown> {
+    const { name } = contact;
+    return {
+      name: {
+        formatted_name: name.formattedName,
+        ...(name.firstName && { first_name: name.firstName }),
+        ...(name.lastName && { last_name: name.lastName }),
+        ...(name.middleName && { middle_name: name.middleName }),
+        ...(name.prefix && { prefix: name.prefix }),
+        ...(name.suffix && { suffix: name.suffix }),
+      },
+      ...(contact.phones && {
+        phones: contact.phones.map((phone) => ({
+          ...(phone.phone && { phone: phone.phone }),
+          ...(phone.type && { type: phone.type }),
+          ...(phone.waId && { wa_id: phone.waId }),
+        })),
+      }),
+      ...(contact.emails && { emails: contact.emails }),
+      ...(contact.addresses && {
+        addresses: contact.addresses.map(({ countryCode, ...address }) => ({
+          ...address,
+          ...(countryCode && { country_code: countryCode }),
+        })),
+      }),
+      ...(contact.urls && { urls: contact.urls }),
+      ...(contact.org && { org: contact.org }),
+      ...(contact.birthday && { birthday: contact.birthday }),
+    };
+  }
+
+  /**
+   * Enforce the 24-hour customer service window for a free-form send. In route mode only
+   * routable (text and media) sends are replaced by the fallback template; others are blocked.
+   * Returns the template send result when the message was routed to the fallback template
+   */
+  private async applyConversationWindow(
+    options: {
+      accessToken: string;
+      to: string;
+      phoneNumberId: string;
+      metadata?: Record<string, any>;
+    },
+    routable = false
+  ): Promise<SendMessageResponse | undefined> {
+    const tracker = this.deps.windowTracker;
+    if (!tracker) {
+      return undefined;
+    }
+
+    const decision = await tracker.evaluate("whatsapp", options.to, options.phoneNumberId);
+    if (decision.action === "block" || (decision.action === "route" && !routable)) {
+      throw new MessageMeshError(
+        "OUTSIDE_CONVERSATION_WINDOW",
+        "whatsapp",
+        "The 24-hour customer service window is closed. Send a template message instead"
+      );
+    }
+
+    if (decision.action === "route" && decision.whatsappTemplate) {
+      const response = await this.sendTemplate({
+        accessToken: options.accessToken,
+        to: options.to,
+        phoneNumberId: options.phoneNumberId,
+        ...decision.whatsappTemplate,
+        metadata: options.metadata,
+      });
+      return { ...response, routedToTemplate: true };
+    }
+    return undefined;
+  }
+
+  /**
+   * Record a successful send with the delivery tracker, if one is configured
+   */
+  private async trackOutbound(
+    response: SendMessageResponse,
+    to: string,
+    sender?: string
+  ): Promise<SendMessageResponse> {
+    const tracker = this.deps.deliveryTracker;
+    if (tracker && response.messageId) {
+      try {
+        await tracker.recordOutbound({
+          platform: "whatsapp",
+          messageId: response.messageId,
+          recipient: to,
+          sender,
+        });
+      } catch (error) {
+        (this.deps.logger ?? Logger.getInstance()).warn(
+          "Failed to record outbound message for delivery tracking",
+          "whatsapp",
+          { messageId: response.messageId },
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+    return response;
+  }
+
   private handleError(error: unknown): SendMessageResponse {
     if (error instanceof MessageMeshError) {
       return {
@@ -1,12 +1,45 @@
+import type { RetryPolicy } from "./retry-policy.js";
+import type { RateLimiterConfig } from "./rate-limiter.js";
+import type { Transport } from "./http-client.js";
+import type { DeliveryTracker } from "./delivery-tracker.js";
+import type { OutboundQueueConfig } from "./outbound-queue.js";
+import type { ConversationWindowConfig } from "./conversation-window.js";
+import type { WebhookDeduplicationConfig } from "./webhook-deduplicator.js";
+import type { WebhookFailurePolicy } from "./webhook-router.js";
+import type { WebhookDeadLetterConfig } from "./webhook-dead-letter.js";
+import type { AttachmentCacheConfig } from "./attachment-cache.js";
+import type { PerformanceMonitor } from "./performance.js";
+import type { Logger } from "./logger.js";
+import type { HealthMonitor } from "./health.js";
+import type { WebhookManager } from "./webhook.js";
+
 export interface MessageMeshConfig {
   timeout?: number;
   retryAttempts?: number;
+  retryPolicy?: RetryPolicy;
+  rateLimit?: RateLimiterConfig;
+  transport?: Transport; // Replaces the global fetch for every Graph API call
+  deliveryTracker?: DeliveryTracker; // Defaults to a tracker with in-memory storage
+  queue?: OutboundQueueConfig;
+  conversationWindow?: ConversationWindowConfig; // 24-hour window enforcement is off when omitted
+  webhookDeduplication?: WebhookDeduplicationConfig | false; // In-memory by default; false disables it
+  webhookFailurePolicy?: WebhookFailurePolicy; // Processor retries; a processor runs once by default
+  webhookDeadLetter?: WebhookDeadLetterConfig | false; // In-memory by default; false disables it
+  attachmentCache?: AttachmentCacheConfig | false; // In-memory by default; false disables it
+  // Observability: injected instances win; otherwise `isolated: true` creates fresh ones
+  // for this client and the process-wide getInstance() singletons are used by default
+  isolated?: boolean;
+  logger?: Logger;
+  performanceMonitor?: PerformanceMonitor;
+  healthMonitor?: HealthMonitor;
+  webhookManager?: WebhookManager;
 }
 
 export interface SendMessageResponse {
   success: boolean;
   messageId?: string;
   attachmentId?: string;
+  routedToTemplate?: boolean; // Window closed: the fallback template was sent instead
   error?: {
     code: string;
     message: string;
@@ -56,6 +89,8 @@ export interface WhatsAppMediaOptions {
   to: string;
   mediaType: "image" | "video" | "audio" | "document";
   mediaUrl?: string;
+  mediaId?: string; // ID returned by uploadMedia
+  /** @deprecated Use mediaId instead */
   mediaPath?: string;
   caption?: string;
   filename?: string;
@@ -71,6 +106,223 @@ export interface WhatsAppEmojiOptions {
   metadata?: Record<string, any>;
 }
 
+export interface WhatsAppMarkAsReadOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  messageId: string; // Inbound message to mark as read
+  showTypingIndicator?: boolean;
+}
+
+export interface WhatsAppTypingIndicatorOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  messageId: string; // Inbound message being answered, also marked as read
+}
+
+// File contents accepted by multipart media and attachment uploads
+export type MediaFileSource =
+  | string // Local file path
+  | Uint8Array // Includes Node.js Buffer
+  | Blob
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>; // e.g. fs.createReadStream()
+
+// WhatsApp Media Management Types
+export type WhatsAppMediaSource = MediaFileSource;
+
+export interface WhatsAppMediaUploadOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  file: WhatsAppMediaSource;
+  mimeType: string;
+  filename?: string;
+}
+
+export interface WhatsAppMediaUploadResponse {
+  success: boolean;
+  mediaId?: string;
+  error?: {
+    code: string;
+    message: string;
+    platform: "whatsapp" | "messenger" | "instagram";
+  };
+}
+
+export interface WhatsAppMediaOperationOptions {
+  accessToken: string;
+  mediaId: string;
+  phoneNumberId?: string; // Restricts the operation to media owned by this phone number
+}
+
+export interface WhatsAppMediaUrlResponse {
+  success: boolean;
+  mediaId?: string;
+  url?: string; // Short-lived, requires the access token to download
+  mimeType?: string;
+  sha256?: string;
+  fileSize?: number;
+  error?: {
+    code: string;
+    message: string;
+    platform: "whatsapp" | "messenger" | "instagram";
+  };
+}
+
+export interface WhatsAppMediaDownloadResponse {
+  success: boolean;
+  data?: ArrayBuffer;
+  mimeType?: string;
+  sha256?: string;
+  fileSize?: number;
+  error?: {
+    code: string;
+    message: string;
+    platform: "whatsapp" | "messenger" | "instagram";
+  };
+}
+
+export interface WhatsAppMediaDeleteResponse {
+  success: boolean;
+  error?: {
+    code: string;
+    message: string;
+    platform: "whatsapp" | "messenger" | "instagram";
+  };
+}
+
+export interface WhatsAppInteractiveHeader {
+  type: "text" | "image" | "video" | "document";
+  text?: string;
+  mediaUrl?: string;
+  mediaId?: string;
+  filename?: string;
+}
+
+export interface WhatsAppReplyButton {
+  id: string;
+  title: string;
+}
+
+export interface WhatsAppListRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+export interface WhatsAppListSection {
+  title?: string;
+  rows: WhatsAppListRow[];
+}
+
+export interface WhatsAppProductSection {
+  title?: string; // Required when a product list has more than one section
+  productRetailerIds: string[];
+}
+
+export interface WhatsAppInteractiveOptions {
+  accessToken: string;
+  to: string;
+  phoneNumberId: string;
+  interactiveType: "button" | "list" | "cta_url" | "product" | "product_list" | "catalog_message";
+  body?: string; // Required for every type except single product messages
+  header?: WhatsAppInteractiveHeader;
+  footer?: string;
+  // Reply button messages
+  buttons?: WhatsAppReplyButton[];
+  // List messages
+  listButtonText?: string;
+  sections?: WhatsAppListSection[];
+  // CTA URL messages
+  ctaDisplayText?: string;
+  ctaUrl?: string;
+  // Single product and product list messages
+  catalogId?: string;
+  productRetailerId?: string; // Single product messages
+  productSections?: WhatsAppProductSection[]; // Product list messages
+  // Catalog messages
+  thumbnailProductRetailerId?: string; // Defaults to the first catalog item
+  replyToMessageId?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface WhatsAppLocationOptions {
+  accessToken: string;
+  to: string;
+  phoneNumberId: string;
+  latitude: number; // -90 to 90
+  longitude: number; // -180 to 180
+  name?: string;
+  address?: string;
+  replyToMessageId?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface WhatsAppContact {
+  name: {
+    formattedName: string;
+    firstName?: string;
+    lastName?: string;
+    middleName?: string;
+    prefix?: string;
+    suffix?: string;
+  };
+  phones?: Array<{
+    phone?: string;
+    type?: "CELL" | "MAIN" | "IPHONE" | "HOME" | "WORK";
+    waId?: string; // Shows a "Message" button for the number in WhatsApp
+  }>;
+  emails?: Array<{ email: string; type?: "HOME" | "WORK" }>;
+  addresses?: Array<{
+    street?: string;
+    city?: string;
+    state?: string;
+    zip?: string;
+    country?: string;
+    countryCode?: string; // ISO 3166-1 alpha-2
+    type?: "HOME" | "WORK";
+  }>;
+  urls?: Array<{ url: string; type?: "HOME" | "WORK" }>;
+  org?: { company?: string; department?: string; title?: string };
+  birthday?: string; // YYYY-MM-DD
+}
+
+export interface WhatsAppContactsOptions {
+  accessToken: string;
+  to: string;
+  phoneNumberId: string;
+  contacts: WhatsAppContact[];
+  replyToMessageId?: string;
+  metadata?: Record<string, any>;
+}
+
+// Interactive message with a "Send location" button
+export interface WhatsAppLocationRequestOptions {
+  accessToken: string;
+  to: string;
+  phoneNumberId: string;
+  body: string; // Max 1024 characters
+  replyToMessageId?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface WhatsAppFlowOptions {
+  accessToken: string;
+  to: string;
+  phoneNumberId: string;
+  flowId: string;
+  flowCta: string; // Button label, max 20 characters
+  body: string; // Max 1024 characters
+  header?: string; // Text header, max 60 characters
+  footer?: string; // Max 60 characters
+  flowToken?: string; // Identifies the session in data exchange requests (default: "unused")
+  mode?: "draft" | "published"; // Default: published
+  flowAction?: "navigate" | "data_exchange"; // Default: navigate
+  screen?: string; // First screen, required for navigate
+  data?: Record<string, any>; // Initial data for the first screen (navigate only)
+  replyToMessageId?: string;
+  metadata?: Record<string, any>;
+}
+
 export interface TemplateComponent {
   type: "header" | "body" | "footer" | "button";
   parameters?: TemplateParameter[];
@@ -99,10 +351,35 @@ export interface TemplateParameter {
   };
 }
 
+export interface MessengerQuickReply {
+  contentType: "text" | "user_phone_number" | "user_email";
+  title?: string; // Required for text quick replies (max 20 characters)
+  payload?: string; // Required for text quick replies (max 1000 characters)
+  imageUrl?: string;
+}
+
+// RESPONSE and UPDATE are only allowed within the 24-hour window; MESSAGE_TAG requires a tag
+export type MessengerMessagingType = "RESPONSE" | "UPDATE" | "MESSAGE_TAG";
+
+export type MessengerMessageTag =
+  | "CONFIRMED_EVENT_UPDATE"
+  | "POST_PURCHASE_UPDATE"
+  | "ACCOUNT_UPDATE"
+  | "HUMAN_AGENT";
+
+export type InstagramMessageTag = "HUMAN_AGENT";
+
+// How the recipient is notified: sound and notification, notification only, or neither
+export type MessengerNotificationType = "REGULAR" | "SILENT_PUSH" | "NO_PUSH";
+
 export interface MessengerMessageOptions {
   accessToken: string;
   to: string;
   message: string;
+  quickReplies?: MessengerQuickReply[];
+  messagingType?: MessengerMessagingType; // Default: "RESPONSE", or "MESSAGE_TAG" when tag is set
+  tag?: MessengerMessageTag;
+  notificationType?: MessengerNotificationType; // Default: "REGULAR"
   metadata?: Record<string, any>;
 }
 
@@ -114,6 +391,9 @@ export interface MessengerMediaOptions {
   mediaId?: string;
   caption?: string;
   filename?: string;
+  messagingType?: MessengerMessagingType;
+  tag?: MessengerMessageTag;
+  notificationType?: MessengerNotificationType;
   metadata?: Record<string, any>;
 }
 
@@ -140,6 +420,9 @@ export interface MessengerTemplateOptions {
     payload?: string;
     phoneNumber?: string;
   }>;
+  messagingType?: MessengerMessagingType;
+  tag?: MessengerMessageTag;
+  notificationType?: MessengerNotificationType;
   metadata?: Record<string, any>;
 }
 
@@ -148,13 +431,75 @@ export interface MessengerReplyOptions {
   to: string;
   message: string;
   replyToMessageId: string;
+  messagingType?: MessengerMessagingType;
+  tag?: MessengerMessageTag;
+  notificationType?: MessengerNotificationType;
   metadata?: Record<string, any>;
 }
 
+export interface MessengerPrivateReplyOptions {
+  accessToken: string;
+  commentId: string; // Comment on a Page post, e.g. from a "comment" webhook event
+  message: string;
+  metadata?: Record<string, any>;
+}
+
+// Messenger and Instagram Attachment Upload Types
+export interface MessengerAttachmentUploadOptions {
+  accessToken: string;
+  type: "image" | "video" | "audio" | "file";
+  url?: string; // HTTPS URL Meta fetches the file from
+  file?: MediaFileSource; // Uploaded as multipart form data instead of url
+  mimeType?: string; // Required with file
+  filename?: string;
+  cache?: boolean; // Reuse and store the attachment ID in the attachment cache (default: true)
+}
+
+export interface AttachmentUploadResponse {
+  success: boolean;
+  attachmentId?: string; // Pass as mediaId to sendMedia()
+  cached?: boolean; // Taken from the attachment cache without uploading
+  error?: {
+    code: string;
+    message: string;
+    platform: Platform;
+  };
+}
+
+export interface MessengerMarkAsReadOptions {
+  accessToken: string;
+  to: string;
+}
+
+export interface MessengerTypingIndicatorOptions {
+  accessToken: string;
+  to: string;
+  isTyping: boolean;
+}
+
+// Instagram only supports text quick replies
+export interface InstagramQuickReply {
+  title: string; // Max 20 characters
+  payload: string; // Max 1000 characters
+}
+
+export interface InstagramAttachmentUploadOptions {
+  accessToken: string;
+  type: "image" | "video" | "audio";
+  url?: string; // HTTPS URL Meta fetches the file from
+  file?: MediaFileSource; // Uploaded as multipart form data instead of url
+  mimeType?: string; // Required with file
+  filename?: string;
+  cache?: boolean; // Reuse and store the attachment ID in the attachment cache (default: true)
+}
+
 export interface InstagramMessageOptions {
   accessToken: string;
   to: string;
   message: string;
+  quickReplies?: InstagramQuickReply[]; // Max 13
+  messagingType?: MessengerMessagingType; // "MESSAGE_TAG" when tag is set
+  tag?: InstagramMessageTag;
   metadata?: Record<string, any>;
 }
 
@@ -165,6 +510,8 @@ export interface InstagramMediaOptions {
   mediaUrl?: string;
   mediaId?: string;
   caption?: string;
+  messagingType?: MessengerMessagingType;
+  tag?: InstagramMessageTag;
   metadata?: Record<string, any>;
 }
 
@@ -173,9 +520,96 @@ export interface InstagramReplyOptions {
   to: string;
   message: string;
   replyToMessageId: string;
+  messagingType?: MessengerMessagingType;
+  tag?: InstagramMessageTag;
+  metadata?: Record<string, any>;
+}
+
+export interface InstagramTemplateButton {
+  type: "web_url" | "postback";
+  title: string; // Max 20 characters
+  url?: string; // Required for web_url
+  payload?: string; // Required for postback
+}
+
+export interface InstagramGenericTemplateElement {
+  title: string; // Max 80 characters
+  subtitle?: string; // Max 80 characters
+  imageUrl?: string;
+  defaultActionUrl?: string; // Opened when the element is tapped
+  buttons?: InstagramTemplateButton[]; // Max 3
+}
+
+export interface InstagramGenericTemplateOptions {
+  accessToken: string;
+  to: string;
+  elements: InstagramGenericTemplateElement[]; // 1-10, shown as a carousel
+  messagingType?: MessengerMessagingType;
+  tag?: InstagramMessageTag;
+  metadata?: Record<string, any>;
+}
+
+export interface InstagramMediaShareOptions {
+  accessToken: string;
+  to: string;
+  postId: string; // Post published by the sending Instagram account
+  messagingType?: MessengerMessagingType;
+  tag?: InstagramMessageTag;
+  metadata?: Record<string, any>;
+}
+
+export interface InstagramReactionOptions {
+  accessToken: string;
+  to: string;
+  messageId: string; // Message to react to
+  reaction?: string; // Default: "love"
+}
+
+export interface InstagramRemoveReactionOptions {
+  accessToken: string;
+  to: string;
+  messageId: string;
+}
+
+export interface InstagramIceBreaker {
+  question: string; // Max 80 characters
+  payload: string; // Sent back in a postback webhook when the question is tapped
+}
+
+export interface InstagramIceBreakersOptions {
+  accessToken: string;
+  iceBreakers: InstagramIceBreaker[]; // 1-4 questions
+  locale?: string; // Default: "default"
+}
+
+export interface InstagramIceBreakersResponse {
+  success: boolean;
+  iceBreakers?: Record<string, InstagramIceBreaker[]>; // Keyed by locale
+  error?: {
+    code: string;
+    message: string;
+    platform: "whatsapp" | "messenger" | "instagram";
+  };
+}
+
+export interface InstagramPrivateReplyOptions {
+  accessToken: string;
+  commentId: string; // Comment on the account's media, e.g. from a "comment" webhook event
+  message: string;
   metadata?: Record<string, any>;
 }
 
+export interface InstagramMarkAsReadOptions {
+  accessToken: string;
+  to: string;
+}
+
+export interface InstagramTypingIndicatorOptions {
+  accessToken: string;
+  to: string;
+  isTyping: boolean;
+}
+
 // Template Management Types
 export interface TemplateCreateOptions {
   accessToken: string;
@@ -546,6 +980,9 @@ export interface PhoneNumber {
     application: string;
     webhookUrl: string;
   };
+  messagingLimitTier?: PhoneNumberMessagingLimitTier; // Business-initiated conversations per 24h
+  nameStatus?: DisplayNameStatus; // Review status of the display name
+  newNameStatus?: DisplayNameStatus; // Review status of a requested display name change
 }
 
 export interface PhoneNumberListResponse {
@@ -566,6 +1003,138 @@ export interface PhoneNumberListResponse {
   };
 }
 
+export type PhoneNumberMessagingLimitTier =
+  | "TIER_50"
+  | "TIER_250"
+  | "TIER_1K"
+  | "TIER_10K"
+  | "TIER_100K"
+  | "TIER_UNLIMITED";
+
+export type DisplayNameStatus =
+  | "APPROVED"
+  | "AVAILABLE_WITHOUT_REVIEW"
+  | "DECLINED"
+  | "EXPIRED"
+  | "PENDING_REVIEW"
+  | "NONE";
+
+export interface PhoneNumberOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  fields?: string[];
+}
+
+export interface PhoneNumberResponse {
+  success: boolean;
+  phoneNumber?: PhoneNumber;
+  error?: {
+    code: string;
+    message: string;
+    platform: "whatsapp" | "messenger" | "instagram";
+  };
+}
+
+export interface PhoneNumberRegisterOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  pin: string; // 6-digit two-step verification PIN; sets it when none is set yet
+  dataLocalizationRegion?: string; // ISO 3166-1 alpha-2 code for local storage
+}
+
+export interface PhoneNumberTwoStepPinOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  pin: string; // 6 digits
+}
+
+export interface PhoneNumberDeregisterOptions {
+  accessToken: string;
+  phoneNumberId: string;
+}
+
+export interface VerificationCodeRequestOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  codeMethod: "SMS" | "VOICE";
+  language?: string; // Language of the code message (default: "en_US")
+}
+
+export interface VerificationCodeOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  code: string; // Code received by SMS or voice call
+}
+
+export interface PhoneNumberOperationResponse {
+  success: boolean;
+  error?: {
+    code: string;
+    message: string;
+    platform: "whatsapp" | "messenger" | "instagram";
+  };
+}
+
+// Business Profile Types
+export type WhatsAppBusinessVertical =
+  | "UNDEFINED"
+  | "OTHER"
+  | "AUTO"
+  | "BEAUTY"
+  | "APPAREL"
+  | "EDU"
+  | "ENTERTAIN"
+  | "EVENT_PLAN"
+  | "FINANCE"
+  | "GROCERY"
+  | "GOVT"
+  | "HOTEL"
+  | "HEALTH"
+  | "NONPROFIT"
+  | "PROF_SERVICES"
+  | "RETAIL"
+  | "TRAVEL"
+  | "RESTAURANT"
+  | "NOT_A_BIZ";
+
+export interface BusinessProfile {
+  about?: string;
+  address?: string;
+  description?: string;
+  email?: string;
+  profilePictureUrl?: string;
+  websites?: string[];
+  vertical?: WhatsAppBusinessVertical;
+}
+
+export interface BusinessProfileOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  fields?: string[];
+}
+
+export interface BusinessProfileUpdateOptions {
+  accessToken: string;
+  phoneNumberId: string;
+  about?: string; // Max 139 characters
+  address?: string; // Max 256 characters
+  description?: string; // Max 512 characters
+  email?: string; // Max 128 characters
+  websites?: string[]; // Max 2 http(s) URLs, 256 characters each
+  vertical?: WhatsAppBusinessVertical;
+  profilePictureHandle?: string; // Handle from the Resumable Upload API
+}
+
+export interface BusinessProfileResponse {
+  success: boolean;
+  profile?: BusinessProfile; // Returned by getBusinessProfile
+  error?: {
+    code: string;
+    message: string;
+    platform: "whatsapp" | "messenger" | "instagram";
+  };
+}
+
 // Messenger User Profile Types
 export interface MessengerUserProfileOptions {
   accessToken: string;
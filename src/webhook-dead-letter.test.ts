@@ -0,0 +1,148 @@
+import { describe, it, expect } from "bun:test";
+import { MessageMesh } from "./message-mesh.js";
+import type { MessageMeshConfig } from "./types.js";
+import type { WebhookEvent } from "./webhook.js";
+
+const payload = (mid: string) => ({
+  object: "page",
+  entry: [
+    {
+      id: "page_1",
+      time: 1700000000000,
+      messaging: [
+        {
+          sender: { id: "psid_1" },
+          recipient: { id: "page_1" },
+          timestamp: 1700000000000,
+          message: { mid, text: "Hello" },
+        },
+      ],
+    },
+  ],
+});
+
+const setup = (config: MessageMeshConfig = {}) => {
+  const mesh = new MessageMesh({ isolated: true, ...config });
+  mesh.configureLogging({ enableConsole: false });
+  const received: WebhookEvent[] = [];
+  return { mesh, received };
+};
+
+describe("Webhook failure handling", () => {
+  it("should retry a failing processor according to the failure policy", async () => {
+    const { mesh, received } = setup({
+      webhookFailurePolicy: { maxAttempts: 3, baseDelayMs: 1 },
+    });
+    let failures = 2;
+    mesh.registerWebhookProcessor("message_received", (event) => {
+      if (failures-- > 0) {
+        throw new Error("CRM unavailable");
+      }
+      received.push(event);
+    });
+
+    await mesh.processWebhookEvents(mesh.parseWebhookEvents(payload("m_1"), "messenger"));
+
+    expect(received).toHaveLength(1);
+    expect(await mesh.webhookDeadLetters?.list()).toHaveLength(0);
+  });
+
+  it("should dead-letter events that keep failing and replay them once fixed", async () => {
+    const { mesh, received } = setup();
+    let crmUp = false;
+    mesh.registerWebhookProcessor(
+      "message_received",
+      (event) => {
+        if (!crmUp) {
+          throw new Error("CRM unavailable");
+        }
+        received.push(event);
+      },
+      { failurePolicy: { maxAttempts: 2, baseDelayMs: 1 } }
+    );
+    const deadLetters = mesh.webhookDeadLetters;
+    if (!deadLetters) {
+      throw new Error("Dead-letter queue should be enabled by default");
+    }
+
+    await mesh.processWebhookEvents(mesh.parseWebhookEvents(payload("m_1"), "messenger"));
+    await mesh.processWebhookEvents(mesh.parseWebhookEvents(payload("m_2"), "messenger"));
+
+    const entries = await deadLetters.list({ platform: "messenger" });
+    expect(entries).toHaveLength(2);
+    expect(entries[0]?.failures).toMatchObject([
+      { pattern: "message_received", attempts: 2, error: { message: "CRM unavailable" } },
+    ]);
+
+    const [firstId = "", secondId = ""] = entries.map((entry) => entry.id);
+    expect((await deadLetters.replay(firstId))?.success).toBe(false);
+    expect((await deadLetters.get(firstId))?.replayCount).toBe(1);
+
+    crmUp = true;
+    const results = await deadLetters.replayAll();
+    expect(results.map((result) => result.success)).toEqual([true, true]);
+    expect(received.map((event) => event.message?.messageId)).toEqual(["m_1", "m_2"]);
+    expect(await deadLetters.list()).toHaveLength(0);
+
+    crmUp = false;
+    await mesh.processWebhookEvents(mesh.parseWebhookEvents(payload("m_3"), "messenger"));
+    expect(await deadLetters.purge({ eventType: "message_received" })).toBe(1);
+    expect(await deadLetters.get(secondId)).toBeUndefined();
+  });
+
+  it("should replay only the failed processors and drop redeliveries meanwhile", async () => {
+    const { mesh } = setup();
+    const calls: string[] = [];
+    let crmUp = false;
+    mesh.useWebhookMiddleware(async (_event, next) => {
+      calls.push("middleware");
+      await next();
+    });
+    mesh.registerWebhookProcessor("message_received", () => {
+      calls.push("reply");
+    });
+    mesh.registerWebhookProcessor("message_received", () => {
+      if (!crmUp) {
+        throw new Error("CRM unavailable");
+      }
+      calls.push("crm");
+    });
+    mesh.registerWebhookProcessor("*", () => {
+      calls.push("audit");
+    });
+    const deadLetters = mesh.webhookDeadLetters;
+    if (!deadLetters) {
+      throw new Error("Dead-letter queue should be enabled by default");
+    }
+
+    await mesh.processWebhookEvents(mesh.parseWebhookEvents(payload("m_1"), "messenger"));
+    const [entry] = await deadLetters.list();
+    expect(entry?.failures).toMatchObject([{ pattern: "message_received", processorIndex: 1 }]);
+
+    // Meta redelivers the notification while the event is dead-lettered
+    await mesh.processWebhookEvents(mesh.parseWebhookEvents(payload("m_1"), "messenger"));
+    expect(mesh.getPerformanceSummary().totalDuplicateWebhooks).toBe(1);
+
+    crmUp = true;
+    expect((await deadLetters.replay(entry?.id ?? ""))?.success).toBe(true);
+    expect(calls).toEqual(["middleware", "reply", "audit", "middleware", "crm"]);
+  });
+
+  it("should replay captured raw payloads past deduplication", async () => {
+    const { mesh, received } = setup();
+    mesh.registerWebhookProcessor("message_received", (event) => {
+      received.push(event);
+    });
+    const captured = JSON.stringify(payload("m_1"));
+
+    await mesh.processWebhookEvents(mesh.parseWebhookEvents(JSON.parse(captured), "messenger"));
+    const replay = await mesh.replayWebhookPayload(captured);
+
+    expect(replay.events).toHaveLength(1);
+    expect(replay.failed).toHaveLength(0);
+    expect(received).toHaveLength(2);
+    expect(mesh.replayWebhookPayload("{")).rejects.toMatchObject({
+      code: "INVALID_WEBHOOK_PAYLOAD",
+    });
+  });
+});
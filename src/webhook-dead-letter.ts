@@ -0,0 +1,227 @@
+import * as crypto from "crypto";
+import type { Platform } from "./types.js";
+import { Logger } from "./logger.js";
+import type { FailedWebhookEvent, WebhookEvent } from "./webhook.js";
+import type { WebhookProcessorFailure } from "./webhook-router.js";
+
+/**
+ * Webhook event that kept failing, kept for inspection and replay
+ */
+export interface DeadLetteredWebhookEvent {
+  id: string;
+  event: WebhookEvent;
+  failures: WebhookProcessorFailure[]; // From the latest attempt
+  replayCount: number;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+}
+
+export interface WebhookDeadLetterFilter {
+  platform?: Platform;
+  eventType?: string;
+  before?: string; // ISO 8601; only entries created earlier
+}
+
+/**
+ * Pluggable persistence for dead-lettered webhook events
+ */
+export interface WebhookDeadLetterStorage {
+  add(entry: DeadLetteredWebhookEvent): Promise<void>;
+  update(entry: DeadLetteredWebhookEvent): Promise<void>;
+  get(id: string): Promise<DeadLetteredWebhookEvent | undefined>;
+  list(filter?: WebhookDeadLetterFilter): Promise<DeadLetteredWebhookEvent[]>; // Oldest first
+  remove(id: string): Promise<void>;
+}
+
+export interface WebhookDeadLetterConfig {
+  storage?: WebhookDeadLetterStorage; // Default: InMemoryWebhookDeadLetterStorage
+  logger?: Logger; // Default: Logger.getInstance()
+}
+
+/**
+ * Outcome of replaying a dead-lettered event
+ */
+export interface WebhookReplayResult {
+  id: string;
+  success: boolean; // The entry is removed on success
+  failures: WebhookProcessorFailure[];
+}
+
+/**
+ * Runs an event through the processors that failed before and returns what failed again
+ */
+export type WebhookEventDispatcher = (
+  event: WebhookEvent,
+  failures: WebhookProcessorFailure[]
+) => Promise<WebhookProcessorFailure[]>;
+
+const cloneEntry = (entry: DeadLetteredWebhookEvent): DeadLetteredWebhookEvent =>
+  JSON.parse(JSON.stringify(entry));
+
+const matchesFilter = (entry: DeadLetteredWebhookEvent, filter: WebhookDeadLetterFilter = {}) =>
+  (!filter.platform || entry.event.platform === filter.platform) &&
+  (!filter.eventType || entry.event.eventType === filter.eventType) &&
+  (!filter.before || entry.createdAt < filter.before);
+
+/**
+ * In-memory dead-letter storage. Entries are lost when the process exits, and the
+ * oldest are dropped once maxEntries is reached
+ */
+export class InMemoryWebhookDeadLetterStorage implements WebhookDeadLetterStorage {
+  private entries = new Map<string, DeadLetteredWebhookEvent>();
+
+  constructor(private readonly maxEntries: number = 1000) {}
+
+  async add(entry: DeadLetteredWebhookEvent): Promise<void> {
+    this.entries.set(entry.id, cloneEntry(entry));
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(id);
+    }
+  }
+
+  async update(entry: DeadLetteredWebhookEvent): Promise<void> {
+    if (this.entries.has(entry.id)) {
+      this.entries.set(entry.id, cloneEntry(entry));
+    }
+  }
+
+  async get(id: string): Promise<DeadLetteredWebhookEvent | undefined> {
+    const entry = this.entries.get(id);
+    return entry ? cloneEntry(entry) : undefined;
+  }
+
+  async list(filter?: WebhookDeadLetterFilter): Promise<DeadLetteredWebhookEvent[]> {
+    return [...this.entries.values()]
+      .filter((entry) => matchesFilter(entry, filter))
+      .map(cloneEntry);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+
+/**
+ * Keeps webhook events whose processors failed after every retry, so they can be
+ * inspected and replayed once the cause is fixed
+ */
+export class WebhookDeadLetterQueue {
+  private readonly storage: WebhookDeadLetterStorage;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly dispatch: WebhookEventDispatcher,
+    config: WebhookDeadLetterConfig = {}
+  ) {
+    this.storage = config.storage ?? new InMemoryWebhookDeadLetterStorage();
+    this.logger = config.logger ?? Logger.getInstance();
+  }
+
+  /**
+   * Store failed events. Storage errors are thrown so the webhook is answered with
+   * an error and Meta redelivers it
+   */
+  async add(failed: FailedWebhookEvent[]): Promise<DeadLetteredWebhookEvent[]> {
+    const entries: DeadLetteredWebhookEvent[] = [];
+
+    for (const { event, failures } of failed) {
+      const now = new Date().toISOString();
+      const entry: DeadLetteredWebhookEvent = {
+        id: crypto.randomUUID(),
+        event,
+        failures,
+        replayCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.storage.add(entry);
+      this.logger.warn(`Webhook event dead-lettered: ${event.eventType}`, event.platform, {
+        deadLetterId: entry.id,
+        patterns: failures.map((failure) => failure.pattern ?? "middleware"),
+      });
+      entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  /**
+   * List dead-lettered events, oldest first
+   */
+  async list(filter?: WebhookDeadLetterFilter): Promise<DeadLetteredWebhookEvent[]> {
+    return this.storage.list(filter);
+  }
+
+  /**
+   * Get a dead-lettered event by ID
+   */
+  async get(id: string): Promise<DeadLetteredWebhookEvent | undefined> {
+    return this.storage.get(id);
+  }
+
+  /**
+   * Run a dead-lettered event through the middleware and the processors that failed;
+   * processors that succeeded are skipped unless a middleware failed. The entry is
+   * removed when nothing fails and kept with the new failures otherwise. Returns
+   * undefined for unknown IDs.
+   */
+  async replay(id: string): Promise<WebhookReplayResult | undefined> {
+    const entry = await this.storage.get(id);
+    if (!entry) {
+      return undefined;
+    }
+
+    const failures = await this.dispatch(entry.event, entry.failures);
+    if (failures.length === 0) {
+      await this.storage.remove(id);
+      this.logger.info(
+        `Dead-lettered webhook event replayed: ${entry.event.eventType}`,
+        entry.event.platform,
+        {
+          deadLetterId: id,
+        }
+      );
+      return { id, success: true, failures };
+    }
+
+    entry.failures = failures;
+    entry.replayCount++;
+    entry.updatedAt = new Date().toISOString();
+    await this.storage.update(entry);
+    return { id, success: false, failures };
+  }
+
+  /**
+   * Replay every matching dead-lettered event, oldest first
+   */
+  async replayAll(filter?: WebhookDeadLetterFilter): Promise<WebhookReplayResult[]> {
+    const results: WebhookReplayResult[] = [];
+    for (const entry of await this.storage.list(filter)) {
+      const result = await this.replay(entry.id);
+      if (result) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Remove a dead-lettered event without replaying it
+   */
+  async remove(id: string): Promise<void> {
+    await this.storage.remove(id);
+  }
+
+  /**
+   * Remove every matching dead-lettered event. Returns how many were removed.
+   */
+  async purge(filter?: WebhookDeadLetterFilter): Promise<number> {
+    const entries = await this.storage.list(filter);
+    for (const entry of entries) {
+      await this.storage.remove(entry.id);
+    }
+    return entries.length;
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "bun:test";
+import { MessageMesh } from "./message-mesh.js";
+import { InMemoryWebhookDeduplicationStorage } from "./webhook-deduplicator.js";
+import type { WebhookEvent } from "./webhook.js";
+import type { MessageMeshConfig } from "./types.js";
+
+const whatsappPayload = (status?: "sent" | "delivered") => ({
+  object: "whatsapp_business_account",
+  entry: [
+    {
+      id: "waba_1",
+      changes: [
+        {
+          field: "messages",
+          value: {
+            messaging_product: "whatsapp",
+            metadata: { display_phone_number: "15550000000", phone_number_id: "pn_1" },
+            ...(status
+              ? {
+                  statuses: [
+                    {
+                      id: "wamid.out",
+                      status,
+                      timestamp: "1700000000",
+                      recipient_id: "1234567890",
+                    },
+                  ],
+                }
+              : {
+                  contacts: [{ wa_id: "1234567890", profile: { name: "Ann" } }],
+                  messages: [
+                    {
+                      id: "wamid.in",
+                      from: "1234567890",
+                      timestamp: "1700000000",
+                      type: "text",
+                      text: { body: "Hi" },
+                    },
+                  ],
+                }),
+          },
+        },
+      ],
+    },
+  ],
+});
+
+const setup = (config: MessageMeshConfig = {}) => {
+  const mesh = new MessageMesh({ isolated: true, ...config });
+  mesh.configureLogging({ enableConsole: false });
+  const received: WebhookEvent[] = [];
+  return { mesh, received };
+};
+
+describe("WebhookDeduplicator", () => {
+  it("should process redelivered events once and count the duplicates", async () => {
+    const { mesh, received } = setup();
+    mesh.registerWebhookProcessor("message_received", (event) => {
+      received.push(event);
+    });
+    mesh.registerWebhookProcessor("message_status", (event) => {
+      received.push(event);
+    });
+
+    const deliveries = [
+      whatsappPayload(),
+      whatsappPayload(),
+      whatsappPayload("sent"),
+      whatsappPayload("delivered"),
+      whatsappPayload("delivered"),
+    ];
+    for (const payload of deliveries) {
+      await mesh.processWebhookEvents(mesh.parseWebhookEvents(payload, "whatsapp"));
+    }
+
+    expect(received.map((event) => event.status?.status ?? event.message?.type)).toEqual([
+      "text",
+      "sent",
+      "delivered",
+    ]);
+    expect(mesh.getPerformanceSummary().totalDuplicateWebhooks).toBe(2);
+    expect(mesh.getLogs().some((log) => log.message === "Skipped duplicate webhook event")).toBe(
+      true
+    );
+  });
+
+  it("should process a redelivery again when a failed event was not dead-lettered", async () => {
+    const { mesh, received } = setup({ webhookDeadLetter: false });
+    let failures = 1;
+    mesh.registerWebhookProcessor("message_received", (event) => {
+      if (failures-- > 0) {
+        throw new Error("Database unavailable");
+      }
+      received.push(event);
+    });
+
+    await mesh.processWebhookEvents(mesh.parseWebhookEvents(whatsappPayload(), "whatsapp"));
+    await mesh.processWebhookEvents(mesh.parseWebhookEvents(whatsappPayload(), "whatsapp"));
+
+    expect(received).toHaveLength(1);
+  });
+
+  it("should process changed reactions but drop redelivered ones", async () => {
+    const { mesh, received } = setup();
+    mesh.registerWebhookProcessor("*", (event) => {
+      received.push(event);
+    });
+    const reaction = (timestamp: number, action: "react" | "unreact", emoji?: string) => ({
+      object: "page",
+      entry: [
+        {
+          id: "page_1",
+          time: timestamp,
+          messaging: [
+            {
+              sender: { id: "psid_1" },
+              recipient: { id: "page_1" },
+              timestamp,
+              reaction: { mid: "m_1", action, ...(emoji && { emoji, reaction: "other" }) },
+            },
+          ],
+        },
+      ],
+    });
+
+    const deliveries = [
+      reaction(1700000000000, "react", "👍"),
+      reaction(1700000000000, "react", "👍"),
+      reaction(1700000001000, "react", "❤"),
+      reaction(1700000002000, "unreact"),
+      reaction(1700000003000, "react", "👍"),
+      reaction(1700000003000, "react", "👍"),
+    ];
+    for (const payload of deliveries) {
+      await mesh.processWebhookEvents(mesh.parseWebhookEvents(payload, "messenger"));
+    }
+
+    expect(
+      received.map(({ data }) => `${data.reaction.action}:${data.reaction.emoji ?? ""}`)
+    ).toEqual(["react:👍", "react:❤", "unreact:", "react:👍"]);
+    expect(mesh.getPerformanceSummary().totalDuplicateWebhooks).toBe(2);
+  });
+
+  it("should forget keys after their TTL", async () => {
+    const storage = new InMemoryWebhookDeduplicationStorage();
+
+    expect(await storage.claim("key", 60000)).toBe(true);
+    expect(await storage.claim("key", 60000)).toBe(false);
+    expect(await storage.claim("expired", -1)).toBe(true);
+    expect(await storage.claim("expired", 60000)).toBe(true);
+  });
+});
@@ -0,0 +1,193 @@
+import type { WebhookEvent } from "./webhook.js";
+import { Logger } from "./logger.js";
+import { PerformanceMonitor } from "./performance.js";
+
+/**
+ * Pluggable seen-set for webhook event keys. Implementations backed by Redis or a
+ * database make deduplication work across processes.
+ */
+export interface WebhookDeduplicationStorage {
+  /**
+   * Atomically mark a key as seen for ttlMs. Returns false when the key was already
+   * seen and has not expired (e.g. Redis `SET key 1 NX PX ttlMs`).
+   */
+  claim(key: string, ttlMs: number): Promise<boolean>;
+  /**
+   * Forget a key so a redelivery of the event is processed again
+   */
+  release(key: string): Promise<void>;
+}
+
+export interface WebhookDeduplicationConfig {
+  ttlMs?: number; // How long a key is remembered (default: 24 hours)
+  storage?: WebhookDeduplicationStorage; // Default: in-memory
+  logger?: Logger; // Default: Logger.getInstance()
+  performanceMonitor?: PerformanceMonitor; // Default: PerformanceMonitor.getInstance()
+}
+
+/**
+ * In-memory seen-set with TTL expiry and a cap on the number of keys
+ */
+export class InMemoryWebhookDeduplicationStorage implements WebhookDeduplicationStorage {
+  private expiresAt = new Map<string, number>();
+
+  constructor(private readonly maxKeys: number = 10000) {}
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const existing = this.expiresAt.get(key);
+    if (existing !== undefined && existing > now) {
+      return false;
+    }
+
+    // Re-insert so Map order follows expiry for same-TTL keys
+    this.expiresAt.delete(key);
+    this.expiresAt.set(key, now + ttlMs);
+    this.evict(now);
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    this.expiresAt.delete(key);
+  }
+
+  private evict(now: number): void {
+    for (const [key, expiresAt] of this.expiresAt) {
+      if (expiresAt > now && this.expiresAt.size <= this.maxKeys) {
+        break;
+      }
+      this.expiresAt.delete(key);
+    }
+  }
+}
+
+/**
+ * Skips webhook events Meta redelivers, keyed by WhatsApp message/status IDs and
+ * Messenger/Instagram message IDs, watermarks and comment IDs
+ */
+export class WebhookDeduplicator {
+  private static readonly DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+  private readonly ttlMs: number;
+  private readonly storage: WebhookDeduplicationStorage;
+  private readonly logger: Logger;
+  private readonly monitor: PerformanceMonitor;
+
+  constructor(config: WebhookDeduplicationConfig = {}) {
+    this.ttlMs = config.ttlMs ?? WebhookDeduplicator.DEFAULT_TTL_MS;
+    this.storage = config.storage ?? new InMemoryWebhookDeduplicationStorage();
+    this.logger = config.logger ?? Logger.getInstance();
+    this.monitor = config.performanceMonitor ?? PerformanceMonitor.getInstance();
+  }
+
+  /**
+   * Derive a stable key for an event, or null when the event cannot be identified
+   */
+  static getEventKey(event: WebhookEvent): string | null {
+    const { platform, eventType, data } = event;
+
+    if (platform === "whatsapp") {
+      if (event.status) {
+        // Each status transition of a message is a separate event
+        return `whatsapp:status:${event.status.messageId}:${event.status.status}`;
+      }
+      if (event.message) {
+        return `whatsapp:message:${event.message.messageId}`;
+      }
+      return null;
+    }
+
+    if (event.comment) {
+      const { commentId, action, timestamp } = event.comment;
+      return `${platform}:comment:${commentId}:${action}:${timestamp}`;
+    }
+
+    const sender = data?.sender?.id;
+    if (data?.message?.mid) {
+      return `${platform}:${eventType}:${data.message.mid}`;
+    }
+    if (data?.reaction?.mid) {
+      // A changed emoji or a react/unreact/react sequence on the same message is a new event
+      const { mid, action = "react", emoji, reaction } = data.reaction;
+      return `${platform}:reaction:${mid}:${action}:${emoji ?? reaction ?? ""}:${data.timestamp}`;
+    }
+    if (data?.delivery?.watermark !== undefined) {
+      return `${platform}:delivery:${sender}:${data.delivery.watermark}`;
+    }
+    if (data?.read?.watermark !== undefined) {
+      return `${platform}:read:${sender}:${data.read.watermark}`;
+    }
+    if (data?.postback?.mid) {
+      return `${platform}:postback:${data.postback.mid}`;
+    }
+    if (sender && data?.timestamp !== undefined) {
+      return `${platform}:${eventType}:${sender}:${data.timestamp}`;
+    }
+    return null;
+  }
+
+  /**
+   * Return the events not seen before and mark them as seen. Events without a
+   * key are always kept.
+   */
+  async claim(events: WebhookEvent[]): Promise<WebhookEvent[]> {
+    const fresh: WebhookEvent[] = [];
+
+    for (const event of events) {
+      const key = WebhookDeduplicator.getEventKey(event);
+      if (!key) {
+        fresh.push(event);
+        continue;
+      }
+
+      let claimed: boolean;
+      try {
+        claimed = await this.storage.claim(key, this.ttlMs);
+      } catch (error) {
+        // Processing twice is better than dropping the event
+        this.logger.error(
+          "Webhook deduplication storage failed",
+          event.platform,
+          { eventKey: key },
+          error instanceof Error ? error : undefined
+        );
+        claimed = true;
+      }
+
+      if (claimed) {
+        fresh.push(event);
+        continue;
+      }
+
+      this.monitor.recordDuplicateWebhook(event.platform);
+      this.logger.info("Skipped duplicate webhook event", event.platform, {
+        eventKey: key,
+        eventType: event.eventType,
+      });
+    }
+
+    return fresh;
+  }
+
+  /**
+   * Forget events whose processing failed so Meta's redelivery is processed
+   */
+  async release(events: WebhookEvent[]): Promise<void> {
+    for (const event of events) {
+      const key = WebhookDeduplicator.getEventKey(event);
+      if (!key) {
+        continue;
+      }
+      try {
+        await this.storage.release(key);
+      } catch (error) {
+        this.logger.error(
+          "Failed to release webhook deduplication key",
+          event.platform,
+          { eventKey: key },
+          error instanceof Error ? error : undefined
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "bun:test";
+import { createHmac } from "crypto";
+import { Readable } from "stream";
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import type { IncomingMessage, ServerResponse } from "http";
+import { MessageMesh } from "./message-mesh.js";
+import { WebhookAdapters } from "./webhook-handler.js";
+import type { WebhookEvent } from "./webhook.js";
+
+const appSecret = "app_secret";
+const url = "https://example.com/webhooks/meta";
+
+const payload = JSON.stringify({
+  object: "page",
+  entry: [
+    {
+      id: "page_1",
+      time: 1700000000000,
+      messaging: [
+        {
+          sender: { id: "psid_1" },
+          recipient: { id: "page_1" },
+          timestamp: 1700000000000,
+          message: { mid: "m_1", text: "Hello" },
+        },
+      ],
+    },
+  ],
+});
+
+const sign = (body: string) =>
+  `sha256=${createHmac("sha256", appSecret).update(body, "utf8").digest("hex")}`;
+
+// Transpiles src/ to plain ES modules, so code that relies on Bun's `require` fails under Node
+const transpileSources = async (outDir: string) => {
+  const transpiler = new Bun.Transpiler({ loader: "ts" });
+  const files = await readdir(import.meta.dir, { recursive: true });
+  for (const file of files.filter((f) => f.endsWith(".ts") && !f.endsWith(".test.ts"))) {
+    const source = await Bun.file(join(import.meta.dir, file)).text();
+    const target = join(outDir, file.replace(/\.ts$/, ".js"));
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, transpiler.transformSync(source));
+  }
+  await writeFile(join(outDir, "package.json"), JSON.stringify({ type: "module" }));
+};
+
+const setup = () => {
+  const mesh = new MessageMesh({ isolated: true });
+  mesh.configureLogging({ enableConsole: false });
+  const received: WebhookEvent[] = [];
+  mesh.registerWebhookProcessor("message_received", (event) => {
+    received.push(event);
+  });
+  const handler = mesh.createWebhookHandler({ verifyToken: "verify", appSecret });
+  return { handler, received };
+};
+
+describe("createWebhookHandler", () => {
+  it("should answer the verification challenge", async () => {
+    const { handler } = setup();
+
+    const ok = await handler(
+      new Request(`${url}?hub.mode=subscribe&hub.verify_token=verify&hub.challenge=42`)
+    );
+    const forbidden = await handler(
+      new Request(`${url}?hub.mode=subscribe&hub.verify_token=wrong&hub.challenge=42`)
+    );
+
+    expect(ok.status).toBe(200);
+    expect(await ok.text()).toBe("42");
+    expect(forbidden.status).toBe(403);
+  });
+
+  it("should dispatch signed notifications and reject unsigned ones", async () => {
+    const { handler, received } = setup();
+
+    const unsigned = await handler(new Request(url, { method: "POST", body: payload }));
+    const tampered = await handler(
+      new Request(url, {
+        method: "POST",
+        body: payload.replace("Hello", "Bye"),
+        headers: { "X-Hub-Signature-256": sign(payload) },
+      })
+    );
+    expect(unsigned.status).toBe(401);
+    expect(tampered.status).toBe(401);
+    expect(received).toHaveLength(0);
+
+    const signed = await handler(
+      new Request(url, {
+        method: "POST",
+        body: payload,
+        headers: { "X-Hub-Signature-256": sign(payload) },
+      })
+    );
+    expect(signed.status).toBe(200);
+    expect(received).toHaveLength(1);
+    expect(received[0]?.platform).toBe("messenger");
+    expect(received[0]?.message).toMatchObject({ type: "text", text: "Hello" });
+  });
+
+  it.skipIf(!Bun.which("node"))("should verify signed notifications when run by Node", async () => {
+    const outDir = await mkdtemp(join(tmpdir(), "message-mesh-node-"));
+    try {
+      await transpileSources(outDir);
+      await writeFile(
+        join(outDir, "run.js"),
+        `import { MessageMesh } from "./index.js";
+const mesh = new MessageMesh({ isolated: true });
+mesh.configureLogging({ enableConsole: false });
+const handler = mesh.createWebhookHandler({ verifyToken: "verify", appSecret: "${appSecret}" });
+const response = await handler(
+  new Request("${url}", {
+    method: "POST",
+    body: ${JSON.stringify(payload)},
+    headers: { "X-Hub-Signature-256": "${sign(payload)}" },
+  })
+);
+console.log(response.status);`
+      );
+
+      const result = Bun.spawnSync(["node", join(outDir, "run.js")], {
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+
+      expect(result.stderr.toString()).toBe("");
+      expect(result.stdout.toString().trim()).toBe("200");
+    } finally {
+      await rm(outDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should serve Node http requests through the adapter", async () => {
+    const { handler, received } = setup();
+    const listener = WebhookAdapters.toNodeListener(handler);
+
+    const req = Object.assign(Readable.from([Buffer.from(payload)]), {
+      method: "POST",
+      url: "/webhooks/meta",
+      headers: { host: "example.com", "x-hub-signature-256": sign(payload) },
+    }) as unknown as IncomingMessage;
+    let status = 0;
+    const res = {
+      statusCode: 0,
+      setHeader: () => undefined,
+      end(this: { statusCode: number }) {
+        status = this.statusCode;
+      },
+    } as unknown as ServerResponse;
+
+    await listener(req, res);
+
+    expect(status).toBe(200);
+    expect(received).toHaveLength(1);
+  });
+});
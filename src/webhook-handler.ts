@@ -0,0 +1,254 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Platform } from "./types.js";
+import { MessageMeshError } from "./types.js";
+import type { Logger } from "./logger.js";
+import type { WebhookEvent, WebhookManager } from "./webhook.js";
+
+/**
+ * Fetch API webhook endpoint, usable directly with Bun.serve, Deno, Cloudflare Workers
+ * and any framework built on Request/Response
+ */
+export type WebhookRequestHandler = (request: Request) => Promise<Response>;
+
+export interface WebhookHandlerOptions {
+  verifyToken: string; // Verify token configured for the webhook in the Meta app dashboard
+  appSecret: string; // App secret used to check X-Hub-Signature-256
+  platforms?: Platform[]; // Accepted platforms (default: all)
+  onEvents?: (events: WebhookEvent[], platform: Platform) => Promise<void> | void; // Runs after processors
+}
+
+/**
+ * MessageMesh pieces the handler assembles
+ */
+export interface WebhookHandlerContext {
+  webhookManager: WebhookManager;
+  logger: Logger;
+  parseEvents(payload: unknown, platform: Platform): WebhookEvent[];
+  processEvents(events: WebhookEvent[]): Promise<void>;
+}
+
+/**
+ * Complete webhook endpoint: GET verification challenge, signature check against the
+ * raw body, platform detection, parsing and dispatch to the registered processors
+ */
+export class WebhookHandler {
+  constructor(
+    private readonly context: WebhookHandlerContext,
+    private readonly options: WebhookHandlerOptions
+  ) {
+    if (!options.verifyToken || !options.appSecret) {
+      throw new MessageMeshError(
+        "INVALID_WEBHOOK_CONFIG",
+        "all" as Platform,
+        "Webhook handler requires a verifyToken and an appSecret"
+      );
+    }
+  }
+
+  async handle(request: Request): Promise<Response> {
+    switch (request.method) {
+      case "GET":
+        return this.handleChallenge(request);
+      case "POST":
+        return this.handleNotification(request);
+      default:
+        return new Response("Method Not Allowed", {
+          status: 405,
+          headers: { Allow: "GET, POST" },
+        });
+    }
+  }
+
+  private handleChallenge(request: Request): Response {
+    const params = new URL(request.url).searchParams;
+    const result = this.context.webhookManager.handleVerificationChallenge(
+      params.get("hub.mode") ?? "",
+      params.get("hub.verify_token") ?? "",
+      params.get("hub.challenge") ?? "",
+      this.options.verifyToken
+    );
+
+    if (!result.isValid) {
+      return this.errorResponse(403, result.error ?? "Verification failed");
+    }
+    return new Response(result.challenge ?? "", {
+      status: 200,
+      headers: { "Content-Type": "text/plain" },
+    });
+  }
+
+  private async handleNotification(request: Request): Promise<Response> {
+    const { webhookManager, logger } = this.context;
+
+    // The signature covers the exact bytes Meta sent, so verify before parsing
+    const rawBody = await request.text();
+    const signature = request.headers.get("x-hub-signature-256");
+    if (
+      !signature ||
+      !webhookManager.verifyFacebookWebhook(rawBody, signature, this.options.appSecret)
+    ) {
+      logger.warn("Rejected webhook with a missing or invalid signature");
+      return this.errorResponse(401, "Invalid signature");
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return this.errorResponse(400, "Invalid JSON payload");
+    }
+
+    const platform = webhookManager.detectPlatform(payload);
+    if (!platform || (this.options.platforms && !this.options.platforms.includes(platform))) {
+      return this.errorResponse(400, "Unsupported webhook object");
+    }
+    if (!webhookManager.validateWebhookPayload(payload, platform)) {
+      return this.errorResponse(400, "Invalid webhook payload");
+    }
+
+    try {
+      const events = this.context.parseEvents(payload, platform);
+      await this.context.processEvents(events);
+      await this.options.onEvents?.(events, platform);
+    } catch (error) {
+      // A non-200 response makes Meta redeliver the notification
+      logger.error(
+        "Webhook dispatch failed",
+        platform,
+        undefined,
+        error instanceof Error ? error : undefined
+      );
+      return this.errorResponse(500, "Webhook processing failed");
+    }
+
+    const success = webhookManager.generateSuccessResponse();
+    return new Response(success.body, { status: success.status });
+  }
+
+  private errorResponse(status: number, error: string): Response {
+    return new Response(JSON.stringify({ error }), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * Minimal shape of an Express request; body parsers may already have consumed the stream
+ */
+interface ExpressLikeRequest extends IncomingMessage {
+  body?: unknown;
+  rawBody?: unknown;
+  originalUrl?: string;
+}
+
+/**
+ * Minimal shape of a Hono context
+ */
+interface HonoLikeContext {
+  req: { raw: Request };
+}
+
+/**
+ * Thin adapters from a WebhookRequestHandler to Node-style frameworks
+ */
+export class WebhookAdapters {
+  /**
+   * Adapt to a Node `http.createServer` request listener
+   */
+  static toNodeListener(
+    handler: WebhookRequestHandler
+  ): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+      try {
+        const body =
+          req.method === "GET" || req.method === "HEAD" ? undefined : await this.readBody(req);
+        const response = await handler(this.toRequest(req, req.url ?? "/", body));
+        await this.writeResponse(response, res);
+      } catch {
+        res.statusCode = 500;
+        res.end();
+      }
+    };
+  }
+
+  /**
+   * Adapt to Express middleware. Mount it before any JSON body parser, or use
+   * `express.raw({ type: "application/json" })` so the raw body stays available
+   * for signature verification.
+   */
+  static toExpressMiddleware(
+    handler: WebhookRequestHandler
+  ): (
+    req: ExpressLikeRequest,
+    res: ServerResponse,
+    next: (error?: unknown) => void
+  ) => Promise<void> {
+    return async (req, res, next) => {
+      try {
+        let body: Uint8Array | undefined;
+        if (req.method !== "GET" && req.method !== "HEAD") {
+          const raw = req.rawBody ?? req.body;
+          if (raw instanceof Uint8Array) {
+            body = raw;
+          } else if (typeof raw === "string") {
+            body = Buffer.from(raw, "utf8");
+          } else if (raw !== undefined && req.readableEnded) {
+            throw new MessageMeshError(
+              "WEBHOOK_BODY_CONSUMED",
+              "all" as Platform,
+              "Webhook body was already parsed; mount the handler before express.json() or use express.raw()"
+            );
+          } else {
+            body = await this.readBody(req);
+          }
+        }
+
+        const response = await handler(
+          this.toRequest(req, req.originalUrl ?? req.url ?? "/", body)
+        );
+        await this.writeResponse(response, res);
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+
+  /**
+   * Adapt to a Hono route handler
+   */
+  static toHonoHandler(handler: WebhookRequestHandler): (c: HonoLikeContext) => Promise<Response> {
+    return (c) => handler(c.req.raw);
+  }
+
+  private static async readBody(req: IncomingMessage): Promise<Uint8Array> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk, "utf8") : chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private static toRequest(req: IncomingMessage, path: string, body?: Uint8Array): Request {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) {
+        headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+      }
+    }
+
+    return new Request(new URL(path, `http://${req.headers.host ?? "localhost"}`).toString(), {
+      method: req.method,
+      headers,
+      body,
+    });
+  }
+
+  private static async writeResponse(response: Response, res: ServerResponse): Promise<void> {
+    res.statusCode = response.status;
+    response.headers.forEach((value, name) => {
+      res.setHeader(name, value);
+    });
+    res.end(Buffer.from(await response.arrayBuffer()));
+  }
+}
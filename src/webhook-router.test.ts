@@ -0,0 +1,114 @@
+import { describe, it, expect } from "bun:test";
+import { WebhookRouter } from "./webhook-router.js";
+import { Logger } from "./logger.js";
+import type { WebhookEvent } from "./webhook.js";
+
+const logger = new Logger({ enableConsole: false });
+
+const messengerText: WebhookEvent = {
+  platform: "messenger",
+  eventType: "message_received",
+  timestamp: "2024-01-01T00:00:00.000Z",
+  data: { sender: { id: "psid_1" }, recipient: { id: "page_1" } },
+  message: {
+    platform: "messenger",
+    type: "text",
+    text: "Hi",
+    messageId: "m_1",
+    from: "psid_1",
+    to: "page_1",
+    timestamp: "2024-01-01T00:00:00.000Z",
+  },
+};
+
+const whatsappStatus: WebhookEvent = {
+  platform: "whatsapp",
+  eventType: "message_status",
+  timestamp: "2024-01-01T00:00:00.000Z",
+  data: { metadata: { phone_number_id: "pn_1" } },
+};
+
+describe("WebhookRouter", () => {
+  it("should run every matching processor for exact, wildcard and platform patterns", async () => {
+    const router = new WebhookRouter(logger);
+    const calls: string[] = [];
+    router.on("message_received", () => void calls.push("exact"));
+    router.on("message_received", () => void calls.push("second"));
+    router.on("*", (event) => void calls.push(`any:${event.eventType}`));
+    router.on("whatsapp:*", () => void calls.push("whatsapp"));
+    router.on("*:message_status", () => void calls.push("status"));
+
+    await router.dispatch(messengerText);
+    await router.dispatch(whatsappStatus);
+
+    expect(calls).toEqual([
+      "exact",
+      "second",
+      "any:message_received",
+      "any:message_status",
+      "whatsapp",
+      "status",
+    ]);
+  });
+
+  it("should apply sender, recipient and message type filters", async () => {
+    const router = new WebhookRouter(logger);
+    const calls: string[] = [];
+    router.on("*", () => void calls.push("page_1 text"), {
+      recipient: "page_1",
+      messageType: "text",
+    });
+    router.on("*", () => void calls.push("page_2"), { recipient: "page_2" });
+    router.on("*", () => void calls.push("pn_1"), { recipient: ["pn_1"], platform: "whatsapp" });
+    router.on("*", () => void calls.push("other sender"), { sender: "psid_2" });
+
+    await router.dispatch(messengerText);
+    await router.dispatch(whatsappStatus);
+
+    expect(calls).toEqual(["page_1 text", "pn_1"]);
+  });
+
+  it("should run middleware in order and let it stop an event", async () => {
+    const router = new WebhookRouter(logger);
+    const calls: string[] = [];
+    router.use(async (_event, next) => {
+      calls.push("first:before");
+      await next();
+      calls.push("first:after");
+    });
+    router.use((event, next) => {
+      calls.push("second");
+      return event.platform === "whatsapp" ? undefined : next();
+    });
+    router.on("*", (event) => void calls.push(`processor:${event.platform}`));
+
+    await router.dispatch(messengerText);
+    await router.dispatch(whatsappStatus);
+
+    expect(calls).toEqual([
+      "first:before",
+      "second",
+      "processor:messenger",
+      "first:after",
+      "first:before",
+      "second",
+      "first:after",
+    ]);
+  });
+
+  it("should isolate processor failures and support unregistering", async () => {
+    const router = new WebhookRouter(logger);
+    const calls: string[] = [];
+    router.on("message_received", () => {
+      throw new Error("boom");
+    });
+    const unregister = router.on("message_received", () => void calls.push("still runs"));
+
+    expect(await router.dispatch(messengerText)).toHaveLength(1);
+    expect(calls).toEqual(["still runs"]);
+
+    unregister();
+    await router.dispatch(messengerText);
+    expect(calls).toEqual(["still runs"]);
+  });
+});
@@ -0,0 +1,313 @@
+import type { Platform } from "./types.js";
+import { MessageMeshError } from "./types.js";
+import type { Logger } from "./logger.js";
+import type { InboundMessage } from "./inbound-message.js";
+import type { WebhookEvent, WebhookProcessor } from "./webhook.js";
+
+/**
+ * Runs around the processors of every event in registration order. Call next() to
+ * continue; not calling it stops the event from reaching later middleware and processors.
+ */
+export type WebhookMiddleware = (
+  event: WebhookEvent,
+  next: () => Promise<void>
+) => Promise<void> | void;
+
+/**
+ * Narrows a processor to matching events. All given conditions must match.
+ */
+export interface WebhookRouteFilter {
+  platform?: Platform | Platform[];
+  sender?: string | string[]; // WhatsApp ID, PSID or IGSID of the user
+  recipient?: string | string[]; // Page ID, WhatsApp phone number ID or Instagram account ID
+  messageType?: InboundMessage["type"] | InboundMessage["type"][];
+  where?: (event: WebhookEvent) => boolean;
+}
+
+/**
+ * How often a throwing processor is retried before the event counts as failed
+ */
+export interface WebhookFailurePolicy {
+  maxAttempts?: number; // Attempts per processor, including the first (default: 1)
+  baseDelayMs?: number; // Delay before the first retry, doubled for each further one (default: 100)
+  maxDelayMs?: number; // Cap for a single retry delay (default: 2000)
+}
+
+/**
+ * Filter plus per-processor settings
+ */
+export interface WebhookProcessorOptions extends WebhookRouteFilter {
+  failurePolicy?: WebhookFailurePolicy; // Overrides the policy given to dispatch()
+}
+
+/**
+ * A processor or middleware that still threw after its last attempt
+ */
+export interface WebhookProcessorFailure {
+  pattern?: string; // Pattern of the failing processor; absent for middleware
+  processorIndex?: number; // Which processor registered for the pattern, in registration order
+  attempts: number;
+  error: { code: string; message: string };
+  failedAt: string; // ISO 8601
+}
+
+interface WebhookRoute {
+  pattern: string;
+  processor: WebhookProcessor;
+  options?: WebhookProcessorOptions;
+}
+
+/**
+ * Routes webhook events to any number of processors by event type pattern and filter.
+ * Patterns: an event type ("message_received"), "*" for every event, or
+ * "platform:eventType" where either side may be "*" (e.g. "whatsapp:*").
+ */
+export class WebhookRouter {
+  private routes: WebhookRoute[] = [];
+  private middleware: WebhookMiddleware[] = [];
+
+  constructor(private readonly logger: Logger) {}
+
+  /**
+   * Register a processor. Returns a function that unregisters it.
+   */
+  on(pattern: string, processor: WebhookProcessor, options?: WebhookProcessorOptions): () => void {
+    const route: WebhookRoute = { pattern, processor, options };
+    this.routes.push(route);
+    return () => {
+      this.routes = this.routes.filter((r) => r !== route);
+    };
+  }
+
+  /**
+   * Unregister every processor registered for a pattern
+   */
+  off(pattern: string): void {
+    this.routes = this.routes.filter((route) => route.pattern !== pattern);
+  }
+
+  /**
+   * Add middleware. Returns a function that removes it.
+   */
+  use(middleware: WebhookMiddleware): () => void {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware);
+    };
+  }
+
+  /**
+   * Run the middleware chain and every matching processor for an event. A failing
+   * processor is retried according to its failure policy and does not stop the others.
+   * Pass the failures of an earlier dispatch to run only the processors that failed;
+   * a middleware failure among them runs every processor again.
+   * Returns what still failed; an empty list means the event was handled.
+   */
+  async dispatch(
+    event: WebhookEvent,
+    failurePolicy: WebhookFailurePolicy = {},
+    previousFailures?: WebhookProcessorFailure[]
+  ): Promise<WebhookProcessorFailure[]> {
+    const routes = [...this.routes];
+    const middleware = [...this.middleware];
+    const failures: WebhookProcessorFailure[] = [];
+    const rerun = previousFailures?.every((failure) => failure.pattern !== undefined)
+      ? previousFailures
+      : undefined;
+
+    const runProcessors = async (): Promise<void> => {
+      const registered = new Map<string, number>();
+      let matched = 0;
+      for (const route of routes) {
+        const processorIndex = registered.get(route.pattern) ?? 0;
+        registered.set(route.pattern, processorIndex + 1);
+        if (rerun && !WebhookRouter.failedBefore(rerun, route.pattern, processorIndex)) {
+          continue;
+        }
+
+        let matches: boolean;
+        try {
+          matches = WebhookRouter.matches(route, event);
+        } catch (error) {
+          failures.push(this.toFailure(event, route.pattern, 1, error, processorIndex));
+          continue;
+        }
+
+        if (matches) {
+          matched++;
+          const failure = await this.runProcessor(route, processorIndex, event, {
+            ...failurePolicy,
+            ...route.options?.failurePolicy,
+          });
+          if (failure) {
+            failures.push(failure);
+          }
+        }
+      }
+
+      if (matched === 0) {
+        this.logger.warn(`No processor found for event type: ${event.eventType}`, event.platform);
+      }
+    };
+
+    const run = async (index: number): Promise<void> => {
+      const current = middleware[index];
+      if (!current) {
+        return runProcessors();
+      }
+
+      let called = false;
+      await current(event, () => {
+        if (called) {
+          return Promise.reject(new Error("next() called multiple times"));
+        }
+        called = true;
+        return run(index + 1);
+      });
+    };
+
+    try {
+      await run(0);
+    } catch (error) {
+      failures.push(this.toFailure(event, undefined, 1, error));
+    }
+
+    return failures;
+  }
+
+  /**
+   * User who sent the event, when known
+   */
+  static getSender(event: WebhookEvent): string | undefined {
+    return event.message?.from ?? event.comment?.from ?? event.data?.sender?.id;
+  }
+
+  /**
+   * Business account that received the event, when known
+   */
+  static getRecipient(event: WebhookEvent): string | undefined {
+    return (
+      event.message?.to ??
+      event.comment?.to ??
+      event.data?.recipient?.id ??
+      event.data?.metadata?.phone_number_id
+    );
+  }
+
+  private async runProcessor(
+    route: WebhookRoute,
+    processorIndex: number,
+    event: WebhookEvent,
+    policy: WebhookFailurePolicy
+  ): Promise<WebhookProcessorFailure | undefined> {
+    const maxAttempts = Math.max(1, policy.maxAttempts ?? 1);
+    const baseDelayMs = policy.baseDelayMs ?? 100;
+    const maxDelayMs = policy.maxDelayMs ?? 2000;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await route.processor(event);
+        return undefined;
+      } catch (error) {
+        if (attempt >= maxAttempts) {
+          return this.toFailure(event, route.pattern, attempt, error, processorIndex);
+        }
+
+        const delay = Math.min(baseDelayMs * Math.pow(2, attempt - 1), maxDelayMs);
+        this.logger.warn(
+          `Retrying webhook processor for event type: ${event.eventType}`,
+          event.platform,
+          { pattern: route.pattern, attempt, delayMs: delay }
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private toFailure(
+    event: WebhookEvent,
+    pattern: string | undefined,
+    attempts: number,
+    error: unknown,
+    processorIndex?: number
+  ): WebhookProcessorFailure {
+    this.logger.error(
+      pattern === undefined
+        ? `Webhook middleware failed for event type: ${event.eventType}`
+        : `Webhook processor failed for event type: ${event.eventType}`,
+      event.platform,
+      { eventType: event.eventType, pattern, attempts },
+      error instanceof Error ? error : undefined
+    );
+
+    return {
+      pattern,
+      processorIndex,
+      attempts,
+      error: {
+        code: error instanceof MessageMeshError ? error.code : "PROCESSOR_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      },
+      failedAt: new Date().toISOString(),
+    };
+  }
+
+  // Entries stored without a processor index match every processor of their pattern
+  private static failedBefore(
+    failures: WebhookProcessorFailure[],
+    pattern: string,
+    processorIndex: number
+  ): boolean {
+    return failures.some(
+      (failure) =>
+        failure.pattern === pattern &&
+        (failure.processorIndex === undefined || failure.processorIndex === processorIndex)
+    );
+  }
+
+  private static matches(route: WebhookRoute, event: WebhookEvent): boolean {
+    if (!WebhookRouter.matchesPattern(route.pattern, event)) {
+      return false;
+    }
+
+    const filter = route.options;
+    if (!filter) {
+      return true;
+    }
+    return (
+      WebhookRouter.includes(filter.platform, event.platform) &&
+      WebhookRouter.includes(filter.sender, WebhookRouter.getSender(event)) &&
+      WebhookRouter.includes(filter.recipient, WebhookRouter.getRecipient(event)) &&
+      WebhookRouter.includes(filter.messageType, event.message?.type) &&
+      (!filter.where || filter.where(event))
+    );
+  }
+
+  private static matchesPattern(pattern: string, event: WebhookEvent): boolean {
+    if (pattern === "*") {
+      return true;
+    }
+
+    const separator = pattern.indexOf(":");
+    if (separator === -1) {
+      return pattern === event.eventType;
+    }
+
+    const platform = pattern.slice(0, separator);
+    const eventType = pattern.slice(separator + 1);
+    return (
+      (platform === "*" || platform === event.platform) &&
+      (eventType === "*" || eventType === event.eventType)
+    );
+  }
+
+  private static includes<T>(expected: T | T[] | undefined, actual: T | undefined): boolean {
+    if (expected === undefined) {
+      return true;
+    }
+    if (actual === undefined) {
+      return false;
+    }
+    return Array.isArray(expected) ? expected.includes(actual) : expected === actual;
+  }
+}
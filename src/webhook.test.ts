@@ -0,0 +1,368 @@
+import { describe, it, expect } from "bun:test";
+import { WebhookManager } from "./webhook.js";
+
+describe("WebhookManager inbound message normalization", () => {
+  const webhooks = WebhookManager.getInstance();
+
+  it("should expand a WhatsApp batch into one event per message and status", () => {
+    const events = webhooks.parseWhatsAppWebhook({
+      object: "whatsapp_business_account",
+      entry: [
+        {
+          id: "waba_1",
+          changes: [
+            {
+              field: "messages",
+              value: {
+                messaging_product: "whatsapp",
+                metadata: { display_phone_number: "15550001111", phone_number_id: "pn_1" },
+                contacts: [
+                  { wa_id: "111", profile: { name: "Ana" } },
+                  { wa_id: "222", profile: { name: "Ben" } },
+                ],
+                messages: [
+                  {
+                    id: "wamid.1",
+                    from: "111",
+                    timestamp: "1700000000",
+                    type: "text",
+                    text: { body: "Hi" },
+                  },
+                  {
+                    id: "wamid.2",
+                    from: "222",
+                    timestamp: "1700000001",
+                    type: "interactive",
+                    context: { from: "15550001111", id: "wamid.out" },
+                    interactive: {
+                      type: "button_reply",
+                      button_reply: { id: "yes", title: "Yes" },
+                    },
+                  },
+                ],
+                statuses: [
+                  {
+                    id: "wamid.out",
+                    recipient_id: "222",
+                    status: "read",
+                    timestamp: "1700000002",
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(events.map((e) => e.eventType)).toEqual([
+      "message_received",
+      "button_reply",
+      "message_status",
+    ]);
+
+    const [text, button, status] = events;
+    expect(text?.message).toMatchObject({
+      type: "text",
+      text: "Hi",
+      from: "111",
+      to: "pn_1",
+      senderName: "Ana",
+    });
+    expect(button?.message).toMatchObject({
+      type: "button_reply",
+      buttonId: "yes",
+      senderName: "Ben",
+      replyTo: { messageId: "wamid.out" },
+    });
+    expect(button?.data.contacts).toEqual([{ wa_id: "222", profile: { name: "Ben" } }]);
+    expect(status?.status).toMatchObject({ messageId: "wamid.out", status: "read" });
+  });
+
+  it("should normalize WhatsApp location and contacts messages", () => {
+    const events = webhooks.parseWhatsAppWebhook({
+      object: "whatsapp_business_account",
+      entry: [
+        {
+          id: "waba_1",
+          changes: [
+            {
+              field: "messages",
+              value: {
+                messaging_product: "whatsapp",
+                metadata: { display_phone_number: "15550001111", phone_number_id: "pn_1" },
+                messages: [
+                  {
+                    from: "111",
+                    id: "wamid.loc",
+                    timestamp: "1700000000",
+                    type: "location",
+                    location: { latitude: 52.52, longitude: 13.405, name: "Home" },
+                  },
+                  {
+                    from: "111",
+                    id: "wamid.contacts",
+                    timestamp: "1700000001",
+                    type: "contacts",
+                    contacts: [
+                      {
+                        name: { formatted_name: "Ada Lovelace", first_name: "Ada" },
+                        phones: [
+                          { phone: "+44 20 7946 0000", type: "WORK", wa_id: "442079460000" },
+                        ],
+                        emails: [{ email: "ada@example.com", type: "WORK" }],
+                        addresses: [{ city: "London", country_code: "GB" }],
+                        urls: [{ url: "https://example.com", type: "WORK" }],
+                        org: { company: "Analytical Engines" },
+                        birthday: "1815-12-10",
+                      },
+                    ],
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(events.map((event) => event.message)).toMatchObject([
+      { type: "location", latitude: 52.52, longitude: 13.405, name: "Home" },
+      {
+        type: "contacts",
+        contacts: [
+          {
+            name: "Ada Lovelace",
+            firstName: "Ada",
+            phones: [{ phone: "+44 20 7946 0000", type: "WORK", waId: "442079460000" }],
+            emails: ["ada@example.com"],
+            addresses: [{ city: "London", countryCode: "GB" }],
+            urls: ["https://example.com"],
+            organization: { company: "Analytical Engines" },
+            birthday: "1815-12-10",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should parse WhatsApp catalog orders into order events", () => {
+    const [event] = webhooks.parseWhatsAppWebhook({
+      object: "whatsapp_business_account",
+      entry: [
+        {
+          id: "waba_1",
+          changes: [
+            {
+              field: "messages",
+              value: {
+                messaging_product: "whatsapp",
+                metadata: { display_phone_number: "15550001111", phone_number_id: "pn_1" },
+                messages: [
+                  {
+                    from: "111",
+                    id: "wamid.order",
+                    timestamp: "1700000000",
+                    type: "order",
+                    order: {
+                      catalog_id: "catalog_1",
+                      text: "Gift wrap please",
+                      product_items: [
+                        {
+                          product_retailer_id: "sku_1",
+                          quantity: "2",
+                          item_price: "19.99",
+                          currency: "EUR",
+                        },
+                        {
+                          product_retailer_id: "sku_3",
+                          quantity: 1,
+                          item_price: 49,
+                          currency: "EUR",
+                        },
+                      ],
+                    },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(event?.eventType).toBe("order");
+    expect(event?.message).toMatchObject({
+      type: "order",
+      from: "111",
+      catalogId: "catalog_1",
+      text: "Gift wrap please",
+      items: [
+        { productRetailerId: "sku_1", quantity: 2, itemPrice: 19.99, currency: "EUR" },
+        { productRetailerId: "sku_3", quantity: 1, itemPrice: 49, currency: "EUR" },
+      ],
+    });
+  });
+
+  it("should normalize Instagram story replies", () => {
+    const [event] = webhooks.parseInstagramWebhook({
+      object: "instagram",
+      entry: [
+        {
+          id: "ig_1",
+          time: 1700000000000,
+          messaging: [
+            {
+              sender: { id: "igsid_1" },
+              recipient: { id: "ig_1" },
+              timestamp: 1700000000000,
+              message: {
+                mid: "mid.1",
+                text: "Love this!",
+                reply_to: { story: { id: "story_1", url: "https://cdn.example.com/s.jpg" } },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(event?.message).toMatchObject({
+      platform: "instagram",
+      type: "story_reply",
+      storyId: "story_1",
+      text: "Love this!",
+      from: "igsid_1",
+    });
+  });
+
+  it("should normalize Facebook feed comments and Instagram comments", () => {
+    const [pageComment] = webhooks.parseMessengerWebhook({
+      object: "page",
+      entry: [
+        {
+          id: "111",
+          time: 1700000000000,
+          changes: [
+            {
+              field: "feed",
+              value: {
+                item: "comment",
+                verb: "edited",
+                comment_id: "333_444",
+                post_id: "111_333",
+                parent_id: "111_333",
+                from: { id: "555", name: "Ann" },
+                message: "Price?",
+                created_time: 1700000000,
+              },
+            },
+          ],
+        },
+      ],
+    });
+    const [igComment] = webhooks.parseInstagramWebhook({
+      object: "instagram",
+      entry: [
+        {
+          id: "ig_1",
+          time: 1700000000,
+          changes: [
+            {
+              field: "comments",
+              value: {
+                id: "17865799348089039",
+                from: { id: "igsid_1", username: "ann" },
+                media: { id: "media_1" },
+                text: "Still available?",
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(pageComment?.eventType).toBe("comment");
+    expect(pageComment?.comment).toMatchObject({
+      platform: "messenger",
+      commentId: "333_444",
+      postId: "111_333",
+      from: "555",
+      to: "111",
+      text: "Price?",
+      action: "edit",
+      timestamp: "2023-11-14T22:13:20.000Z",
+    });
+    expect(pageComment?.comment?.parentId).toBeUndefined();
+    expect(igComment?.eventType).toBe("comment");
+    expect(igComment?.comment).toMatchObject({
+      platform: "instagram",
+      commentId: "17865799348089039",
+      postId: "media_1",
+      from: "igsid_1",
+      fromName: "ann",
+      to: "ig_1",
+      action: "add",
+      timestamp: "2023-11-14T22:13:20.000Z",
+    });
+  });
+
+  it("should parse handover protocol and standby events", () => {
+    const events = webhooks.parseMessengerWebhook({
+      object: "page",
+      entry: [
+        {
+          id: "page_1",
+          time: 1700000000000,
+          messaging: [
+            {
+              sender: { id: "psid_1" },
+              recipient: { id: "page_1" },
+              timestamp: 1700000000000,
+              pass_thread_control: { new_owner_app_id: "inbox_app", metadata: "Escalated" },
+            },
+            {
+              sender: { id: "psid_1" },
+              recipient: { id: "page_1" },
+              timestamp: 1700000000000,
+              request_thread_control: { requested_owner_app_id: "bot_app" },
+            },
+          ],
+          standby: [
+            {
+              sender: { id: "psid_1" },
+              recipient: { id: "page_1" },
+              timestamp: 1700000001000,
+              message: { mid: "mid.2", text: "Are you there?" },
+            },
+          ],
+        },
+      ],
+    });
+    const [igEvent] = webhooks.parseInstagramWebhook({
+      object: "instagram",
+      entry: [
+        {
+          id: "ig_1",
+          time: 1700000000000,
+          messaging: [
+            {
+              sender: { id: "igsid_1" },
+              recipient: { id: "ig_1" },
+              timestamp: 1700000000000,
+              take_thread_control: { previous_owner_app_id: "inbox_app" },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(events.map((event) => event.eventType)).toEqual([
+      "pass_thread_control",
+      "request_thread_control",
+      "standby",
+    ]);
+    expect(events[2]?.message).toMatchObject({ type: "text", text: "Are you there?" });
+    expect(igEvent?.eventType).toBe("take_thread_control");
+  });
+});
@@ -1,6 +1,20 @@
+import * as crypto from "crypto";
 import type { Platform } from "./types.js";
 import { MessageMeshError } from "./types.js";
 import { Logger } from "./logger.js";
+import {
+  InboundMessageNormalizer,
+  type InboundComment,
+  type InboundMessage,
+  type InboundStatus,
+} from "./inbound-message.js";
+import {
+  WebhookRouter,
+  type WebhookFailurePolicy,
+  type WebhookMiddleware,
+  type WebhookProcessorFailure,
+  type WebhookProcessorOptions,
+} from "./webhook-router.js";
 
 /**
  * Webhook verification result
@@ -20,6 +34,9 @@ export interface WebhookEvent {
   timestamp: string;
   data: Record<string, any>;
   metadata?: Record<string, any>;
+  message?: InboundMessage; // Normalized inbound message, when the event carries one
+  status?: InboundStatus; // Normalized delivery status, when the event carries one
+  comment?: InboundComment; // Normalized Facebook or Instagram comment, for "comment" events
 }
 
 /**
@@ -27,6 +44,14 @@ export interface WebhookEvent {
  */
 export type WebhookProcessor = (event: WebhookEvent) => Promise<void> | void;
 
+/**
+ * Event whose processing failed, with what failed
+ */
+export interface FailedWebhookEvent {
+  event: WebhookEvent;
+  failures: WebhookProcessorFailure[];
+}
+
 /**
  * Webhook signature verification options
  */
@@ -42,11 +67,15 @@ export interface SignatureVerificationOptions {
  */
 export class WebhookManager {
   private static instance: WebhookManager;
-  private processors = new Map<string, WebhookProcessor>();
+  private router: WebhookRouter;
   private logger: Logger;
 
-  private constructor() {
-    this.logger = Logger.getInstance();
+  /**
+   * Create an isolated manager; getInstance() returns the shared default
+   */
+  constructor(logger: Logger = Logger.getInstance()) {
+    this.logger = logger;
+    this.router = new WebhookRouter(logger);
   }
 
   /**
@@ -69,12 +98,6 @@ export class WebhookManager {
   ): boolean {
     try {
       // Create HMAC hash
-      const crypto = this.getCrypto();
-      if (!crypto) {
-        this.logger.warn("Crypto module not available for signature verification");
-        return false;
-      }
-
       const hmac = crypto.createHmac(options.algorithm, options.secret);
       hmac.update(payload, "utf8");
       const expectedSignature = hmac.digest("hex");
@@ -92,23 +115,6 @@ export class WebhookManager {
     }
   }
 
-  /**
-   * Get crypto module (Node.js/Bun compatible)
-   */
-  private getCrypto(): any {
-    try {
-      // Try Node.js crypto first
-      return require("crypto");
-    } catch {
-      try {
-        // Try dynamic import for ES modules
-        return require("node:crypto");
-      } catch {
-        return null;
-      }
-    }
-  }
-
   /**
    * Timing-safe string comparison to prevent timing attacks
    */
@@ -170,6 +176,22 @@ export class WebhookManager {
     };
   }
 
+  /**
+   * Detect the platform from the `object` field of a Meta webhook payload
+   */
+  detectPlatform(payload: any): Platform | null {
+    switch (payload?.object) {
+      case "whatsapp_business_account":
+        return "whatsapp";
+      case "page":
+        return "messenger";
+      case "instagram":
+        return "instagram";
+      default:
+        return null;
+    }
+  }
+
   /**
    * Parse WhatsApp webhook event
    */
@@ -182,17 +204,30 @@ export class WebhookManager {
           if (entry.changes) {
             for (const change of entry.changes) {
               if (change.field === "messages" && change.value) {
-                const event: WebhookEvent = {
-                  platform: "whatsapp",
-                  eventType: this.determineWhatsAppEventType(change.value),
-                  timestamp: new Date().toISOString(),
-                  data: change.value,
-                  metadata: {
-                    entryId: entry.id,
-                    changeField: change.field,
-                  },
+                const metadata = {
+                  entryId: entry.id,
+                  changeField: change.field,
                 };
-                events.push(event);
+
+                for (const value of this.splitWhatsAppChangeValue(change.value)) {
+                  const message = value.messages?.[0]
+                    ? InboundMessageNormalizer.fromWhatsAppMessage(value.messages[0], value)
+                    : undefined;
+                  const status = value.statuses?.[0]
+                    ? InboundMessageNormalizer.fromWhatsAppStatus(value.statuses[0])
+                    : undefined;
+
+                  const event: WebhookEvent = {
+                    platform: "whatsapp",
+                    eventType: this.determineWhatsAppEventType(value),
+                    timestamp: message?.timestamp ?? status?.timestamp ?? new Date().toISOString(),
+                    data: value,
+                    metadata,
+                    message,
+                    status,
+                  };
+                  events.push(event);
+                }
               }
             }
           }
@@ -230,10 +265,35 @@ export class WebhookManager {
                   entryId: entry.id,
                   entryTime: entry.time,
                 },
+                message: InboundMessageNormalizer.fromMessagingEvent(messaging, "messenger"),
               };
               events.push(event);
             }
           }
+
+          if (entry.standby) {
+            events.push(...this.parseStandbyEvents(entry, "messenger"));
+          }
+
+          if (entry.changes) {
+            for (const change of entry.changes) {
+              if (change.field === "feed" && change.value) {
+                const comment = InboundMessageNormalizer.fromFeedChange(change.value, entry.id);
+                events.push({
+                  platform: "messenger",
+                  eventType: comment ? "comment" : "feed_update",
+                  timestamp: comment?.timestamp ?? new Date(entry.time ?? Date.now()).toISOString(),
+                  data: change.value,
+                  metadata: {
+                    entryId: entry.id,
+                    entryTime: entry.time,
+                    changeField: change.field,
+                  },
+                  comment,
+                });
+              }
+            }
+          }
         }
       }
     } catch (error) {
@@ -268,10 +328,44 @@ export class WebhookManager {
                   entryId: entry.id,
                   entryTime: entry.time,
                 },
+                message: InboundMessageNormalizer.fromMessagingEvent(messaging, "instagram"),
               };
               events.push(event);
             }
           }
+
+          if (entry.standby) {
+            events.push(...this.parseStandbyEvents(entry, "instagram"));
+          }
+
+          if (entry.changes) {
+            for (const change of entry.changes) {
+              if (
+                (change.field === "comments" || change.field === "live_comments") &&
+                change.value
+              ) {
+                const comment = InboundMessageNormalizer.fromInstagramComment(
+                  change.value,
+                  entry.id,
+                  entry.time
+                );
+                if (comment) {
+                  events.push({
+                    platform: "instagram",
+                    eventType: "comment",
+                    timestamp: comment.timestamp,
+                    data: change.value,
+                    metadata: {
+                      entryId: entry.id,
+                      entryTime: entry.time,
+                      changeField: change.field,
+                    },
+                    comment,
+                  });
+                }
+              }
+            }
+          }
         }
       }
     } catch (error) {
@@ -286,11 +380,56 @@ export class WebhookManager {
     return events;
   }
 
+  /**
+   * Split a WhatsApp change value carrying several messages or statuses into
+   * one value per message/status, keeping the shared metadata and sender contact
+   */
+  private splitWhatsAppChangeValue(value: any): any[] {
+    const messages: any[] = Array.isArray(value.messages) ? value.messages : [];
+    const statuses: any[] = Array.isArray(value.statuses) ? value.statuses : [];
+
+    if (messages.length + statuses.length <= 1) {
+      return [value];
+    }
+
+    const contacts = value.contacts;
+    const shared = { ...value };
+    delete shared.messages;
+    delete shared.statuses;
+    delete shared.contacts;
+
+    return [
+      ...messages.map((message) => ({
+        ...shared,
+        contacts: Array.isArray(contacts)
+          ? contacts.filter((contact: any) => contact.wa_id === message.from)
+          : contacts,
+        messages: [message],
+      })),
+      ...statuses.map((status) => ({
+        ...shared,
+        statuses: [status],
+      })),
+    ];
+  }
+
   /**
    * Determine WhatsApp event type from webhook data
    */
   private determineWhatsAppEventType(data: any): string {
     if (data.messages) {
+      const message = data.messages[0];
+      if (message?.type === "order") {
+        return "order";
+      }
+      if (message?.type === "interactive") {
+        switch (message.interactive?.type) {
+          case "button_reply":
+            return "button_reply";
+          case "list_reply":
+            return "list_reply";
+        }
+      }
       return "message_received";
     } else if (data.statuses) {
       return "message_status";
@@ -313,7 +452,7 @@ export class WebhookManager {
     } else if (messaging.postback) {
       return "postback";
     }
-    return "unknown";
+    return this.determineHandoverEventType(messaging) ?? "unknown";
   }
 
   /**
@@ -327,52 +466,98 @@ export class WebhookManager {
     } else if (messaging.read) {
       return "message_read";
     }
-    return "unknown";
+    return this.determineHandoverEventType(messaging) ?? "unknown";
+  }
+
+  /**
+   * Determine the handover protocol event type, shared by Messenger and Instagram
+   */
+  private determineHandoverEventType(messaging: any): string | undefined {
+    if (messaging.pass_thread_control) {
+      return "pass_thread_control";
+    } else if (messaging.take_thread_control) {
+      return "take_thread_control";
+    } else if (messaging.request_thread_control) {
+      return "request_thread_control";
+    }
+    return undefined;
   }
 
   /**
-   * Register a webhook event processor
+   * Events of threads owned by another app, delivered to secondary receivers.
+   * They are reported as "standby" whatever they contain.
    */
-  registerProcessor(eventType: string, processor: WebhookProcessor): void {
-    this.processors.set(eventType, processor);
+  private parseStandbyEvents(entry: any, platform: "messenger" | "instagram"): WebhookEvent[] {
+    return entry.standby.map((messaging: any) => ({
+      platform,
+      eventType: "standby",
+      timestamp: new Date(messaging.timestamp ?? entry.time ?? Date.now()).toISOString(),
+      data: messaging,
+      metadata: {
+        entryId: entry.id,
+        entryTime: entry.time,
+        standby: true,
+      },
+      message: InboundMessageNormalizer.fromMessagingEvent(messaging, platform),
+    }));
+  }
+
+  /**
+   * Register a webhook event processor. Several processors can share an event type;
+   * see WebhookRouter for wildcard patterns. Returns a function that unregisters it.
+   */
+  registerProcessor(
+    eventType: string,
+    processor: WebhookProcessor,
+    options?: WebhookProcessorOptions
+  ): () => void {
+    const unregister = this.router.on(eventType, processor, options);
     this.logger.debug(`Webhook processor registered for event type: ${eventType}`);
+    return unregister;
   }
 
   /**
-   * Unregister a webhook event processor
+   * Unregister every processor registered for an event type pattern
    */
   unregisterProcessor(eventType: string): void {
-    this.processors.delete(eventType);
+    this.router.off(eventType);
     this.logger.debug(`Webhook processor unregistered for event type: ${eventType}`);
   }
 
   /**
-   * Process webhook events
+   * Add middleware that runs before the processors of every event
    */
-  async processEvents(events: WebhookEvent[]): Promise<void> {
+  use(middleware: WebhookMiddleware): () => void {
+    return this.router.use(middleware);
+  }
+
+  /**
+   * Process webhook events. Processors are retried according to the failure policy
+   * (or their own); returns the events for which a processor or middleware still threw.
+   * With previousFailures, only the processors that failed before run again.
+   */
+  async processEvents(
+    events: WebhookEvent[],
+    failurePolicy?: WebhookFailurePolicy,
+    previousFailures?: WebhookProcessorFailure[]
+  ): Promise<FailedWebhookEvent[]> {
+    const failed: FailedWebhookEvent[] = [];
+
     for (const event of events) {
-      try {
-        this.logger.info(`Processing webhook event: ${event.eventType}`, event.platform, {
-          eventType: event.eventType,
-          timestamp: event.timestamp,
-        });
-
-        const processor = this.processors.get(event.eventType);
-        if (processor) {
-          await processor(event);
-          this.logger.debug(`Webhook event processed successfully: ${event.eventType}`, event.platform);
-        } else {
-          this.logger.warn(`No processor found for event type: ${event.eventType}`, event.platform);
-        }
-      } catch (error) {
-        this.logger.error(
-          `Failed to process webhook event: ${event.eventType}`,
-          event.platform,
-          { eventType: event.eventType },
-          error instanceof Error ? error : undefined
-        );
+      this.logger.info(`Processing webhook event: ${event.eventType}`, event.platform, {
+        eventType: event.eventType,
+        timestamp: event.timestamp,
+      });
+
+      const failures = await this.router.dispatch(event, failurePolicy, previousFailures);
+      if (failures.length === 0) {
+        this.logger.debug(`Webhook event processed successfully: ${event.eventType}`, event.platform);
+      } else {
+        failed.push({ event, failures });
       }
     }
+
+    return failed;
   }
 
   /**
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "bun:test";
+import * as crypto from "crypto";
+import { MessageMesh } from "./message-mesh.js";
+import { MessageMeshError } from "./types.js";
+import type { FlowDataExchangeRequest } from "./whatsapp-flow-endpoint.js";
+
+const url = "https://example.com/flows/booking";
+const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+  publicKeyEncoding: { type: "spki", format: "pem" },
+  privateKeyEncoding: { type: "pkcs8", format: "pem" },
+});
+
+// Encrypts a request the way the WhatsApp client does
+const encryptRequest = (payload: unknown) => {
+  const aesKey = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv("aes-128-gcm", aesKey, iv);
+  const flowData = Buffer.concat([
+    cipher.update(JSON.stringify(payload), "utf8"),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+  const encryptedKey = crypto.publicEncrypt(
+    { key: publicKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: "sha256" },
+    aesKey
+  );
+
+  const body = JSON.stringify({
+    encrypted_flow_data: flowData.toString("base64"),
+    encrypted_aes_key: encryptedKey.toString("base64"),
+    initial_vector: iv.toString("base64"),
+  });
+  const decryptResponse = async (response: Response) => {
+    const encrypted = Buffer.from(await response.text(), "base64");
+    const decipher = crypto.createDecipheriv(
+      "aes-128-gcm",
+      aesKey,
+      Buffer.from(iv.map((byte) => ~byte & 0xff))
+    );
+    decipher.setAuthTag(encrypted.subarray(-16));
+    return JSON.parse(
+      Buffer.concat([decipher.update(encrypted.subarray(0, -16)), decipher.final()]).toString()
+    );
+  };
+  return { body, decryptResponse };
+};
+
+const setup = (appSecret?: string) => {
+  const mesh = new MessageMesh({ isolated: true });
+  mesh.configureLogging({ enableConsole: false });
+  const received: FlowDataExchangeRequest[] = [];
+  const endpoint = mesh.createFlowEndpoint({
+    privateKey,
+    appSecret,
+    handler: (request) => {
+      received.push(request);
+      if (request.flowToken === "expired") {
+        throw new MessageMeshError("INVALID_FLOW_TOKEN", "whatsapp", "Flow token expired");
+      }
+      return { screen: "CONFIRM", data: { slot: `${request.data?.date} 10:00` } };
+    },
+  });
+  return { endpoint, received };
+};
+
+describe("createFlowEndpoint", () => {
+  it("should decrypt requests, pass them to the handler and encrypt the response", async () => {
+    const { endpoint, received } = setup();
+    const { body, decryptResponse } = encryptRequest({
+      version: "3.0",
+      action: "data_exchange",
+      screen: "APPOINTMENT",
+      data: { date: "2026-10-20" },
+      flow_token: "booking_42",
+    });
+
+    const response = await endpoint(new Request(url, { method: "POST", body }));
+
+    expect(response.status).toBe(200);
+    expect(await decryptResponse(response)).toEqual({
+      screen: "CONFIRM",
+      data: { slot: "2026-10-20 10:00" },
+    });
+    expect(received).toEqual([
+      {
+        version: "3.0",
+        action: "data_exchange",
+        screen: "APPOINTMENT",
+        data: { date: "2026-10-20" },
+        flowToken: "booking_42",
+      },
+    ]);
+  });
+
+  it("should answer health checks and report decryption and flow token failures", async () => {
+    const { endpoint, received } = setup();
+    const ping = encryptRequest({ version: "3.0", action: "ping" });
+    const expired = encryptRequest({ version: "3.0", action: "INIT", flow_token: "expired" });
+    const tampered = JSON.parse(encryptRequest({ action: "ping" }).body);
+    tampered.initial_vector = crypto.randomBytes(16).toString("base64");
+
+    const pingResponse = await endpoint(new Request(url, { method: "POST", body: ping.body }));
+    const expiredResponse = await endpoint(
+      new Request(url, { method: "POST", body: expired.body })
+    );
+    const tamperedResponse = await endpoint(
+      new Request(url, { method: "POST", body: JSON.stringify(tampered) })
+    );
+
+    expect(await ping.decryptResponse(pingResponse)).toEqual({ data: { status: "active" } });
+    expect(expiredResponse.status).toBe(427);
+    expect(tamperedResponse.status).toBe(421);
+    expect(received.map((request) => request.flowToken)).toEqual(["expired"]);
+  });
+
+  it("should check the request signature when an app secret is set", async () => {
+    const appSecret = "app_secret";
+    const { endpoint, received } = setup(appSecret);
+    const { body, decryptResponse } = encryptRequest({
+      version: "3.0",
+      action: "data_exchange",
+      screen: "APPOINTMENT",
+      data: { date: "2026-10-21" },
+      flow_token: "booking_42",
+    });
+    const signature = `sha256=${crypto.createHmac("sha256", appSecret).update(body).digest("hex")}`;
+
+    const unsigned = await endpoint(new Request(url, { method: "POST", body }));
+    const signed = await endpoint(
+      new Request(url, { method: "POST", body, headers: { "X-Hub-Signature-256": signature } })
+    );
+
+    expect(unsigned.status).toBe(432);
+    expect(signed.status).toBe(200);
+    expect(await decryptResponse(signed)).toEqual({
+      screen: "CONFIRM",
+      data: { slot: "2026-10-21 10:00" },
+    });
+    expect(received.map((request) => request.flowToken)).toEqual(["booking_42"]);
+  });
+});
@@ -0,0 +1,173 @@
+import { MessageMeshError } from "./types.js";
+import type { Logger } from "./logger.js";
+import type { WebhookManager } from "./webhook.js";
+import {
+  EncryptionUtils,
+  type DecryptedFlowRequest,
+  type EncryptedFlowRequest,
+} from "./security.js";
+
+/**
+ * Decrypted request from a WhatsApp Flow. Health checks ("ping") and error
+ * notifications are answered by the endpoint and never reach the handler.
+ */
+export interface FlowDataExchangeRequest {
+  version: string;
+  action: "INIT" | "data_exchange" | "BACK";
+  screen?: string; // Screen that triggered the request; absent for INIT
+  data?: Record<string, unknown>; // Form data or the payload of the data_exchange action
+  flowToken: string; // flow_token given when the flow message was sent
+}
+
+/**
+ * Next screen to show, or the final response that closes the flow
+ * (`screen: "SUCCESS"` with `data.extension_message_response`)
+ */
+export interface FlowDataExchangeResponse {
+  screen: string;
+  data?: Record<string, unknown>;
+}
+
+export type FlowDataExchangeHandler = (
+  request: FlowDataExchangeRequest
+) => Promise<FlowDataExchangeResponse> | FlowDataExchangeResponse;
+
+export interface FlowEndpointOptions {
+  privateKey: string; // PEM private key whose public key is registered for the phone number
+  passphrase?: string; // Passphrase of an encrypted private key
+  appSecret?: string; // Checks X-Hub-Signature-256 when set (recommended)
+  handler: FlowDataExchangeHandler;
+}
+
+/**
+ * MessageMesh pieces the endpoint uses
+ */
+export interface FlowEndpointContext {
+  webhookManager: WebhookManager;
+  logger: Logger;
+}
+
+/**
+ * Data exchange endpoint for WhatsApp Flows: signature check, RSA/AES-GCM decryption,
+ * health checks and error notifications, and encryption of the handler's response.
+ * Handlers throw MessageMeshError("INVALID_FLOW_TOKEN", ...) to reject a flow token.
+ */
+export class WhatsAppFlowEndpoint {
+  // Status codes WhatsApp Flows treats specially
+  private static readonly STATUS = {
+    decryptionFailed: 421, // The client re-downloads the public key and retries
+    invalidFlowToken: 427,
+    invalidSignature: 432,
+  };
+
+  constructor(
+    private readonly context: FlowEndpointContext,
+    private readonly options: FlowEndpointOptions
+  ) {
+    if (!options.privateKey || typeof options.handler !== "function") {
+      throw new MessageMeshError(
+        "INVALID_FLOW_ENDPOINT_CONFIG",
+        "whatsapp",
+        "Flow endpoint requires a privateKey and a handler"
+      );
+    }
+  }
+
+  async handle(request: Request): Promise<Response> {
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+    }
+
+    const { webhookManager, logger } = this.context;
+    const rawBody = await request.text();
+
+    if (this.options.appSecret) {
+      const signature = request.headers.get("x-hub-signature-256");
+      if (
+        !signature ||
+        !webhookManager.verifyFacebookWebhook(rawBody, signature, this.options.appSecret)
+      ) {
+        logger.warn("Rejected flow request with a missing or invalid signature", "whatsapp");
+        return this.errorResponse(
+          WhatsAppFlowEndpoint.STATUS.invalidSignature,
+          "Invalid signature"
+        );
+      }
+    }
+
+    let body: EncryptedFlowRequest;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return this.errorResponse(400, "Invalid JSON payload");
+    }
+    if (
+      typeof body?.encrypted_flow_data !== "string" ||
+      typeof body.encrypted_aes_key !== "string" ||
+      typeof body.initial_vector !== "string"
+    ) {
+      return this.errorResponse(400, "Invalid flow request");
+    }
+
+    let decrypted: DecryptedFlowRequest;
+    try {
+      decrypted = EncryptionUtils.decryptFlowRequest(
+        body,
+        this.options.privateKey,
+        this.options.passphrase
+      );
+    } catch (error) {
+      logger.warn("Failed to decrypt flow request", "whatsapp", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.errorResponse(WhatsAppFlowEndpoint.STATUS.decryptionFailed, "Decryption failed");
+    }
+
+    const { payload, aesKey, iv } = decrypted;
+    let response: unknown;
+
+    if (payload?.action === "ping") {
+      response = { data: { status: "active" } };
+    } else if (payload?.data?.error) {
+      logger.warn("WhatsApp flow reported an error", "whatsapp", {
+        flowToken: payload.flow_token,
+        error: payload.data.error,
+        errorMessage: payload.data.error_message,
+      });
+      response = { data: { acknowledged: true } };
+    } else {
+      try {
+        response = await this.options.handler({
+          version: payload?.version,
+          action: payload?.action,
+          screen: payload?.screen || undefined,
+          data: payload?.data,
+          flowToken: payload?.flow_token,
+        });
+      } catch (error) {
+        if (error instanceof MessageMeshError && error.code === "INVALID_FLOW_TOKEN") {
+          return this.errorResponse(WhatsAppFlowEndpoint.STATUS.invalidFlowToken, error.message);
+        }
+        logger.error(
+          "Flow data exchange handler failed",
+          "whatsapp",
+          { action: payload?.action, screen: payload?.screen },
+          error instanceof Error ? error : undefined
+        );
+        return this.errorResponse(500, "Flow processing failed");
+      }
+    }
+
+    return new Response(EncryptionUtils.encryptFlowResponse(response, aesKey, iv), {
+      status: 200,
+      headers: { "Content-Type": "text/plain" },
+    });
+  }
+
+  private errorResponse(status: number, error: string): Response {
+    return new Response(JSON.stringify({ error }), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}